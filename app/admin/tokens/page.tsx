@@ -0,0 +1,10 @@
+import TokenPool from "@/components/token-pool"
+
+export const metadata = {
+  title: "GitHub Tokens",
+  description: "Usage and remaining quota of the GitHub tokens used for analysis",
+}
+
+export default function TokensPage() {
+  return <TokenPool />
+}
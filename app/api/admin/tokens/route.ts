@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { listTokens, refreshTokens } from "@/lib/github-tokens"
+
+export async function GET(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  return NextResponse.json(listTokens())
+}
+
+// Re-check every token's quota with GitHub, revoking tokens it no longer accepts
+export async function POST(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  return NextResponse.json(await refreshTokens())
+}
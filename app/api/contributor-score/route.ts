@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { calculateContributorScore, parseFetchOptions } from "@/lib/github-api"
+import { badRequest, githubErrorResponse } from "@/lib/api-errors"
+import { parseEvaluationWindow } from "@/lib/evaluation-window"
+import { parseScoringProfile } from "@/lib/scoring-profiles"
+import { getSnapshotRepository } from "@/lib/snapshot-store"
+import { isValidGithubUsername, isValidRepositoryName } from "@/lib/student-validation"
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const username = searchParams.get("username")?.trim() ?? ""
+  const owner = searchParams.get("owner")?.trim() ?? ""
+  const repo = searchParams.get("repo")?.trim() ?? ""
+
+  if (!isValidGithubUsername(username)) {
+    return badRequest("A valid GitHub username is required")
+  }
+  if (!isValidGithubUsername(owner) || !isValidRepositoryName(repo)) {
+    return badRequest("A valid repository owner and name are required")
+  }
+
+  const profile = parseScoringProfile(searchParams)
+  if (!profile) {
+    return badRequest("Unknown scoring profile")
+  }
+
+  const evaluationWindow = parseEvaluationWindow(searchParams)
+  if (!evaluationWindow) {
+    return badRequest("Invalid evaluation window")
+  }
+
+  try {
+    const data = await calculateContributorScore(username, owner, repo, parseFetchOptions(searchParams), profile, evaluationWindow)
+    await getSnapshotRepository().save("contributorScore", data)
+    return NextResponse.json(data)
+  } catch (error) {
+    return githubErrorResponse(error, "Failed to calculate contributor score")
+  }
+}
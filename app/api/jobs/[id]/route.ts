@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { getJob, JobStateError, toJobView, updateJob, type JobAction } from "@/lib/batch-jobs"
+
+const ACTIONS: JobAction[] = ["pause", "resume", "cancel"]
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const job = await getJob(id)
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 })
+  }
+  return NextResponse.json(toJobView(job))
+}
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  let body: { action?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 })
+  }
+  const action = typeof body.action === "string" ? ACTIONS.find((candidate) => candidate === body.action) : undefined
+  if (!action) {
+    return NextResponse.json({ error: `Action must be one of: ${ACTIONS.join(", ")}` }, { status: 400 })
+  }
+
+  try {
+    const job = await updateJob(id, action)
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+    return NextResponse.json(toJobView(job))
+  } catch (error) {
+    if (error instanceof JobStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    throw error
+  }
+}
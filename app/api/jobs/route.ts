@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server"
+import { createJob, listJobs, toJobSummary } from "@/lib/batch-jobs"
+import {
+  DEFAULT_EVALUATION_WINDOW,
+  evaluationWindowParams,
+  parseEvaluationWindow,
+  type EvaluationWindow,
+} from "@/lib/evaluation-window"
+import { defaultScoringProfile, findScoringProfile } from "@/lib/scoring-profiles"
+import type { StudentRecord } from "@/lib/student-import"
+import { isValidGithubUsername } from "@/lib/student-validation"
+
+const STUDENT_TEXT_FIELDS = ["name", "email", "studentId", "department", "batch", "graduationYear"] as const
+
+function isStudentRecord(value: unknown): value is StudentRecord {
+  if (!value || typeof value !== "object") return false
+  const record = value as Record<string, unknown>
+  return (
+    typeof record.githubUsername === "string" &&
+    typeof record.rowNumber === "number" &&
+    STUDENT_TEXT_FIELDS.every((field) => record[field] === undefined || typeof record[field] === "string")
+  )
+}
+
+export async function GET() {
+  const jobs = await listJobs()
+  return NextResponse.json(jobs.map(toJobSummary))
+}
+
+export async function POST(request: Request) {
+  let body: { name?: unknown; students?: unknown; profile?: unknown; evaluationWindow?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 })
+  }
+  if (body.name !== undefined && typeof body.name !== "string") {
+    return NextResponse.json({ error: "Job name must be a string" }, { status: 400 })
+  }
+  if (body.profile !== undefined && typeof body.profile !== "string") {
+    return NextResponse.json({ error: "Scoring profile must be a string" }, { status: 400 })
+  }
+  if (body.evaluationWindow !== undefined && (typeof body.evaluationWindow !== "object" || !body.evaluationWindow)) {
+    return NextResponse.json({ error: "Invalid evaluation window" }, { status: 400 })
+  }
+
+  if (!Array.isArray(body.students) || body.students.length === 0) {
+    return NextResponse.json({ error: "At least one student with a GitHub username is required" }, { status: 400 })
+  }
+  if (!body.students.every(isStudentRecord)) {
+    return NextResponse.json({ error: "Every student needs a row number and text fields" }, { status: 400 })
+  }
+  const students = body.students
+
+  // Malformed logins would only fail one by one once the job runs
+  const invalid = students.filter((student) => !isValidGithubUsername(student.githubUsername))
+  if (invalid.length > 0) {
+    const [first] = invalid
+    const more = invalid.length > 1 ? ` and ${invalid.length - 1} more` : ""
+    return NextResponse.json(
+      { error: `Invalid GitHub username "${first.githubUsername}" on row ${first.rowNumber}${more}` },
+      { status: 400 },
+    )
+  }
+
+  const profile = body.profile ? findScoringProfile(body.profile) : defaultScoringProfile()
+  if (!profile) {
+    return NextResponse.json({ error: "Unknown scoring profile" }, { status: 400 })
+  }
+
+  // Validated the same way as the query parameters of the single-user routes
+  const evaluationWindow = body.evaluationWindow
+    ? parseEvaluationWindow(
+        evaluationWindowParams({ ...DEFAULT_EVALUATION_WINDOW, ...(body.evaluationWindow as Partial<EvaluationWindow>) }),
+      )
+    : DEFAULT_EVALUATION_WINDOW
+  if (!evaluationWindow) {
+    return NextResponse.json({ error: "Invalid evaluation window" }, { status: 400 })
+  }
+
+  const job = await createJob(
+    body.name?.trim() || `Batch of ${students.length} students`,
+    students,
+    profile,
+    evaluationWindow,
+  )
+  return NextResponse.json(toJobSummary(job), { status: 201 })
+}
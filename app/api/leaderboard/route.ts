@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { getJob, listJobs } from "@/lib/batch-jobs"
+import { buildLeaderboard } from "@/lib/leaderboard"
+
+// Leaderboard for one stored cohort; defaults to the most recent cohort with analyzed students
+export async function GET(request: Request) {
+  const jobId = new URL(request.url).searchParams.get("jobId")
+
+  const job = jobId
+    ? await getJob(jobId)
+    : (await listJobs()).find((candidate) => candidate.items.some((item) => item.status === "completed")) ?? null
+
+  if (!job) {
+    return NextResponse.json({ error: "Cohort not found" }, { status: 404 })
+  }
+  return NextResponse.json(await buildLeaderboard(job))
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server"
+import { getRateLimitStatus } from "@/lib/github-scheduler"
+
+export async function GET() {
+  return NextResponse.json(getRateLimitStatus())
+}
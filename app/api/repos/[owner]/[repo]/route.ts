@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { fetchRepoData, parseFetchOptions } from "@/lib/github-api"
+import { badRequest, githubErrorResponse } from "@/lib/api-errors"
+import { parseEvaluationWindow } from "@/lib/evaluation-window"
+import { parseScoringProfile, toProfileRef } from "@/lib/scoring-profiles"
+import { getSnapshotRepository } from "@/lib/snapshot-store"
+
+export async function GET(request: Request, { params }: { params: Promise<{ owner: string; repo: string }> }) {
+  const { owner, repo } = await params
+  const { searchParams } = new URL(request.url)
+
+  const profile = parseScoringProfile(searchParams)
+  if (!profile) {
+    return badRequest("Unknown scoring profile")
+  }
+
+  const evaluationWindow = parseEvaluationWindow(searchParams)
+  if (!evaluationWindow) {
+    return badRequest("Invalid evaluation window")
+  }
+
+  try {
+    const repoData = await fetchRepoData(owner, repo, parseFetchOptions(searchParams), evaluationWindow)
+    const data = { ...repoData, scoringProfile: toProfileRef(profile) }
+    await getSnapshotRepository().save("repo", data)
+    return NextResponse.json(data)
+  } catch (error) {
+    return githubErrorResponse(error, "Failed to fetch repository data")
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { getSnapshotRepository } from "@/lib/snapshot-store"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const snapshot = await getSnapshotRepository().get(id)
+
+  if (!snapshot) {
+    return NextResponse.json({ error: "Snapshot not found" }, { status: 404 })
+  }
+  return NextResponse.json(snapshot)
+}
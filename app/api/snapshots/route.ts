@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { getSnapshotRepository, SNAPSHOT_KINDS, type SnapshotKind } from "@/lib/snapshot-store"
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const kind = searchParams.get("kind") as SnapshotKind | null
+
+  if (kind && !SNAPSHOT_KINDS.includes(kind)) {
+    return NextResponse.json({ error: `Kind must be one of: ${SNAPSHOT_KINDS.join(", ")}` }, { status: 400 })
+  }
+
+  const snapshots = await getSnapshotRepository().list({
+    kind: kind ?? undefined,
+    username: searchParams.get("username") ?? undefined,
+    repository: searchParams.get("repository") ?? undefined,
+    limit: Number(searchParams.get("limit")) || undefined,
+  })
+  return NextResponse.json(snapshots)
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { fetchUserActivity } from "@/lib/github-api"
+import { badRequest, githubErrorResponse } from "@/lib/api-errors"
+import { isValidGithubUsername } from "@/lib/student-validation"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params
+  if (!isValidGithubUsername(username)) {
+    return badRequest("A valid GitHub username is required")
+  }
+
+  try {
+    return NextResponse.json(await fetchUserActivity(username))
+  } catch (error) {
+    return githubErrorResponse(error, "Failed to fetch GitHub activity")
+  }
+}
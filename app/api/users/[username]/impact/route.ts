@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { calculateContributorImpact } from "@/lib/contributor-impact"
+import { badRequest, githubErrorResponse } from "@/lib/api-errors"
+import { parseScoringProfile } from "@/lib/scoring-profiles"
+import { getSnapshotRepository } from "@/lib/snapshot-store"
+import { isValidGithubUsername } from "@/lib/student-validation"
+
+export async function GET(request: Request, { params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params
+  if (!isValidGithubUsername(username)) {
+    return badRequest("A valid GitHub username is required")
+  }
+
+  const profile = parseScoringProfile(new URL(request.url).searchParams)
+  if (!profile) {
+    return badRequest("Unknown scoring profile")
+  }
+
+  try {
+    const data = await calculateContributorImpact(username, profile)
+    await getSnapshotRepository().save("contributorImpact", data)
+    return NextResponse.json(data)
+  } catch (error) {
+    return githubErrorResponse(error, "Failed to calculate Contributor Impact Score")
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { calculateOpenSourceValue, parseFetchOptions } from "@/lib/github-api"
+import { badRequest, githubErrorResponse } from "@/lib/api-errors"
+import { parseEvaluationWindow } from "@/lib/evaluation-window"
+import { parseScoringProfile } from "@/lib/scoring-profiles"
+import { getSnapshotRepository } from "@/lib/snapshot-store"
+import { isValidGithubUsername } from "@/lib/student-validation"
+
+export async function GET(request: Request, { params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params
+  if (!isValidGithubUsername(username)) {
+    return badRequest("A valid GitHub username is required")
+  }
+
+  const { searchParams } = new URL(request.url)
+  const profile = parseScoringProfile(searchParams)
+  if (!profile) {
+    return badRequest("Unknown scoring profile")
+  }
+
+  const evaluationWindow = parseEvaluationWindow(searchParams)
+  if (!evaluationWindow) {
+    return badRequest("Invalid evaluation window")
+  }
+
+  try {
+    const data = await calculateOpenSourceValue(username, parseFetchOptions(searchParams), profile, evaluationWindow)
+    await getSnapshotRepository().save("openSourceValue", data)
+    return NextResponse.json(data)
+  } catch (error) {
+    return githubErrorResponse(error, "Failed to calculate open source value")
+  }
+}
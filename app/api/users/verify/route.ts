@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { checkGithubUsersExist } from "@/lib/github-api"
+import { badRequest } from "@/lib/api-errors"
+import { isValidGithubUsername } from "@/lib/student-validation"
+
+// Largest number of usernames checked in one request
+const MAX_USERNAMES = 1000
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest("Request body must be JSON")
+  }
+
+  // `null` and arrays are valid JSON too
+  const usernames = body && typeof body === "object" ? (body as { usernames?: unknown }).usernames : undefined
+  if (
+    !Array.isArray(usernames) ||
+    usernames.length > MAX_USERNAMES ||
+    !usernames.every((username) => typeof username === "string")
+  ) {
+    return badRequest(`Provide up to ${MAX_USERNAMES} usernames as strings`)
+  }
+
+  return NextResponse.json(await checkGithubUsersExist(usernames.filter(isValidGithubUsername)))
+}
@@ -0,0 +1,28 @@
+import { Suspense } from "react"
+import CandidateComparison from "@/components/candidate-comparison"
+import { Users } from "lucide-react"
+
+export const metadata = {
+  title: "Compare Candidates",
+  description: "Compare the open source value and GitHub activity of shortlisted students side by side",
+}
+
+export default function ComparePage() {
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <div className="flex flex-col items-center mb-8">
+        <h1 className="text-3xl font-bold mb-2 flex items-center">
+          <Users className="mr-2" /> Compare Candidates
+        </h1>
+        <p className="text-muted-foreground text-center max-w-2xl mb-6">
+          Compare two to five GitHub users side by side. Share the page's link to show others the same comparison.
+        </p>
+      </div>
+
+      {/* The compared usernames are read from the URL, which needs a Suspense boundary */}
+      <Suspense>
+        <CandidateComparison />
+      </Suspense>
+    </main>
+  )
+}
@@ -0,0 +1,10 @@
+import CohortLeaderboard from "@/components/cohort-leaderboard"
+
+export const metadata = {
+  title: "CIS Leaderboard",
+  description: "Rank the students of an uploaded cohort by their open source contributions",
+}
+
+export default function LeaderboardPage() {
+  return <CohortLeaderboard />
+}
@@ -8,19 +8,37 @@ import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { AlertCircle, Github, User, BookOpen, Award, BarChart, Upload, Briefcase, GraduationCap } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, Info, Github, BookOpen, Award, BarChart, Upload, GraduationCap, Trophy, Users } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
 import RepoOverview from "@/components/repo-overview"
 import ContributorStats from "@/components/contributor-stats"
 import IssueStats from "@/components/issue-stats"
 import PullRequestStats from "@/components/pull-request-stats"
-import { useQuery } from "@tanstack/react-query"
-import { fetchRepoData } from "@/lib/github-api"
+import SnapshotHistory from "@/components/snapshot-history"
+import RateLimitNotice from "@/components/rate-limit-notice"
+import ScoringProfileSelect from "@/components/scoring-profile-select"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { fetchRepoData } from "@/lib/api-client"
+import type { FetchOptions } from "@/lib/github-api"
+import { DEFAULT_SCORING_PROFILE_ID } from "@/lib/scoring-profiles"
+import type { Snapshot } from "@/lib/snapshot-store"
 import Link from "next/link"
 
+// History windows offered for repository analysis; "all" pages through the full history
+const HISTORY_WINDOWS: { value: string; label: string; options: Partial<FetchOptions> }[] = [
+  { value: "all", label: "All history", options: { history: "all" } },
+  { value: "365", label: "Last 365 days", options: { history: "recent", days: 365 } },
+  { value: "90", label: "Last 90 days", options: { history: "recent", days: 90 } },
+]
+
 export default function Home() {
   const [repoUrl, setRepoUrl] = useState("")
   const [repoInfo, setRepoInfo] = useState<{ owner: string; repo: string } | null>(null)
+  const [snapshot, setSnapshot] = useState<Snapshot<"repo"> | null>(null)
+  const [historyWindow, setHistoryWindow] = useState("all")
+  const [profileId, setProfileId] = useState(DEFAULT_SCORING_PROFILE_ID)
+  const queryClient = useQueryClient()
   const { toast } = useToast()
 
   const parseGitHubUrl = (url: string) => {
@@ -36,7 +54,7 @@ export default function Home() {
       }
 
       return { owner: pathParts[0], repo: pathParts[1] }
-    } catch (error) {
+    } catch {
       return null
     }
   }
@@ -55,15 +73,25 @@ export default function Home() {
     }
 
     setRepoInfo(parsed)
+    setSnapshot(null)
   }
 
-  const { data, isLoading, error } = useQuery({
-    queryKey: ["repoData", repoInfo?.owner, repoInfo?.repo],
-    queryFn: () => (repoInfo ? fetchRepoData(repoInfo.owner, repoInfo.repo) : null),
+  const { data: liveData, isLoading, error } = useQuery({
+    queryKey: ["repoData", repoInfo?.owner, repoInfo?.repo, historyWindow, profileId],
+    queryFn: async () => {
+      if (!repoInfo) return null
+      const selectedWindow = HISTORY_WINDOWS.find((option) => option.value === historyWindow)
+      const result = await fetchRepoData(repoInfo.owner, repoInfo.repo, selectedWindow?.options, profileId)
+      // The server keeps a timestamped snapshot of every evaluation
+      queryClient.invalidateQueries({ queryKey: ["snapshots"] })
+      return result
+    },
     enabled: !!repoInfo,
     staleTime: 5 * 60 * 1000, // 5 minutes
   })
 
+  const data = snapshot?.data ?? liveData
+
   return (
     <main className="container mx-auto py-8 px-4">
       {/* Brand Header */}
@@ -80,7 +108,7 @@ export default function Home() {
         </p>
         
         {/* Navigation Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 w-full max-w-4xl mb-10">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 w-full max-w-6xl mb-10">
           <Link href="/" className="w-full">
             <Card className="h-full hover:border-primary transition-colors">
               <CardContent className="flex flex-col items-center justify-center p-6">
@@ -128,6 +156,30 @@ export default function Home() {
               </CardContent>
             </Card>
           </Link>
+
+          <Link href="/leaderboard" className="w-full">
+            <Card className="h-full hover:border-primary transition-colors">
+              <CardContent className="flex flex-col items-center justify-center p-6">
+                <Trophy className="h-8 w-8 mb-3 text-primary" />
+                <h3 className="font-semibold text-center">CIS Leaderboard</h3>
+                <p className="text-sm text-muted-foreground text-center mt-2">
+                  Rank an uploaded cohort by open source value
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
+
+          <Link href="/compare" className="w-full">
+            <Card className="h-full hover:border-primary transition-colors">
+              <CardContent className="flex flex-col items-center justify-center p-6">
+                <Users className="h-8 w-8 mb-3 text-primary" />
+                <h3 className="font-semibold text-center">Compare Candidates</h3>
+                <p className="text-sm text-muted-foreground text-center mt-2">
+                  Put shortlisted students side by side
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
         </div>
       </div>
 
@@ -148,12 +200,27 @@ export default function Home() {
             onChange={(e) => setRepoUrl(e.target.value)}
             className="flex-1"
           />
+          <Select value={historyWindow} onValueChange={setHistoryWindow}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HISTORY_WINDOWS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ScoringProfileSelect value={profileId} onChange={setProfileId} className="w-[180px]" />
           <Button type="submit" disabled={isLoading}>
             {isLoading ? "Analyzing..." : "Analyze"}
           </Button>
         </form>
       </div>
 
+      <RateLimitNotice active={isLoading} className="mb-6" />
+
       {error && (
         <Alert variant="destructive" className="mb-6">
           <AlertCircle className="h-4 w-4" />
@@ -162,6 +229,27 @@ export default function Home() {
         </Alert>
       )}
 
+      {repoInfo && (
+        <div className="mb-6">
+          <SnapshotHistory
+            filter={{ kind: "repo", repository: `${repoInfo.owner}/${repoInfo.repo}` }}
+            activeSnapshot={snapshot}
+            onLoad={setSnapshot}
+          />
+        </div>
+      )}
+
+      {data?.coverage?.truncated && (
+        <Alert className="mb-6">
+          <Info className="h-4 w-4" />
+          <AlertTitle>Partial history</AlertTitle>
+          <AlertDescription>
+            This repository has more history than the configured page limit, so only the most recent contributors,
+            issues and pull requests are included. Pick a shorter window or raise GITHUB_FETCH_MAX_PAGES.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {data && (
         <div className="space-y-6">
           <Card>
@@ -1,30 +1,126 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { AlertCircle, Upload, FileSpreadsheet, CheckCircle, File, Github } from "lucide-react"
+import { AlertCircle, Upload, FileSpreadsheet, CheckCircle, File } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
 import { Progress } from "@/components/ui/progress"
+import ColumnMapper from "@/components/column-mapper"
+import ValidationReport from "@/components/validation-report"
+import BatchJobProgress from "@/components/batch-job-progress"
+import RecentBatchJobs from "@/components/recent-batch-jobs"
+import ScoringProfileSelect from "@/components/scoring-profile-select"
+import EvaluationWindowPicker from "@/components/evaluation-window-picker"
+import {
+  isSupportedFile,
+  parseStudentFile,
+  toStudentRecords,
+  type ParsedSheet,
+  type StudentRecord,
+} from "@/lib/student-import"
+import { resolveColumnMapping, saveMapping, type ColumnMapping } from "@/lib/column-mapping"
+import {
+  acceptedStudents,
+  usernamesToVerify,
+  validateStudents,
+  type UserExistence,
+} from "@/lib/student-validation"
+import { createBatchJob, verifyGithubUsers } from "@/lib/api-client"
+import { DEFAULT_EVALUATION_WINDOW } from "@/lib/evaluation-window"
+import { DEFAULT_SCORING_PROFILE_ID } from "@/lib/scoring-profiles"
+import { useQueryClient } from "@tanstack/react-query"
 import type React from "react"
 
 export default function UploadStudentsPage() {
   const [file, setFile] = useState<File | null>(null)
-  const [uploading, setUploading] = useState(false)
+  const [reading, setReading] = useState(false)
   const [progress, setProgress] = useState(0)
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [mappingRemembered, setMappingRemembered] = useState(false)
   const [uploadComplete, setUploadComplete] = useState(false)
+  const [students, setStudents] = useState<StudentRecord[]>([])
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [existence, setExistence] = useState<UserExistence>({})
+  const [verifying, setVerifying] = useState(false)
+  const [skipInvalid, setSkipInvalid] = useState(false)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [startingJob, setStartingJob] = useState(false)
+  const [profileId, setProfileId] = useState(DEFAULT_SCORING_PROFILE_ID)
+  const [evaluationWindow, setEvaluationWindow] = useState(DEFAULT_EVALUATION_WINDOW)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const queryClient = useQueryClient()
   const { toast } = useToast()
 
+  const report = useMemo(() => validateStudents(students, existence), [students, existence])
+  const readyStudents = useMemo(() => acceptedStudents(report), [report])
+  const blockedByErrors = report.counts.error > 0 && !skipInvalid
+
+  // Look up well-formed usernames on GitHub once the rows have been mapped, and again after fixes
+  useEffect(() => {
+    if (!uploadComplete || verifying) return
+
+    const pending = usernamesToVerify(report, existence)
+    if (pending.length === 0) return
+
+    setVerifying(true)
+    verifyGithubUsers(pending)
+      .then((results) => setExistence((previous) => ({ ...previous, ...results })))
+      .catch((error) => {
+        // Leave these rows marked as unverified rather than retrying in a loop
+        console.warn("Could not verify GitHub users:", error)
+        setExistence((previous) => ({ ...previous, ...Object.fromEntries(pending.map((username) => [username, null])) }))
+      })
+      .finally(() => setVerifying(false))
+  }, [uploadComplete, verifying, report, existence])
+
+  const handleFixUsername = (rowNumber: number, username: string) => {
+    setStudents((previous) =>
+      previous.map((student) => (student.rowNumber === rowNumber ? { ...student, githubUsername: username } : student)),
+    )
+  }
+
+  const readSheet = async (selectedFile: File) => {
+    setReading(true)
+    setProgress(0)
+
+    try {
+      const parsed = await parseStudentFile(selectedFile, setProgress)
+      if (parsed.rows.length === 0) {
+        throw new Error("The uploaded file has a header row but no student rows")
+      }
+
+      const resolved = resolveColumnMapping(parsed)
+      setSheet(parsed)
+      setMapping(resolved.mapping)
+      setMappingRemembered(resolved.remembered)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Could not read the uploaded file"
+      setParseError(message)
+      toast({
+        title: "Could Not Read File",
+        description: message,
+        variant: "destructive",
+      })
+    } finally {
+      setReading(false)
+    }
+  }
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0]
-      const fileType = selectedFile.name.split('.').pop()?.toLowerCase()
       
-      if (fileType === 'csv' || fileType === 'xlsx' || fileType === 'xls') {
+      if (isSupportedFile(selectedFile.name)) {
         setFile(selectedFile)
+        setSheet(null)
         setUploadComplete(false)
+        setStudents([])
+        setParseError(null)
+        readSheet(selectedFile)
       } else {
         toast({
           title: "Invalid File Format",
@@ -36,10 +132,16 @@ export default function UploadStudentsPage() {
     }
   }
 
-  const handleUpload = async (e: React.FormEvent) => {
+  const handleMappingChange = (nextMapping: ColumnMapping) => {
+    setMapping(nextMapping)
+    setMappingRemembered(false)
+    setUploadComplete(false)
+  }
+
+  const handleUpload = (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!file) {
+    if (!file || !sheet) {
       toast({
         title: "No File Selected",
         description: "Please select a CSV or Excel file to upload",
@@ -47,30 +149,56 @@ export default function UploadStudentsPage() {
       })
       return
     }
-    
-    // Simulate upload process
-    setUploading(true)
-    setProgress(0)
-    
-    // Mock progress updates
-    const interval = setInterval(() => {
-      setProgress(prevProgress => {
-        const newProgress = prevProgress + 10
-        if (newProgress >= 100) {
-          clearInterval(interval)
-          setTimeout(() => {
-            setUploading(false)
-            setUploadComplete(true)
-            toast({
-              title: "Upload Complete",
-              description: "Student GitHub profiles have been processed successfully",
-            })
-          }, 500)
-          return 100
-        }
-        return newProgress
+
+    if (mapping.githubUsername === undefined) {
+      toast({
+        title: "GitHub Username Column Required",
+        description: "Please choose which column contains the GitHub usernames",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const records = toStudentRecords(sheet, mapping)
+    if (records.every((record) => record.githubUsername === "")) {
+      toast({
+        title: "No Usernames Found",
+        description: "The selected GitHub username column is empty",
+        variant: "destructive",
       })
-    }, 400)
+      return
+    }
+
+    saveMapping(sheet, mapping)
+    setMappingRemembered(true)
+    setStudents(records)
+    setSkipInvalid(false)
+    setUploadComplete(true)
+    toast({
+      title: "Upload Complete",
+      description: `Parsed ${records.length} rows from ${file.name}. Review the validation report below.`,
+    })
+  }
+
+  const handleStartAnalysis = async () => {
+    setStartingJob(true)
+    try {
+      const job = await createBatchJob(file?.name ?? "Student upload", readyStudents, profileId, evaluationWindow)
+      setJobId(job.id)
+      queryClient.invalidateQueries({ queryKey: ["batchJobs"] })
+      toast({
+        title: "Analysis Started",
+        description: `${job.progress.total} students queued. You can close this tab, the job keeps running on the server.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Could Not Start Analysis",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setStartingJob(false)
+    }
   }
 
   return (
@@ -84,11 +212,11 @@ export default function UploadStudentsPage() {
         </p>
       </div>
 
-      <Card className="max-w-2xl mx-auto">
+      <Card className="max-w-4xl mx-auto">
         <CardHeader>
           <CardTitle>Upload Students List</CardTitle>
           <CardDescription>
-            Upload a CSV or Excel file with GitHub usernames in the first column.
+            Upload a CSV or Excel file, then match its columns to the student fields.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -112,38 +240,95 @@ export default function UploadStudentsPage() {
                 accept=".csv,.xlsx,.xls"
                 className="hidden"
                 id="file-upload"
+                ref={fileInputRef}
                 onChange={handleFileChange}
               />
-              <label htmlFor="file-upload">
-                <Button variant="outline" className="mt-4" type="button" disabled={uploading}>
-                  {file ? "Change File" : "Select File"}
-                </Button>
-              </label>
+              <Button
+                variant="outline"
+                className="mt-4"
+                type="button"
+                disabled={reading}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {file ? "Change File" : "Select File"}
+              </Button>
             </div>
 
-            {uploading && (
+            {reading && (
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span>Processing profiles...</span>
+                  <span>Reading file...</span>
                   <span>{progress}%</span>
                 </div>
                 <Progress value={progress} className="h-2" />
               </div>
             )}
 
-            {uploadComplete && (
-              <Alert className="bg-green-50 border-green-200">
-                <CheckCircle className="h-4 w-4 text-green-600" />
-                <AlertTitle className="text-green-800">Upload Complete</AlertTitle>
-                <AlertDescription className="text-green-700">
-                  Student GitHub profiles have been processed successfully.
-                </AlertDescription>
+            {sheet && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium">Map Columns</h3>
+                  {mappingRemembered && (
+                    <span className="text-xs text-muted-foreground">Using the saved mapping for this sheet layout</span>
+                  )}
+                </div>
+                <ColumnMapper sheet={sheet} mapping={mapping} onChange={handleMappingChange} />
+              </div>
+            )}
+
+            {parseError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Could Not Read File</AlertTitle>
+                <AlertDescription>{parseError}</AlertDescription>
               </Alert>
             )}
 
+            {uploadComplete && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium">Validation Report</h3>
+                <ValidationReport
+                  report={report}
+                  verifying={verifying}
+                  skipInvalid={skipInvalid}
+                  onSkipInvalidChange={setSkipInvalid}
+                  onFixUsername={handleFixUsername}
+                />
+                {blockedByErrors ? (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Rows Need Attention</AlertTitle>
+                    <AlertDescription>
+                      Fix the {report.counts.error} rows with errors, or choose to skip invalid rows.
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Alert className="bg-green-50 border-green-200">
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                    <AlertTitle className="text-green-800">Ready for Analysis</AlertTitle>
+                    <AlertDescription className="text-green-700 flex items-center justify-between gap-4">
+                      <span>{readyStudents.length} students from {file?.name} are ready to be analyzed.</span>
+                      <div className="flex items-center gap-2">
+                        <ScoringProfileSelect value={profileId} onChange={setProfileId} className="w-[180px] bg-white" />
+                        <EvaluationWindowPicker value={evaluationWindow} onChange={setEvaluationWindow} className="bg-white" />
+                        <Button
+                          type="button"
+                          size="sm"
+                          disabled={startingJob || verifying || readyStudents.length === 0}
+                          onClick={handleStartAnalysis}
+                        >
+                          {startingJob ? "Starting..." : "Start Analysis"}
+                        </Button>
+                      </div>
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            )}
+
             <div className="flex justify-end">
-              <Button type="submit" disabled={!file || uploading}>
-                {uploading ? "Processing..." : "Upload and Analyze"}
+              <Button type="submit" disabled={!sheet || reading}>
+                {reading ? "Reading..." : "Upload and Validate"}
               </Button>
             </div>
           </form>
@@ -157,11 +342,17 @@ export default function UploadStudentsPage() {
               <p>...</p>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              Only the GitHub username column is required. Other columns are optional.
+              Only the GitHub username column is required. Other columns are optional, and headers such as
+              &quot;GitHub ID&quot; or &quot;Roll No&quot; can be mapped after the file is selected.
             </p>
           </div>
         </CardContent>
       </Card>
+
+      <div className="max-w-4xl mx-auto mt-8 space-y-6">
+        {jobId && <BatchJobProgress jobId={jobId} />}
+        <RecentBatchJobs selectedJobId={jobId} onSelect={setJobId} />
+      </div>
     </main>
   )
 } 
\ No newline at end of file
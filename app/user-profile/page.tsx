@@ -1,7 +1,9 @@
 import OpenSourceValue from "@/components/open-source-value"
+import GitHubActivity from "@/components/github-activity"
+import ContributorImpact from "@/components/contributor-impact"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Github, Activity } from "lucide-react"
+import { Github, Activity, Gauge } from "lucide-react"
 
 export const metadata = {
   title: "GitHub User Profile",
@@ -21,7 +23,7 @@ export default function UserProfilePage() {
       </div>
 
       <Tabs defaultValue="opensource" className="w-full">
-        <TabsList className="grid grid-cols-2 mb-4">
+        <TabsList className="grid grid-cols-3 mb-4">
           <TabsTrigger value="activity">
             <Activity className="mr-2 h-4 w-4" />
             GitHub Activity
@@ -30,6 +32,10 @@ export default function UserProfilePage() {
             <Github className="mr-2 h-4 w-4" />
             Open Source Value
           </TabsTrigger>
+          <TabsTrigger value="impact">
+            <Gauge className="mr-2 h-4 w-4" />
+            Impact Score
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="activity">
@@ -39,9 +45,7 @@ export default function UserProfilePage() {
               <CardDescription>View a user's GitHub activity and contributions over time</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="flex items-center justify-center p-12 border-2 border-dashed rounded-lg">
-                <p className="text-muted-foreground">GitHub Activity Component (Not Implemented)</p>
-              </div>
+              <GitHubActivity />
             </CardContent>
           </Card>
         </TabsContent>
@@ -49,6 +53,21 @@ export default function UserProfilePage() {
         <TabsContent value="opensource">
           <OpenSourceValue />
         </TabsContent>
+
+        <TabsContent value="impact">
+          <Card>
+            <CardHeader>
+              <CardTitle>Contributor Impact Score</CardTitle>
+              <CardDescription>
+                Commits, PR acceptance, issue resolution, repository influence and contribution diversity across all
+                public activity
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ContributorImpact />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </main>
   )
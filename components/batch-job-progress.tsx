@@ -0,0 +1,182 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/components/ui/use-toast"
+import { AlertCircle, Loader2, Pause, Play, XCircle } from "lucide-react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import RateLimitNotice from "@/components/rate-limit-notice"
+import { ScoringProfileBadge } from "@/components/scoring-profile-select"
+import { EvaluationWindowBadge } from "@/components/evaluation-window-picker"
+import { fetchBatchJob, updateBatchJob } from "@/lib/api-client"
+import type { JobAction, JobStatus, StudentJobStatus } from "@/lib/batch-jobs"
+
+interface BatchJobProgressProps {
+  jobId: string
+}
+
+const JOB_STATUS_STYLES: Record<JobStatus, string> = {
+  queued: "bg-slate-500",
+  running: "bg-blue-500",
+  paused: "bg-yellow-500",
+  completed: "bg-green-500",
+  cancelled: "bg-red-500",
+}
+
+const STUDENT_STATUS_STYLES: Record<StudentJobStatus, string> = {
+  pending: "text-muted-foreground",
+  running: "text-blue-600",
+  completed: "text-green-600",
+  failed: "text-red-600",
+  cancelled: "text-muted-foreground line-through",
+}
+
+export default function BatchJobProgress({ jobId }: BatchJobProgressProps) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  const { data: job, error } = useQuery({
+    queryKey: ["batchJob", jobId],
+    queryFn: () => fetchBatchJob(jobId),
+    // Poll while the server is still working through the cohort
+    refetchInterval: (query) => {
+      const status = query.state.data?.status
+      return status === "queued" || status === "running" ? 2000 : false
+    },
+  })
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: (action: JobAction) => updateBatchJob(jobId, action),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["batchJob", jobId], updated)
+      queryClient.invalidateQueries({ queryKey: ["batchJobs"] })
+    },
+    onError: (mutationError) => {
+      toast({
+        title: "Could Not Update Job",
+        description: mutationError instanceof Error ? mutationError.message : "Unknown error",
+        variant: "destructive",
+      })
+    },
+  })
+
+  if (error) {
+    return (
+      <Card className="border-red-400">
+        <CardContent className="pt-6 flex items-center text-sm">
+          <AlertCircle className="mr-2 h-4 w-4 text-red-500" />
+          Failed to load the analysis job. It may have been removed from the server.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!job) {
+    return (
+      <Card>
+        <CardContent className="pt-6 flex items-center text-sm text-muted-foreground">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Loading analysis job...
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { progress } = job
+  const active = job.status === "queued" || job.status === "running"
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {job.name}
+              <ScoringProfileBadge profile={job.scoringProfile} />
+              <EvaluationWindowBadge evaluationWindow={job.evaluationWindow} />
+            </CardTitle>
+            <CardDescription>Started {new Date(job.createdAt).toLocaleString()}</CardDescription>
+          </div>
+          <Badge className={JOB_STATUS_STYLES[job.status]}>{job.status}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>
+              {progress.completed + progress.failed + progress.cancelled} of {progress.total} students processed
+            </span>
+            <span>{progress.percent}%</span>
+          </div>
+          <Progress value={progress.percent} className="h-2" />
+          <div className="flex gap-4 text-xs text-muted-foreground">
+            <span>{progress.running} running</span>
+            <span>{progress.pending} pending</span>
+            <span>{progress.completed} completed</span>
+            <span>{progress.failed} failed</span>
+            {progress.cancelled > 0 && <span>{progress.cancelled} cancelled</span>}
+          </div>
+        </div>
+
+        <RateLimitNotice active={active} />
+
+        <div className="flex gap-2">
+          {active && (
+            <Button variant="outline" size="sm" disabled={isPending} onClick={() => mutate("pause")}>
+              <Pause className="mr-2 h-4 w-4" /> Pause
+            </Button>
+          )}
+          {job.status === "paused" && (
+            <Button variant="outline" size="sm" disabled={isPending} onClick={() => mutate("resume")}>
+              <Play className="mr-2 h-4 w-4" /> Resume
+            </Button>
+          )}
+          {(active || job.status === "paused") && (
+            <Button variant="destructive" size="sm" disabled={isPending} onClick={() => mutate("cancel")}>
+              <XCircle className="mr-2 h-4 w-4" /> Cancel
+            </Button>
+          )}
+        </div>
+
+        <div className="border rounded-md max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead>GitHub Username</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Open Source Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {job.items.map((item) => (
+                <TableRow key={item.student.rowNumber}>
+                  <TableCell>{item.student.name ?? item.student.studentId ?? "—"}</TableCell>
+                  <TableCell>
+                    <a
+                      href={`https://github.com/${item.student.githubUsername}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:underline"
+                    >
+                      {item.student.githubUsername}
+                    </a>
+                  </TableCell>
+                  <TableCell className={STUDENT_STATUS_STYLES[item.status]}>
+                    {item.status === "running" && <Loader2 className="inline mr-1 h-3 w-3 animate-spin" />}
+                    {item.status}
+                    {item.error && <span className="block text-xs">{item.error}</span>}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{item.totalScore ?? "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,445 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { useToast } from "@/components/ui/use-toast"
+import { AlertCircle, Code, Link2, Loader2, Radar as RadarIcon, TrendingUp, Trophy, Users } from "lucide-react"
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  PolarAngleAxis,
+  PolarGrid,
+  PolarRadiusAxis,
+  Radar,
+  RadarChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { useQueries, useQueryClient } from "@tanstack/react-query"
+import ScoringProfileSelect from "@/components/scoring-profile-select"
+import EvaluationWindowPicker from "@/components/evaluation-window-picker"
+import RateLimitNotice from "@/components/rate-limit-notice"
+import { fetchOpenSourceValue, fetchUserActivity } from "@/lib/api-client"
+import {
+  MAX_COMPARED,
+  MIN_COMPARED,
+  activityTimeline,
+  candidateKey,
+  candidateMetrics,
+  comparisonParams,
+  languageMix,
+  parseComparedUsernames,
+  parseComparison,
+  radarData,
+  scoreComponents,
+  type ScoreComponents,
+} from "@/lib/comparison"
+import type { EvaluationWindow } from "@/lib/evaluation-window"
+import { isValidGithubUsername } from "@/lib/student-validation"
+import type React from "react"
+
+const CANDIDATE_COLORS = ["#3b82f6", "#f97316", "#22c55e", "#8b5cf6", "#ec4899"]
+
+function formatPoints(points: number) {
+  return (Math.round(points * 10) / 10).toLocaleString()
+}
+
+// Points from open source repositories, split by how each repository was found
+const SCORE_ROWS: { label: string; format: (components: ScoreComponents) => string }[] = [
+  { label: "Total score", format: (components) => formatPoints(components.total) },
+  { label: "Own repositories", format: (components) => formatPoints(components.bySource.owned) },
+  { label: "Forks", format: (components) => formatPoints(components.bySource.fork) },
+  { label: "Upstream pull requests", format: (components) => formatPoints(components.bySource.external) },
+  { label: "Open source repositories", format: (components) => String(components.openSourceRepos) },
+  { label: "Integrity flags", format: (components) => String(components.integrityFlags) },
+  { label: "Integrity penalty", format: (components) => `${Math.round(components.integrityPenalty * 100)}%` },
+]
+
+function formatMonth(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number)
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(undefined, {
+    month: "short",
+    year: "2-digit",
+    timeZone: "UTC",
+  })
+}
+
+export default function CandidateComparison() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  // The compared set, profile and window live in the URL, so a comparison can be shared by copying the link
+  const { usernames, profileId, evaluationWindow } = parseComparison(searchParams)
+  const [input, setInput] = useState(usernames.join(", "))
+  const comparing = usernames.length >= MIN_COMPARED
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const entered = parseComparedUsernames(input)
+    if (entered.length < MIN_COMPARED || entered.length > MAX_COMPARED) {
+      toast({
+        title: "Usernames Required",
+        description: `Enter between ${MIN_COMPARED} and ${MAX_COMPARED} GitHub usernames`,
+        variant: "destructive",
+      })
+      return
+    }
+    const invalid = entered.filter((username) => !isValidGithubUsername(username))
+    if (invalid.length > 0) {
+      toast({
+        title: "Invalid Username",
+        description: `Not a valid GitHub username: ${invalid.join(", ")}`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    router.push(`/compare?${comparisonParams(entered, profileId, evaluationWindow)}`)
+  }
+
+  const handleProfileChange = (nextProfileId: string) => {
+    router.replace(`/compare?${comparisonParams(usernames, nextProfileId, evaluationWindow)}`)
+  }
+
+  const handleEvaluationWindowChange = (nextEvaluationWindow: EvaluationWindow) => {
+    router.replace(`/compare?${comparisonParams(usernames, profileId, nextEvaluationWindow)}`)
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast({ title: "Link Copied", description: "Anyone with the link sees the same comparison" })
+    } catch {
+      toast({ title: "Could Not Copy", description: window.location.href, variant: "destructive" })
+    }
+  }
+
+  // Same query keys as the profile pages, so a candidate looked at there is not fetched again
+  const values = useQueries({
+    queries: (comparing ? usernames : []).map((username) => ({
+      queryKey: ["openSourceValue", username, profileId, evaluationWindow],
+      queryFn: async () => {
+        const result = await fetchOpenSourceValue(username, undefined, profileId, evaluationWindow)
+        // The server keeps a timestamped snapshot of every evaluation
+        queryClient.invalidateQueries({ queryKey: ["snapshots"] })
+        return result
+      },
+      staleTime: 10 * 60 * 1000, // 10 minutes
+      retry: 1,
+    })),
+  })
+  const activities = useQueries({
+    queries: (comparing ? usernames : []).map((username) => ({
+      queryKey: ["userActivity", username],
+      queryFn: () => fetchUserActivity(username),
+      staleTime: 10 * 60 * 1000, // 10 minutes
+      retry: 1,
+    })),
+  })
+
+  const settled = [...values, ...activities].every((query) => !query.isLoading)
+  const fetching = [...values, ...activities].some((query) => query.isFetching)
+  const components = values.map((query) => (query.data ? scoreComponents(query.data) : null))
+  const radar = radarData(usernames.map((_, index) => candidateMetrics(values[index]?.data, activities[index]?.data)))
+  const timeline = activityTimeline(activities.map((query) => query.data))
+  const columns = { gridTemplateColumns: `repeat(${usernames.length}, minmax(12rem, 1fr))` }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-2xl mx-auto flex gap-2">
+        <Input
+          type="text"
+          placeholder={`${MIN_COMPARED}–${MAX_COMPARED} GitHub usernames, separated by commas`}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          className="flex-1"
+        />
+        <ScoringProfileSelect value={profileId} onChange={handleProfileChange} />
+        <EvaluationWindowPicker value={evaluationWindow} onChange={handleEvaluationWindowChange} />
+        <Button type="submit" disabled={comparing && !settled}>
+          {comparing && !settled ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Comparing...
+            </>
+          ) : (
+            "Compare"
+          )}
+        </Button>
+      </form>
+
+      <RateLimitNotice active={fetching} />
+
+      {comparing && (
+        <>
+          <div className="flex justify-end">
+            <Button type="button" variant="outline" size="sm" onClick={handleCopyLink}>
+              <Link2 className="mr-2 h-4 w-4" />
+              Copy share link
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <div className="grid gap-4" style={columns}>
+              {usernames.map((username, index) => {
+                const value = values[index]
+                const activity = activities[index]?.data
+                return (
+                  <Card key={username} className="border-t-4" style={{ borderTopColor: CANDIDATE_COLORS[index] }}>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-10 w-10">
+                          <AvatarImage src={activity?.profile.avatar_url} alt={username} />
+                          <AvatarFallback>{username.slice(0, 2).toUpperCase()}</AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <CardTitle className="text-base truncate">
+                            <a
+                              href={`https://github.com/${username}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="hover:underline"
+                            >
+                              {activity?.profile.name || username}
+                            </a>
+                          </CardTitle>
+                          <CardDescription>@{username}</CardDescription>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      {value?.isLoading ? (
+                        <div className="flex items-center text-sm text-muted-foreground">
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Calculating open source value...
+                        </div>
+                      ) : value?.error ? (
+                        <Alert variant="destructive">
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertTitle>Error</AlertTitle>
+                          <AlertDescription>
+                            {value.error instanceof Error ? value.error.message : "Failed to calculate open source value"}
+                          </AlertDescription>
+                        </Alert>
+                      ) : (
+                        <div>
+                          <div className="text-3xl font-bold">{value?.data?.totalScore.toFixed(1)}</div>
+                          <div className="text-sm text-muted-foreground">Open source value</div>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          </div>
+
+          {settled && (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <RadarIcon className="mr-2 h-5 w-5" />
+                    Overview
+                  </CardTitle>
+                  <CardDescription>
+                    Each axis is scaled to the strongest candidate on it. Activity covers the last 12 months; reach is
+                    stars plus twice the forks their repositories received.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={360}>
+                    <RadarChart data={radar}>
+                      <PolarGrid />
+                      <PolarAngleAxis dataKey="axis" />
+                      <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+                      <Tooltip />
+                      <Legend />
+                      {usernames.map((username, index) => (
+                        <Radar
+                          key={username}
+                          dataKey={candidateKey(index)}
+                          name={username}
+                          stroke={CANDIDATE_COLORS[index]}
+                          fill={CANDIDATE_COLORS[index]}
+                          fillOpacity={0.15}
+                        />
+                      ))}
+                    </RadarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Trophy className="mr-2 h-5 w-5" />
+                    Score Components
+                  </CardTitle>
+                  <CardDescription>Where each candidate's open source value comes from</CardDescription>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="font-normal pb-2" />
+                        {usernames.map((username) => (
+                          <th key={username} className="font-normal pb-2 text-right">
+                            {username}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {SCORE_ROWS.map((row) => (
+                        <tr key={row.label} className="border-t">
+                          <td className="py-2">{row.label}</td>
+                          {components.map((candidate, index) => (
+                            <td key={usernames[index]} className="py-2 text-right">
+                              {candidate ? row.format(candidate) : "—"}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+
+              <div className="overflow-x-auto">
+                <div className="grid gap-4" style={columns}>
+                  {usernames.map((username, index) => {
+                    const repositories = (values[index]?.data?.repositories ?? [])
+                      .filter((repo) => repo.isOpenSource)
+                      .slice(0, 5)
+                    const languages = languageMix(activities[index]?.data?.languages ?? [])
+                    return (
+                      <Card key={username}>
+                        <CardHeader>
+                          <CardTitle className="text-base">{username}</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                          <div>
+                            <h4 className="text-sm font-medium flex items-center mb-2">
+                              <Users className="mr-2 h-4 w-4" />
+                              Top repositories
+                            </h4>
+                            {repositories.length > 0 ? (
+                              <ul className="space-y-1 text-sm">
+                                {repositories.map((repo) => (
+                                  <li key={repo.fullName} className="flex justify-between gap-2">
+                                    <a
+                                      href={repo.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="truncate hover:underline"
+                                    >
+                                      {repo.fullName}
+                                    </a>
+                                    <span className="text-muted-foreground">{repo.contributorScore.toFixed(1)}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <p className="text-sm text-muted-foreground">No open source repositories</p>
+                            )}
+                          </div>
+
+                          <div>
+                            <h4 className="text-sm font-medium flex items-center mb-2">
+                              <Code className="mr-2 h-4 w-4" />
+                              Language mix
+                            </h4>
+                            {languages.length > 0 ? (
+                              <>
+                                <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+                                  {languages.map((language) => (
+                                    <div
+                                      key={language.name}
+                                      title={`${language.name} ${language.percent.toFixed(1)}%`}
+                                      style={{ width: `${language.percent}%`, backgroundColor: language.color ?? "#9ca3af" }}
+                                    />
+                                  ))}
+                                </div>
+                                <ul className="mt-2 space-y-1 text-sm">
+                                  {languages.map((language) => (
+                                    <li key={language.name} className="flex items-center justify-between gap-2">
+                                      <span className="flex items-center">
+                                        <span
+                                          className="mr-2 inline-block h-2 w-2 rounded-full"
+                                          style={{ backgroundColor: language.color ?? "#9ca3af" }}
+                                        />
+                                        {language.name}
+                                      </span>
+                                      <span className="text-muted-foreground">{language.percent.toFixed(1)}%</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </>
+                            ) : (
+                              <p className="text-sm text-muted-foreground">
+                                {activities[index]?.error ? "Activity could not be fetched" : "No code in their own repositories"}
+                              </p>
+                            )}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <TrendingUp className="mr-2 h-5 w-5" />
+                    Activity Timeline
+                  </CardTitle>
+                  <CardDescription>Commits, pull requests, issues and reviews per month over the last 12 months</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {timeline.length > 0 ? (
+                    <ResponsiveContainer width="100%" height={300}>
+                      <LineChart data={timeline}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="month" tickFormatter={formatMonth} />
+                        <YAxis />
+                        <Tooltip labelFormatter={(month) => formatMonth(String(month))} />
+                        <Legend />
+                        {usernames.map((username, index) => (
+                          <Line
+                            key={username}
+                            type="monotone"
+                            dataKey={candidateKey(index)}
+                            name={username}
+                            stroke={CANDIDATE_COLORS[index]}
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  ) : (
+                    <p className="text-center py-8 text-muted-foreground">
+                      Contribution data requires a configured GitHub token.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
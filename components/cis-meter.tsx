@@ -0,0 +1,86 @@
+"use client"
+
+import { Progress } from "@/components/ui/progress"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { Info } from "lucide-react"
+import type { ContributorImpactScore } from "@/lib/contributor-impact"
+
+const RADIUS = 80
+const ARC_LENGTH = Math.PI * RADIUS
+
+function meterColor(score: number) {
+  if (score >= 80) return "#22c55e"
+  if (score >= 60) return "#10b981"
+  if (score >= 40) return "#eab308"
+  return "#ef4444"
+}
+
+// Half-circle gauge for the Contributor Impact Score, with each dimension's share below it
+export default function CisMeter({ impact }: { impact: ContributorImpactScore }) {
+  const filled = (Math.min(impact.score, 100) / 100) * ARC_LENGTH
+
+  return (
+    <TooltipProvider delayDuration={0}>
+      <div className="flex flex-col items-center">
+        <svg viewBox="0 0 200 110" className="w-64">
+          <path
+            d={`M 20 100 A ${RADIUS} ${RADIUS} 0 0 1 180 100`}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="16"
+            strokeLinecap="round"
+            className="text-muted"
+          />
+          <path
+            d={`M 20 100 A ${RADIUS} ${RADIUS} 0 0 1 180 100`}
+            fill="none"
+            stroke={meterColor(impact.score)}
+            strokeWidth="16"
+            strokeLinecap="round"
+            strokeDasharray={`${filled} ${ARC_LENGTH}`}
+          />
+          <text x="100" y="92" textAnchor="middle" className="fill-current text-4xl font-bold">
+            {impact.score}
+          </text>
+        </svg>
+        <div className="flex items-center gap-1 text-sm text-muted-foreground">
+          Contributor Impact Score
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="h-4 w-4 cursor-help" />
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs">
+              Each dimension is scored from 0 to 100 across the user's public activity, then weighted:{" "}
+              {impact.dimensions.map((dimension) => `${dimension.label} ${Math.round(dimension.weight * 100)}%`).join(", ")}.
+            </TooltipContent>
+          </Tooltip>
+        </div>
+      </div>
+
+      <div className="space-y-4 mt-6">
+        {impact.dimensions.map((dimension) => (
+          <div key={dimension.key} className="space-y-1">
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span className="flex items-center gap-1 font-medium">
+                {dimension.label}
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="h-3.5 w-3.5 text-muted-foreground cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent className="max-w-xs">{dimension.explanation}</TooltipContent>
+                </Tooltip>
+              </span>
+              <span className="whitespace-nowrap">
+                {dimension.points} / {Math.round(dimension.weight * 100)} points
+              </span>
+            </div>
+            <Progress value={dimension.score} className="h-2" />
+            <div className="text-xs text-muted-foreground">
+              {dimension.valueLabel} • scores {dimension.score}/100
+            </div>
+          </div>
+        ))}
+      </div>
+    </TooltipProvider>
+  )
+}
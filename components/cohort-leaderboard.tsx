@@ -0,0 +1,427 @@
+"use client"
+
+import { Fragment, useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { AlertCircle, ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, ChevronRight, Loader2, ShieldAlert, Trophy } from "lucide-react"
+import { useQuery } from "@tanstack/react-query"
+import { ScoringProfileBadge } from "@/components/scoring-profile-select"
+import { EvaluationWindowBadge } from "@/components/evaluation-window-picker"
+import { fetchBatchJobs, fetchLeaderboard } from "@/lib/api-client"
+import type { LeaderboardEntry } from "@/lib/leaderboard"
+import Link from "next/link"
+
+const PAGE_SIZE = 25
+const ALL = "all"
+
+type SortKey =
+  | "rank"
+  | "name"
+  | "githubUsername"
+  | "department"
+  | "batch"
+  | "graduationYear"
+  | "openSourceRepoCount"
+  | "totalScore"
+
+type FilterKey = "department" | "batch" | "graduationYear"
+
+const FILTERS: { key: FilterKey; label: string }[] = [
+  { key: "department", label: "Department" },
+  { key: "batch", label: "Batch" },
+  { key: "graduationYear", label: "Graduation Year" },
+]
+
+const sortValue = (entry: LeaderboardEntry, key: SortKey): string | number => {
+  switch (key) {
+    case "rank":
+    case "openSourceRepoCount":
+    case "totalScore":
+      return entry[key]
+    default:
+      return (entry.student[key] ?? "").toLowerCase()
+  }
+}
+
+// Page numbers to show, with null marking a gap
+const visiblePages = (current: number, total: number): (number | null)[] => {
+  const pages = new Set([1, total, current - 1, current, current + 1].filter((page) => page >= 1 && page <= total))
+  const sorted = [...pages].sort((a, b) => a - b)
+  return sorted.flatMap((page, index) => (index > 0 && page - sorted[index - 1] > 1 ? [null, page] : [page]))
+}
+
+export default function CohortLeaderboard() {
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+  const [filters, setFilters] = useState<Record<FilterKey, string>>({
+    department: ALL,
+    batch: ALL,
+    graduationYear: ALL,
+  })
+  const [search, setSearch] = useState("")
+  const [sort, setSort] = useState<{ key: SortKey; direction: "asc" | "desc" }>({ key: "rank", direction: "asc" })
+  const [page, setPage] = useState(1)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  const { data: jobs, isLoading: jobsLoading } = useQuery({
+    queryKey: ["batchJobs"],
+    queryFn: fetchBatchJobs,
+  })
+
+  // Default to the most recent cohort that has analyzed students
+  const jobId = selectedJobId ?? jobs?.find((job) => job.progress.completed > 0)?.id ?? jobs?.[0]?.id ?? null
+
+  const { data: leaderboard, isLoading, error } = useQuery({
+    queryKey: ["leaderboard", jobId],
+    queryFn: () => fetchLeaderboard(jobId!),
+    enabled: !!jobId,
+  })
+
+  const filterOptions = useMemo(() => {
+    const options = {} as Record<FilterKey, string[]>
+    FILTERS.forEach(({ key }) => {
+      const values = new Set(leaderboard?.entries.map((entry) => entry.student[key]).filter(Boolean) as string[])
+      options[key] = [...values].sort()
+    })
+    return options
+  }, [leaderboard])
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    const filtered = (leaderboard?.entries ?? []).filter(
+      (entry) =>
+        FILTERS.every(({ key }) => filters[key] === ALL || entry.student[key] === filters[key]) &&
+        (!query ||
+          entry.student.githubUsername.toLowerCase().includes(query) ||
+          entry.student.name?.toLowerCase().includes(query) ||
+          entry.student.studentId?.toLowerCase().includes(query)),
+    )
+
+    const direction = sort.direction === "asc" ? 1 : -1
+    return [...filtered].sort((a, b) => {
+      const left = sortValue(a, sort.key)
+      const right = sortValue(b, sort.key)
+      if (left < right) return -direction
+      if (left > right) return direction
+      return a.rank - b.rank
+    })
+  }, [leaderboard, filters, search, sort])
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount)
+  const pageRows = rows.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE)
+
+  const handleSort = (key: SortKey) => {
+    setSort((previous) =>
+      previous.key === key
+        ? { key, direction: previous.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: key === "totalScore" || key === "openSourceRepoCount" ? "desc" : "asc" },
+    )
+    setPage(1)
+  }
+
+  const handleFilterChange = (key: FilterKey, value: string) => {
+    setFilters((previous) => ({ ...previous, [key]: value }))
+    setPage(1)
+  }
+
+  const toggleExpanded = (username: string) => {
+    setExpanded((previous) => {
+      const next = new Set(previous)
+      if (next.has(username)) {
+        next.delete(username)
+      } else {
+        next.add(username)
+      }
+      return next
+    })
+  }
+
+  const SortableHead = ({ label, sortKey, className }: { label: string; sortKey: SortKey; className?: string }) => (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center hover:text-foreground" onClick={() => handleSort(sortKey)}>
+        {label}
+        {sort.key !== sortKey ? (
+          <ArrowUpDown className="ml-1 h-3 w-3 opacity-50" />
+        ) : sort.direction === "asc" ? (
+          <ArrowUp className="ml-1 h-3 w-3" />
+        ) : (
+          <ArrowDown className="ml-1 h-3 w-3" />
+        )}
+      </button>
+    </TableHead>
+  )
+
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <div className="flex flex-col items-center mb-8">
+        <h1 className="text-3xl font-bold mb-2 flex items-center">
+          <Trophy className="mr-2" /> CIS Leaderboard
+        </h1>
+        <p className="text-muted-foreground text-center max-w-2xl mb-6">
+          Rank every student in an uploaded cohort by their open source value.
+        </p>
+      </div>
+
+      {!jobsLoading && jobs?.length === 0 && (
+        <Alert className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>No Cohorts Yet</AlertTitle>
+          <AlertDescription>
+            <Link href="/upload-students" className="text-primary hover:underline">
+              Upload a student list
+            </Link>{" "}
+            and run an analysis to build a leaderboard.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>Failed to load the leaderboard for this cohort.</AlertDescription>
+        </Alert>
+      )}
+
+      {jobs && jobs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  {leaderboard?.jobName ?? "Cohort"}
+                  <ScoringProfileBadge profile={leaderboard?.scoringProfile} />
+                  <EvaluationWindowBadge evaluationWindow={leaderboard?.evaluationWindow} />
+                </CardTitle>
+                <CardDescription>
+                  {leaderboard
+                    ? `${leaderboard.analyzedCount} of ${leaderboard.totalCount} students analyzed`
+                    : "Loading cohort..."}
+                </CardDescription>
+              </div>
+              <Select
+                value={jobId ?? undefined}
+                onValueChange={(value) => {
+                  setSelectedJobId(value)
+                  setPage(1)
+                  setExpanded(new Set())
+                }}
+              >
+                <SelectTrigger className="md:w-72">
+                  <SelectValue placeholder="Select a cohort" />
+                </SelectTrigger>
+                <SelectContent>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.name} ({new Date(job.createdAt).toLocaleDateString()})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <Input
+                placeholder="Search name, username or ID"
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value)
+                  setPage(1)
+                }}
+              />
+              {FILTERS.map(({ key, label }) => (
+                <Select key={key} value={filters[key]} onValueChange={(value) => handleFilterChange(key, value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All {label === "Batch" ? "Batches" : `${label}s`}</SelectItem>
+                    {filterOptions[key].map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center p-12 text-muted-foreground">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Loading leaderboard...
+              </div>
+            ) : rows.length === 0 ? (
+              <p className="text-center p-12 text-muted-foreground">No analyzed students match these filters.</p>
+            ) : (
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <SortableHead label="Rank" sortKey="rank" />
+                      <SortableHead label="Name" sortKey="name" />
+                      <SortableHead label="GitHub" sortKey="githubUsername" />
+                      <SortableHead label="Department" sortKey="department" />
+                      <SortableHead label="Batch" sortKey="batch" />
+                      <SortableHead label="Graduation" sortKey="graduationYear" />
+                      <SortableHead label="OSS Repos" sortKey="openSourceRepoCount" className="text-right" />
+                      <SortableHead label="Score" sortKey="totalScore" className="text-right" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pageRows.map((entry) => {
+                      const isExpanded = expanded.has(entry.student.githubUsername)
+                      const openSourceRepos = entry.repositories.filter((repo) => repo.isOpenSource)
+                      return (
+                        <Fragment key={entry.student.githubUsername}>
+                          <TableRow
+                            className="cursor-pointer"
+                            onClick={() => toggleExpanded(entry.student.githubUsername)}
+                          >
+                            <TableCell>
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </TableCell>
+                            <TableCell className="font-bold">#{entry.rank}</TableCell>
+                            <TableCell>{entry.student.name ?? "—"}</TableCell>
+                            <TableCell>
+                              <a
+                                href={`https://github.com/${entry.student.githubUsername}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="hover:underline"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                {entry.student.githubUsername}
+                              </a>
+                              {entry.integrityFlags.length > 0 && (
+                                <ShieldAlert
+                                  className="inline ml-1 h-4 w-4 text-yellow-600"
+                                  aria-label={`${entry.integrityFlags.length} integrity flags`}
+                                >
+                                  <title>{entry.integrityFlags.map((flag) => flag.label).join(", ")}</title>
+                                </ShieldAlert>
+                              )}
+                            </TableCell>
+                            <TableCell>{entry.student.department ?? "—"}</TableCell>
+                            <TableCell>{entry.student.batch ?? "—"}</TableCell>
+                            <TableCell>{entry.student.graduationYear ?? "—"}</TableCell>
+                            <TableCell className="text-right">{entry.openSourceRepoCount}</TableCell>
+                            <TableCell className="text-right font-bold">{entry.totalScore}</TableCell>
+                          </TableRow>
+                          {isExpanded && (
+                            <TableRow className="bg-muted/50 hover:bg-muted/50">
+                              <TableCell />
+                              <TableCell colSpan={8}>
+                                {entry.integrityFlags.length > 0 && (
+                                  <ul className="mb-3 space-y-1 text-sm text-yellow-800">
+                                    {entry.integrityFlags.map((flag) => (
+                                      <li key={flag.key} className="flex items-start gap-2">
+                                        <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+                                        <span>
+                                          <span className="font-medium">{flag.label}:</span> {flag.detail}
+                                        </span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                                {openSourceRepos.length === 0 ? (
+                                  <p className="text-sm text-muted-foreground">No open source repositories scored.</p>
+                                ) : (
+                                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                    {openSourceRepos.map((repo) => (
+                                      <div
+                                        key={repo.fullName}
+                                        className="flex items-center justify-between p-2 bg-background border rounded"
+                                      >
+                                        <a
+                                          href={repo.url}
+                                          target="_blank"
+                                          rel="noopener noreferrer"
+                                          className="text-sm hover:underline truncate"
+                                        >
+                                          {repo.fullName}
+                                        </a>
+                                        <Badge variant="outline">{repo.contributorScore}</Badge>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {pageCount > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault()
+                        setPage(Math.max(1, currentPage - 1))
+                      }}
+                    />
+                  </PaginationItem>
+                  {visiblePages(currentPage, pageCount).map((pageNumber, index) =>
+                    pageNumber === null ? (
+                      <PaginationItem key={`gap-${index}`}>
+                        <PaginationEllipsis />
+                      </PaginationItem>
+                    ) : (
+                      <PaginationItem key={pageNumber}>
+                        <PaginationLink
+                          href="#"
+                          isActive={pageNumber === currentPage}
+                          onClick={(e) => {
+                            e.preventDefault()
+                            setPage(pageNumber)
+                          }}
+                        >
+                          {pageNumber}
+                        </PaginationLink>
+                      </PaginationItem>
+                    ),
+                  )}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault()
+                        setPage(Math.min(pageCount, currentPage + 1))
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Showing {pageRows.length} of {rows.length} students. Click a row for its per-repository breakdown.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  )
+}
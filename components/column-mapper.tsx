@@ -0,0 +1,114 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { STUDENT_FIELDS, type ColumnMapping, type StudentField } from "@/lib/column-mapping"
+import type { ParsedSheet } from "@/lib/student-import"
+
+interface ColumnMapperProps {
+  sheet: ParsedSheet
+  mapping: ColumnMapping
+  onChange: (mapping: ColumnMapping) => void
+  previewRows?: number
+}
+
+const NOT_MAPPED = "none"
+
+export default function ColumnMapper({ sheet, mapping, onChange, previewRows = 5 }: ColumnMapperProps) {
+  // Label shown for a column in the dropdowns, falling back to its position for blank headers
+  const columnLabel = (index: number) => sheet.headers[index] || `Column ${index + 1}`
+
+  const fieldForColumn = (index: number) =>
+    STUDENT_FIELDS.find(({ field }) => mapping[field] === index)
+
+  const handleFieldChange = (field: StudentField, value: string) => {
+    const next: ColumnMapping = { ...mapping }
+
+    if (value === NOT_MAPPED) {
+      delete next[field]
+    } else {
+      const column = Number(value)
+      // A column can only feed one field, so unmap it from wherever it was used before
+      for (const { field: otherField } of STUDENT_FIELDS) {
+        if (next[otherField] === column) {
+          delete next[otherField]
+        }
+      }
+      next[field] = column
+    }
+
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {STUDENT_FIELDS.map(({ field, label, required }) => (
+          <div key={field} className="space-y-1">
+            <label className="text-sm font-medium">
+              {label}
+              {required && <span className="text-red-500 ml-1">*</span>}
+            </label>
+            <Select
+              value={mapping[field] !== undefined ? String(mapping[field]) : NOT_MAPPED}
+              onValueChange={(value) => handleFieldChange(field, value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                {sheet.headers.map((_, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {columnLabel(index)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">
+          Preview (first {Math.min(previewRows, sheet.rows.length)} of {sheet.rows.length} rows)
+        </h3>
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {sheet.headers.map((_, index) => {
+                  const mapped = fieldForColumn(index)
+                  return (
+                    <TableHead key={index} className="align-top py-2">
+                      <div>{columnLabel(index)}</div>
+                      {mapped ? (
+                        <Badge className="mt-1">{mapped.label}</Badge>
+                      ) : (
+                        <Badge variant="outline" className="mt-1 text-muted-foreground">
+                          Ignored
+                        </Badge>
+                      )}
+                    </TableHead>
+                  )
+                })}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sheet.rows.slice(0, previewRows).map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {row.map((value, index) => (
+                    <TableCell key={index} className={fieldForColumn(index) ? "" : "text-muted-foreground"}>
+                      {value || "—"}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { useToast } from "@/components/ui/use-toast"
+import { AlertCircle, Github, Loader2 } from "lucide-react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import CisMeter from "@/components/cis-meter"
+import RateLimitNotice from "@/components/rate-limit-notice"
+import ScoringProfileSelect, { ScoringProfileBadge } from "@/components/scoring-profile-select"
+import SnapshotHistory from "@/components/snapshot-history"
+import { fetchContributorImpact } from "@/lib/api-client"
+import { DEFAULT_SCORING_PROFILE_ID } from "@/lib/scoring-profiles"
+import type { Snapshot } from "@/lib/snapshot-store"
+import type React from "react"
+
+export default function ContributorImpact() {
+  const [username, setUsername] = useState("")
+  const [submittedUsername, setSubmittedUsername] = useState<string | null>(null)
+  const [snapshot, setSnapshot] = useState<Snapshot<"contributorImpact"> | null>(null)
+  const [profileId, setProfileId] = useState(DEFAULT_SCORING_PROFILE_ID)
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!username.trim()) {
+      toast({
+        title: "Username Required",
+        description: "Please enter a GitHub username",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setSubmittedUsername(username.trim())
+    setSnapshot(null)
+  }
+
+  const { data: liveData, isLoading, error, isFetching } = useQuery({
+    queryKey: ["contributorImpact", submittedUsername, profileId],
+    queryFn: async () => {
+      if (!submittedUsername) return null
+      const result = await fetchContributorImpact(submittedUsername, profileId)
+      // The server keeps a timestamped snapshot of every evaluation
+      queryClient.invalidateQueries({ queryKey: ["snapshots"] })
+      return result
+    },
+    enabled: !!submittedUsername,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  })
+
+  const data = snapshot?.data ?? liveData
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-xl mx-auto flex gap-2">
+        <Input
+          type="text"
+          placeholder="GitHub Username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="flex-1"
+          disabled={isFetching}
+        />
+        <ScoringProfileSelect value={profileId} onChange={setProfileId} />
+        <Button type="submit" disabled={isFetching}>
+          {isFetching ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Calculating...
+            </>
+          ) : (
+            "Calculate CIS"
+          )}
+        </Button>
+      </form>
+
+      {submittedUsername && (
+        <SnapshotHistory
+          filter={{ kind: "contributorImpact", username: submittedUsername }}
+          activeSnapshot={snapshot}
+          onLoad={setSnapshot}
+        />
+      )}
+
+      <RateLimitNotice active={isFetching} />
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            Failed to calculate the Contributor Impact Score. Contribution data requires a configured GitHub token.
+            <details className="mt-2 text-xs">
+              <summary>Error details</summary>
+              <pre className="p-2 bg-red-50 rounded mt-2 overflow-auto">
+                {error instanceof Error ? error.message : "Unknown error"}
+              </pre>
+            </details>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && submittedUsername && (
+        <div className="flex items-center justify-center text-sm text-muted-foreground">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Analyzing every public contribution year for {submittedUsername}...
+        </div>
+      )}
+
+      {data && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl flex items-center">
+              <a
+                href={`https://github.com/${data.username}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="hover:underline flex items-center"
+              >
+                {data.username}
+                <Github className="ml-2 h-5 w-5" />
+              </a>
+            </CardTitle>
+            <CardDescription className="flex items-center gap-2">
+              Across {data.repositoryCount} public repositories
+              <ScoringProfileBadge profile={data.scoringProfile} />
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="max-w-2xl mx-auto">
+            <CisMeter impact={data} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
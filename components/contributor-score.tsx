@@ -7,17 +7,35 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Progress } from "@/components/ui/progress"
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/components/ui/use-toast"
-import { Award, Code, GitPullRequest, GitMerge, AlertCircle, Github, User } from "lucide-react"
-import { useQuery } from "@tanstack/react-query"
-import { calculateContributorScore, type ContributorScoreData } from "@/lib/github-api"
+import { Award, Code, GitMerge, AlertCircle, Github, User } from "lucide-react"
+import SnapshotHistory from "@/components/snapshot-history"
+import RateLimitNotice from "@/components/rate-limit-notice"
+import ScoreBreakdown from "@/components/score-breakdown"
+import IntegrityReport from "@/components/integrity-report"
+import OpenSourceVerdict from "@/components/open-source-verdict"
+import ScoringProfileSelect, { ScoringProfileBadge } from "@/components/scoring-profile-select"
+import EvaluationWindowPicker, { EvaluationWindowBadge } from "@/components/evaluation-window-picker"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { fetchContributorScore } from "@/lib/api-client"
+import { DECAY_FUNCTIONS, DEFAULT_EVALUATION_WINDOW, type EvaluationWindow } from "@/lib/evaluation-window"
+import { DEFAULT_SCORING_PROFILE_ID } from "@/lib/scoring-profiles"
+import type { Snapshot } from "@/lib/snapshot-store"
 import type React from "react"
 
 export default function ContributorScore() {
   const [username, setUsername] = useState("")
   const [repoUrl, setRepoUrl] = useState("")
-  const [userRepoInfo, setUserRepoInfo] = useState<{ username: string; owner: string; repo: string } | null>(null)
+  const [userRepoInfo, setUserRepoInfo] = useState<{
+    username: string
+    owner: string
+    repo: string
+    evaluationWindow: EvaluationWindow
+  } | null>(null)
+  const [snapshot, setSnapshot] = useState<Snapshot<"contributorScore"> | null>(null)
+  const [profileId, setProfileId] = useState(DEFAULT_SCORING_PROFILE_ID)
+  const [evaluationWindow, setEvaluationWindow] = useState(DEFAULT_EVALUATION_WINDOW)
+  const queryClient = useQueryClient()
   const { toast } = useToast()
 
   const parseGitHubUrl = (url: string) => {
@@ -33,7 +51,7 @@ export default function ContributorScore() {
       }
 
       return { owner: pathParts[0], repo: pathParts[1] }
-    } catch (error) {
+    } catch {
       return null
     }
   }
@@ -64,19 +82,40 @@ export default function ContributorScore() {
       username: username.trim(),
       owner: parsed.owner,
       repo: parsed.repo,
+      evaluationWindow,
     })
+    setSnapshot(null)
   }
 
-  const { data, isLoading, error } = useQuery({
-    queryKey: ["contributorScore", userRepoInfo?.username, userRepoInfo?.owner, userRepoInfo?.repo],
-    queryFn: () =>
-      userRepoInfo
-        ? calculateContributorScore(userRepoInfo.username, userRepoInfo.owner, userRepoInfo.repo)
-        : null,
+  const { data: liveData, isLoading, error } = useQuery({
+    queryKey: [
+      "contributorScore",
+      userRepoInfo?.username,
+      userRepoInfo?.owner,
+      userRepoInfo?.repo,
+      profileId,
+      userRepoInfo?.evaluationWindow,
+    ],
+    queryFn: async () => {
+      if (!userRepoInfo) return null
+      const result = await fetchContributorScore(
+        userRepoInfo.username,
+        userRepoInfo.owner,
+        userRepoInfo.repo,
+        undefined,
+        profileId,
+        userRepoInfo.evaluationWindow,
+      )
+      // The server keeps a timestamped snapshot of every evaluation
+      queryClient.invalidateQueries({ queryKey: ["snapshots"] })
+      return result
+    },
     enabled: !!userRepoInfo,
     staleTime: 5 * 60 * 1000, // 5 minutes
   })
 
+  const data = snapshot?.data ?? liveData
+
   // Helper function to get score color
   const getScoreColor = (score: number) => {
     if (score >= 80) return "bg-green-500"
@@ -113,6 +152,7 @@ export default function ContributorScore() {
               onChange={(e) => setUsername(e.target.value)}
               className="flex-1"
             />
+            <ScoringProfileSelect value={profileId} onChange={setProfileId} />
           </div>
           <div className="flex gap-2">
             <Input
@@ -122,6 +162,7 @@ export default function ContributorScore() {
               onChange={(e) => setRepoUrl(e.target.value)}
               className="flex-1"
             />
+            <EvaluationWindowPicker value={evaluationWindow} onChange={setEvaluationWindow} />
             <Button type="submit" disabled={isLoading}>
               {isLoading ? "Analyzing..." : "Analyze"}
             </Button>
@@ -129,6 +170,22 @@ export default function ContributorScore() {
         </form>
       </div>
 
+      {userRepoInfo && (
+        <div className="mb-6">
+          <SnapshotHistory
+            filter={{
+              kind: "contributorScore",
+              username: userRepoInfo.username,
+              repository: `${userRepoInfo.owner}/${userRepoInfo.repo}`,
+            }}
+            activeSnapshot={snapshot}
+            onLoad={setSnapshot}
+          />
+        </div>
+      )}
+
+      <RateLimitNotice active={isLoading} className="mb-6" />
+
       {error && (
         <Card className="mb-6 border-red-400">
           <CardHeader>
@@ -148,14 +205,24 @@ export default function ContributorScore() {
           <CardHeader>
             <CardTitle className="flex items-center">
               <AlertCircle className="mr-2 h-5 w-5 text-yellow-500" />
-              Repository Not Available
+              {data.openSourceClassification ? "Not Counted as Open Source" : "Repository Not Available"}
             </CardTitle>
+            {data.openSourceClassification && (
+              <CardDescription>
+                {data.repositoryName} does not count as an open source project under the scoring profile, so no
+                contributor score was calculated.
+              </CardDescription>
+            )}
           </CardHeader>
           <CardContent>
-            <p>
-              This repository is not publicly accessible. It might be private or may not exist. Only public repositories
-              can be analyzed.
-            </p>
+            {data.openSourceClassification ? (
+              <OpenSourceVerdict classification={data.openSourceClassification} />
+            ) : (
+              <p>
+                This repository is not publicly accessible. It might be private or may not exist. Only public repositories
+                can be analyzed.
+              </p>
+            )}
           </CardContent>
         </Card>
       )}
@@ -187,15 +254,19 @@ export default function ContributorScore() {
                     </CardDescription>
                   </div>
                 </div>
-                <div className="text-center">
+                <div className="text-center space-y-1">
                   <a
                     href={`https://github.com/${data.repositoryName}`}
                     target="_blank"
                     rel="noopener noreferrer"
-                    className="text-sm text-muted-foreground hover:underline"
+                    className="block text-sm text-muted-foreground hover:underline"
                   >
                     {data.repositoryName}
                   </a>
+                  <ScoringProfileBadge profile={data.scoringProfile} />
+                  <div>
+                    <EvaluationWindowBadge evaluationWindow={data.evaluationWindow} />
+                  </div>
                 </div>
               </div>
             </CardHeader>
@@ -262,12 +333,25 @@ export default function ContributorScore() {
                       />
                       <p className="text-xs text-muted-foreground mt-2">
                         Repo Health × Contributor Score ÷ 100
+                        {!!data.integrity?.penalty && ` − ${Math.round(data.integrity.penalty * 100)}% integrity penalty`}
                       </p>
                     </div>
                   </CardContent>
                 </Card>
               </div>
 
+              {data.integrity && (
+                <div className="mb-6">
+                  <IntegrityReport report={data.integrity} />
+                </div>
+              )}
+
+              {data.scoreBreakdown && data.scoreBreakdown.length > 0 && (
+                <div className="mb-6">
+                  <ScoreBreakdown components={data.scoreBreakdown} score={data.contributorScore} />
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <Card>
                   <CardHeader>
@@ -293,15 +377,22 @@ export default function ContributorScore() {
                           <p className="text-sm text-muted-foreground">Issues Created</p>
                           <p className="text-xl font-semibold">{data.contributionStats.issuesCreated}</p>
                         </div>
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground">Issues Closed</p>
+                          <p className="text-xl font-semibold">{data.contributionStats.issuesClosed}</p>
+                        </div>
                       </div>
                       <div className="pt-2">
-                        <p className="text-sm text-muted-foreground mb-1">Recent Activity (Last 3 Months)</p>
+                        <p className="text-sm text-muted-foreground mb-1">
+                          Recent Activity ({DECAY_FUNCTIONS[(data.evaluationWindow ?? DEFAULT_EVALUATION_WINDOW).decay].label})
+                        </p>
                         <Progress 
                           value={data.contributionStats.recentActivity} 
                           className="h-2" 
                         />
                         <p className="text-xs text-right mt-1">
-                          {Math.round(data.contributionStats.recentActivity)}%
+                          {data.scoreBreakdown?.find((component) => component.key === "recentActivity")?.inputLabel ??
+                            `${Math.round(data.contributionStats.recentActivity)}%`}
                         </p>
                       </div>
                     </div>
@@ -0,0 +1,131 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CalendarRange } from "lucide-react"
+import {
+  DECAY_FUNCTIONS,
+  DEFAULT_EVALUATION_WINDOW,
+  describeEvaluationWindow,
+  type DecayFunction,
+  type EvaluationWindow,
+} from "@/lib/evaluation-window"
+
+interface EvaluationWindowPickerProps {
+  value: EvaluationWindow
+  onChange: (evaluationWindow: EvaluationWindow) => void
+  className?: string
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Academic years run from July to June
+function windowPresets(today = new Date()): { label: string; start: string | null; end: string | null }[] {
+  const academicYear = today.getMonth() >= 6 ? today.getFullYear() : today.getFullYear() - 1
+  const yearAgo = new Date(today)
+  yearAgo.setFullYear(yearAgo.getFullYear() - 1)
+  return [
+    { label: "All history", start: null, end: null },
+    { label: "Last 12 months", start: isoDate(yearAgo), end: null },
+    { label: "This academic year", start: `${academicYear}-07-01`, end: null },
+    { label: "Last academic year", start: `${academicYear - 1}-07-01`, end: `${academicYear}-06-30` },
+  ]
+}
+
+export default function EvaluationWindowPicker({ value, onChange, className }: EvaluationWindowPickerProps) {
+  const update = (changes: Partial<EvaluationWindow>) => onChange({ ...value, ...changes })
+  const isDefault =
+    !value.start && !value.end && value.decay === DEFAULT_EVALUATION_WINDOW.decay
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className={className} title={describeEvaluationWindow(value)}>
+          <CalendarRange className="mr-2 h-4 w-4" />
+          {isDefault ? "All history" : "Custom window"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {windowPresets().map((preset) => (
+            <Button
+              key={preset.label}
+              type="button"
+              size="sm"
+              variant={value.start === preset.start && value.end === preset.end ? "default" : "outline"}
+              onClick={() => update({ start: preset.start, end: preset.end })}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="window-start">From</Label>
+            <Input
+              id="window-start"
+              type="date"
+              value={value.start ?? ""}
+              max={value.end ?? undefined}
+              onChange={(e) => update({ start: e.target.value || null })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="window-end">To</Label>
+            <Input
+              id="window-end"
+              type="date"
+              value={value.end ?? ""}
+              min={value.start ?? undefined}
+              onChange={(e) => update({ end: e.target.value || null })}
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Recency</Label>
+          <Select value={value.decay} onValueChange={(decay) => update({ decay: decay as DecayFunction })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DECAY_FUNCTIONS).map(([decay, { label }]) => (
+                <SelectItem key={decay} value={decay}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{DECAY_FUNCTIONS[value.decay].description}</p>
+        </div>
+        {value.decay === "exponential" && (
+          <div className="space-y-1">
+            <Label htmlFor="window-half-life">Half-life (days)</Label>
+            <Input
+              id="window-half-life"
+              type="number"
+              min={1}
+              value={value.halfLifeDays}
+              onChange={(e) => update({ halfLifeDays: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+            />
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+// Which period and decay produced a result
+export function EvaluationWindowBadge({ evaluationWindow }: { evaluationWindow?: EvaluationWindow }) {
+  if (!evaluationWindow) return null
+  return (
+    <Badge variant="outline" title="Evaluation window">
+      {describeEvaluationWindow(evaluationWindow)}
+    </Badge>
+  )
+}
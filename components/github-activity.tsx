@@ -0,0 +1,345 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { useToast } from "@/components/ui/use-toast"
+import { AlertCircle, Calendar, GitFork, Github, Loader2, Star, Users } from "lucide-react"
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import { useQuery } from "@tanstack/react-query"
+import type { UserActivityData } from "@/lib/github-api"
+import { fetchUserActivity } from "@/lib/api-client"
+import type React from "react"
+
+const CONTRIBUTION_SERIES = [
+  { key: "commits", name: "Commits", color: "#22c55e" },
+  { key: "pullRequests", name: "Pull Requests", color: "#8b5cf6" },
+  { key: "issues", name: "Issues", color: "#f97316" },
+  { key: "reviews", name: "Reviews", color: "#3b82f6" },
+] as const
+
+const HEATMAP_COLORS = ["bg-muted", "bg-green-200", "bg-green-400", "bg-green-600", "bg-green-800"]
+
+// Split days into weeks (columns) starting on Sunday, like GitHub's calendar
+function toWeeks(days: UserActivityData["calendar"]["days"]) {
+  const weeks: (typeof days[number] | null)[][] = []
+  days.forEach((day) => {
+    const weekday = new Date(`${day.date}T00:00:00Z`).getUTCDay()
+    if (weeks.length === 0 || weekday === 0) {
+      weeks.push(Array(7).fill(null))
+    }
+    weeks[weeks.length - 1][weekday] = day
+  })
+  return weeks
+}
+
+// Intensity level 0-4 relative to the busiest day
+function contributionLevel(count: number, max: number) {
+  if (count === 0 || max === 0) return 0
+  return Math.min(4, Math.ceil((count / max) * 4))
+}
+
+function formatMonth(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number)
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(undefined, {
+    month: "short",
+    year: "2-digit",
+    timeZone: "UTC",
+  })
+}
+
+function ContributionCalendar({ calendar }: { calendar: UserActivityData["calendar"] }) {
+  const weeks = toWeeks(calendar.days)
+  const max = Math.max(0, ...calendar.days.map((day) => day.count))
+
+  return (
+    <TooltipProvider delayDuration={0}>
+      <div className="overflow-x-auto">
+        <div className="flex gap-[3px] min-w-max">
+          {weeks.map((week, weekIndex) => (
+            <div key={weekIndex} className="flex flex-col gap-[3px]">
+              {week.map((day, dayIndex) =>
+                day ? (
+                  <UITooltip key={day.date}>
+                    <TooltipTrigger asChild>
+                      <div className={`h-3 w-3 rounded-sm ${HEATMAP_COLORS[contributionLevel(day.count, max)]}`} />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      {day.count} contributions on {new Date(`${day.date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC" })}
+                    </TooltipContent>
+                  </UITooltip>
+                ) : (
+                  <div key={dayIndex} className="h-3 w-3" />
+                ),
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-2 text-xs text-muted-foreground">
+        <span>Less</span>
+        {HEATMAP_COLORS.map((color) => (
+          <div key={color} className={`h-3 w-3 rounded-sm ${color}`} />
+        ))}
+        <span>More</span>
+      </div>
+    </TooltipProvider>
+  )
+}
+
+export default function GitHubActivity() {
+  const [username, setUsername] = useState("")
+  const [submittedUsername, setSubmittedUsername] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!username.trim()) {
+      toast({
+        title: "Username Required",
+        description: "Please enter a GitHub username",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setSubmittedUsername(username.trim())
+  }
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["userActivity", submittedUsername],
+    queryFn: () => (submittedUsername ? fetchUserActivity(submittedUsername) : null),
+    enabled: !!submittedUsername,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  })
+
+  const yearTotals = data?.yearly.reduce(
+    (totals, year) => ({
+      commits: totals.commits + year.commits,
+      pullRequests: totals.pullRequests + year.pullRequests,
+      issues: totals.issues + year.issues,
+      reviews: totals.reviews + year.reviews,
+    }),
+    { commits: 0, pullRequests: 0, issues: 0, reviews: 0 },
+  )
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-md mx-auto flex gap-2">
+        <Input
+          type="text"
+          placeholder="GitHub Username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="flex-1"
+          disabled={isLoading}
+        />
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading...
+            </>
+          ) : (
+            "View Activity"
+          )}
+        </Button>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>
+            Failed to fetch GitHub activity. Contribution data requires a configured GitHub token.
+            <details className="mt-2 text-xs">
+              <summary>Error details</summary>
+              <pre className="p-2 bg-red-50 rounded mt-2 overflow-auto">
+                {error instanceof Error ? error.message : "Unknown error"}
+              </pre>
+            </details>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {data && yearTotals && (
+        <div className="space-y-6">
+          <div className="flex items-center">
+            <Avatar className="h-12 w-12 mr-4">
+              <AvatarImage src={data.profile.avatar_url} alt={data.profile.login} />
+              <AvatarFallback>{data.profile.login.slice(0, 2).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div>
+              <a
+                href={data.profile.html_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xl font-bold hover:underline flex items-center"
+              >
+                {data.profile.name || data.profile.login}
+                <Github className="ml-2 h-5 w-5" />
+              </a>
+              <p className="text-sm text-muted-foreground">
+                @{data.profile.login} • on GitHub since {new Date(data.profile.createdAt).getFullYear()}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CONTRIBUTION_SERIES.map(({ key, name }) => (
+              <div key={key} className="text-center p-4 bg-muted rounded-lg">
+                <div className="text-2xl font-bold">{yearTotals[key].toLocaleString()}</div>
+                <div className="text-sm text-muted-foreground">Total {name}</div>
+              </div>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Calendar className="mr-2 h-5 w-5" />
+                Contribution Calendar
+              </CardTitle>
+              <CardDescription>
+                {data.calendar.totalContributions.toLocaleString()} contributions in the last year
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ContributionCalendar calendar={data.calendar} />
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Yearly Activity</CardTitle>
+                <CardDescription>Contributions by type for each year on GitHub</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={data.yearly}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    {CONTRIBUTION_SERIES.map(({ key, name, color }) => (
+                      <Bar key={key} dataKey={key} name={name} stackId="contributions" fill={color} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Monthly Activity</CardTitle>
+                <CardDescription>Contributions by type over the last 12 months</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={data.monthly}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" tickFormatter={formatMonth} />
+                    <YAxis />
+                    <Tooltip labelFormatter={(month) => formatMonth(String(month))} />
+                    <Legend />
+                    {CONTRIBUTION_SERIES.map(({ key, name, color }) => (
+                      <Bar key={key} dataKey={key} name={name} stackId="contributions" fill={color} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Most Active Repositories</CardTitle>
+                <CardDescription>Where this user contributed most in the last year</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {data.topRepositories.length === 0 ? (
+                  <p className="text-muted-foreground">No public contributions in the last year.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {data.topRepositories.map((repo) => (
+                      <div key={repo.nameWithOwner} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div>
+                          <a
+                            href={repo.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-medium hover:underline"
+                          >
+                            {repo.nameWithOwner}
+                          </a>
+                          <p className="text-xs text-muted-foreground">
+                            {repo.commits} commits • {repo.pullRequests} PRs • {repo.issues} issues • {repo.reviews}{" "}
+                            reviews
+                          </p>
+                        </div>
+                        <div className="text-lg font-bold">{repo.total}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Users className="mr-2 h-5 w-5" />
+                  Profile Engagement
+                </CardTitle>
+                <CardDescription>Followers, stars and forks across public repositories</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="text-center p-4 bg-muted rounded-lg">
+                    <div className="text-2xl font-bold">{data.engagement.followers.toLocaleString()}</div>
+                    <div className="text-sm text-muted-foreground">Followers</div>
+                  </div>
+                  <div className="text-center p-4 bg-muted rounded-lg">
+                    <div className="text-2xl font-bold">{data.engagement.following.toLocaleString()}</div>
+                    <div className="text-sm text-muted-foreground">Following</div>
+                  </div>
+                  <div className="text-center p-4 bg-muted rounded-lg">
+                    <div className="text-2xl font-bold flex items-center justify-center">
+                      <Star className="mr-1 h-5 w-5 text-yellow-500" />
+                      {data.engagement.starsReceived.toLocaleString()}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Stars Received</div>
+                  </div>
+                  <div className="text-center p-4 bg-muted rounded-lg">
+                    <div className="text-2xl font-bold flex items-center justify-center">
+                      <GitFork className="mr-1 h-5 w-5" />
+                      {data.engagement.forksReceived.toLocaleString()}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Forks of Public Repos</div>
+                  </div>
+                  <div className="text-center p-4 bg-muted rounded-lg">
+                    <div className="text-2xl font-bold">{data.engagement.publicRepos.toLocaleString()}</div>
+                    <div className="text-sm text-muted-foreground">Public Repositories</div>
+                  </div>
+                  <div className="text-center p-4 bg-muted rounded-lg">
+                    <div className="text-2xl font-bold">{data.engagement.starredRepos.toLocaleString()}</div>
+                    <div className="text-sm text-muted-foreground">Starred Repositories</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
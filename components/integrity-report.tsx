@@ -0,0 +1,48 @@
+"use client"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { ShieldAlert, ShieldCheck } from "lucide-react"
+import type { IntegrityReport as IntegrityReportData } from "@/lib/integrity"
+
+// Flags for activity that may have been inflated, shown before a student is shortlisted
+export default function IntegrityReport({ report }: { report?: IntegrityReportData }) {
+  if (!report) return null
+
+  if (report.flags.length === 0) {
+    return (
+      <Alert className="bg-green-50 border-green-200">
+        <ShieldCheck className="h-4 w-4 text-green-600" />
+        <AlertTitle className="text-green-800">No Integrity Concerns</AlertTitle>
+        <AlertDescription className="text-green-700">
+          {report.metrics.commitsSampled} recent commits, {report.metrics.mergedPRs} merged pull requests and recent
+          issues show no signs of scripted or bulk activity.
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  const high = report.flags.some((flag) => flag.severity === "high")
+  return (
+    <Alert variant={high ? "destructive" : "default"} className={high ? "" : "bg-yellow-50 border-yellow-200"}>
+      <ShieldAlert className={`h-4 w-4 ${high ? "" : "text-yellow-600"}`} />
+      <AlertTitle>
+        {report.flags.length} Integrity Flag{report.flags.length === 1 ? "" : "s"} to Review
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 space-y-1 mt-1">
+          {report.flags.map((flag) => (
+            <li key={flag.key}>
+              <span className="font-medium">{flag.label}</span>
+              {flag.severity === "high" && " (high)"}: {flag.detail}
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs mt-2">
+          {report.penalty > 0
+            ? `The scoring profile reduced the total score by ${Math.round(report.penalty * 100)}% for these flags.`
+            : "These flags do not change the score under the current scoring profile."}
+        </p>
+      </AlertDescription>
+    </Alert>
+  )
+}
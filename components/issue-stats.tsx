@@ -2,7 +2,7 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import type { RepoData } from "@/lib/github-api"
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import TrendChart, { type TrendSeries } from "@/components/trend-chart"
 import { AlertCircle, Clock } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 
@@ -10,6 +10,11 @@ interface IssueStatsProps {
   data: RepoData
 }
 
+const ISSUE_TRENDS: TrendSeries<any>[] = [
+  { key: "opened", name: "Opened", color: "#f97316", date: (issue) => issue.created_at },
+  { key: "closed", name: "Closed", color: "#22c55e", date: (issue) => issue.closed_at },
+]
+
 export default function IssueStats({ data }: IssueStatsProps) {
   const { issues } = data
 
@@ -31,20 +36,10 @@ export default function IssueStats({ data }: IssueStatsProps) {
               <AlertCircle className="mr-2 h-5 w-5" />
               Issue Trends
             </CardTitle>
-            <CardDescription>Monthly opened and closed issues</CardDescription>
+            <CardDescription>Opened and closed issues over time</CardDescription>
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={issues.monthlyTrends}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="month" />
-                <YAxis />
-                <Tooltip />
-                <Legend />
-                <Bar dataKey="opened" name="Opened" fill="#f97316" />
-                <Bar dataKey="closed" name="Closed" fill="#22c55e" />
-              </BarChart>
-            </ResponsiveContainer>
+            <TrendChart items={issues.all} series={ISSUE_TRENDS} />
           </CardContent>
         </Card>
 
@@ -6,17 +6,40 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/components/ui/use-toast"
-import { AlertCircle, Github, Star, GitFork, Loader2 } from "lucide-react"
-import { useQuery } from "@tanstack/react-query"
-import { calculateOpenSourceValue } from "@/lib/github-api"
+import { AlertCircle, Github, Loader2 } from "lucide-react"
+import SnapshotHistory from "@/components/snapshot-history"
+import RateLimitNotice from "@/components/rate-limit-notice"
+import IntegrityReport from "@/components/integrity-report"
+import OpenSourceVerdict from "@/components/open-source-verdict"
+import ScoringProfileSelect, { ScoringProfileBadge } from "@/components/scoring-profile-select"
+import EvaluationWindowPicker, { EvaluationWindowBadge } from "@/components/evaluation-window-picker"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { fetchOpenSourceValue } from "@/lib/api-client"
+import type { ForkStatus } from "@/lib/fork-analysis"
+import { DEFAULT_EVALUATION_WINDOW } from "@/lib/evaluation-window"
+import { DEFAULT_SCORING_PROFILE_ID } from "@/lib/scoring-profiles"
+import type { Snapshot } from "@/lib/snapshot-store"
 import Link from "next/link"
 import { Progress } from "@/components/ui/progress"
 import type React from "react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 
+const FORK_STATUSES: Record<ForkStatus, { label: string; className: string }> = {
+  "contributed-upstream": { label: "Contributed upstream", className: "bg-green-500" },
+  diverged: { label: "Diverged personal project", className: "bg-blue-500" },
+  untouched: { label: "Untouched fork", className: "bg-gray-400" },
+  uncompared: { label: "Scored as its own project", className: "bg-yellow-500" },
+}
+
 export default function OpenSourceValue() {
   const [username, setUsername] = useState("")
   const [submittedUsername, setSubmittedUsername] = useState<string | null>(null)
+  const [snapshot, setSnapshot] = useState<Snapshot<"openSourceValue"> | null>(null)
+  const [profileId, setProfileId] = useState(DEFAULT_SCORING_PROFILE_ID)
+  const [evaluationWindow, setEvaluationWindow] = useState(DEFAULT_EVALUATION_WINDOW)
+  // Picking dates shouldn't refetch until the form is submitted
+  const [submittedWindow, setSubmittedWindow] = useState(DEFAULT_EVALUATION_WINDOW)
+  const queryClient = useQueryClient()
   const { toast } = useToast()
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -32,16 +55,31 @@ export default function OpenSourceValue() {
     }
 
     setSubmittedUsername(username.trim())
+    setSubmittedWindow(evaluationWindow)
+    setSnapshot(null)
   }
 
-  const { data, isLoading, error, isFetching } = useQuery({
-    queryKey: ["openSourceValue", submittedUsername],
-    queryFn: () => submittedUsername ? calculateOpenSourceValue(submittedUsername) : null,
+  const { data: liveData, isLoading, error, isFetching } = useQuery({
+    queryKey: ["openSourceValue", submittedUsername, profileId, submittedWindow],
+    queryFn: async () => {
+      if (!submittedUsername) return null
+      const result = await fetchOpenSourceValue(submittedUsername, undefined, profileId, submittedWindow)
+      // The server keeps a timestamped snapshot of every evaluation
+      queryClient.invalidateQueries({ queryKey: ["snapshots"] })
+      return result
+    },
     enabled: !!submittedUsername,
     staleTime: 10 * 60 * 1000, // 10 minutes
     retry: 1, // Only retry once on failure
   })
 
+  const data = snapshot?.data ?? liveData
+  const forks = (data?.repositories ?? []).flatMap((repo) => (repo.fork ? [{ repo, fork: repo.fork }] : []))
+  // Untouched forks are listed with the forks; the rest were scored and fell short of the open source threshold
+  const notOpenSource = (data?.repositories ?? []).flatMap((repo) =>
+    !repo.isOpenSource && repo.classification ? [{ repo, classification: repo.classification }] : [],
+  )
+
   // Helper function to get score color
   const getScoreColor = (score: number) => {
     if (score >= 80) return "bg-green-500"
@@ -66,7 +104,7 @@ export default function OpenSourceValue() {
           Calculate a user's total contribution to open source projects on GitHub.
         </p>
 
-        <form onSubmit={handleSubmit} className="w-full max-w-md flex gap-2">
+        <form onSubmit={handleSubmit} className="w-full max-w-xl flex gap-2">
           <Input
             type="text"
             placeholder="GitHub Username"
@@ -75,6 +113,8 @@ export default function OpenSourceValue() {
             className="flex-1"
             disabled={isLoading || isFetching}
           />
+          <ScoringProfileSelect value={profileId} onChange={setProfileId} />
+          <EvaluationWindowPicker value={evaluationWindow} onChange={setEvaluationWindow} />
           <Button type="submit" disabled={isLoading || isFetching}>
             {isLoading || isFetching ? (
               <>
@@ -88,6 +128,14 @@ export default function OpenSourceValue() {
         </form>
       </div>
 
+      {submittedUsername && (
+        <SnapshotHistory
+          filter={{ kind: "openSourceValue", username: submittedUsername }}
+          activeSnapshot={snapshot}
+          onLoad={setSnapshot}
+        />
+      )}
+
       {isLoading && submittedUsername && (
         <Card className="mb-6 border-blue-200">
           <CardContent className="pt-6">
@@ -108,6 +156,8 @@ export default function OpenSourceValue() {
         </Card>
       )}
 
+      <RateLimitNotice active={isFetching} className="mb-6" />
+
       {error && (
         <Alert variant="destructive" className="mb-6">
           <AlertCircle className="h-4 w-4" />
@@ -139,7 +189,11 @@ export default function OpenSourceValue() {
                   <Github className="ml-2 h-5 w-5" />
                 </a>
               </CardTitle>
-              <CardDescription>Open Source Contribution Summary</CardDescription>
+              <CardDescription className="flex items-center gap-2">
+                Open Source Contribution Summary
+                <ScoringProfileBadge profile={data.scoringProfile} />
+                <EvaluationWindowBadge evaluationWindow={data.evaluationWindow} />
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="mb-8">
@@ -156,6 +210,12 @@ export default function OpenSourceValue() {
                 </p>
               </div>
 
+              {data.integrity && (
+                <div className="mb-8">
+                  <IntegrityReport report={data.integrity} />
+                </div>
+              )}
+
               <h3 className="text-lg font-semibold mb-4">Repository Contributions</h3>
               
               {data.repositories.length === 0 ? (
@@ -168,7 +228,17 @@ export default function OpenSourceValue() {
                       <Card key={repo.fullName} className="p-4">
                         <div className="flex justify-between items-center">
                           <div>
-                            <h4 className="font-medium">{repo.fullName}</h4>
+                            <h4 className="font-medium flex items-center gap-2">
+                              {repo.fullName}
+                              {repo.source === "external" && (
+                                <Badge variant="secondary">
+                                  External • {repo.mergedPRs} merged PR{repo.mergedPRs === 1 ? "" : "s"}
+                                </Badge>
+                              )}
+                              {repo.fork?.status === "contributed-upstream" && (
+                                <Badge variant="outline">Contributed via fork</Badge>
+                              )}
+                            </h4>
                             <div className="flex gap-2 mt-1">
                               <Link
                                 href={`/?repo=${encodeURIComponent(repo.url)}`}
@@ -195,11 +265,66 @@ export default function OpenSourceValue() {
                     ))}
                 </div>
               )}
+
+              {notOpenSource.length > 0 && (
+                <div className="mt-8">
+                  <h3 className="text-lg font-semibold mb-1">Not Counted as Open Source</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    These repositories did not earn enough points to count as open source projects and are left out of
+                    the total. Expand one to see how each factor scored.
+                  </p>
+                  <div className="space-y-2">
+                    {notOpenSource.map(({ repo, classification }) => (
+                      <details key={repo.fullName} className="p-3 border rounded-lg text-sm">
+                        <summary className="cursor-pointer flex items-center justify-between gap-4">
+                          <span className="font-medium truncate">{repo.fullName}</span>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {classification.points} / {classification.threshold} points
+                          </span>
+                        </summary>
+                        <div className="mt-3">
+                          <OpenSourceVerdict classification={classification} />
+                        </div>
+                      </details>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {forks.length > 0 && (
+                <div className="mt-8">
+                  <h3 className="text-lg font-semibold mb-1">Forks</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Each fork is compared with its upstream repository. Only forks the user contributed from are
+                    credited to the upstream project.
+                  </p>
+                  <div className="space-y-2">
+                    {forks.map(({ repo, fork }) => (
+                      <div key={repo.fullName} className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">
+                            {fork.status === "contributed-upstream" ? fork.upstream : repo.fullName}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            Fork of {fork.upstream} •{" "}
+                            {fork.aheadBy === null
+                              ? "could not be compared"
+                              : `${fork.aheadBy} ahead, ${fork.behindBy} behind`}{" "}
+                            • {fork.upstreamPRs} PR{fork.upstreamPRs === 1 ? "" : "s"} upstream
+                          </div>
+                        </div>
+                        <Badge className={FORK_STATUSES[fork.status].className}>{FORK_STATUSES[fork.status].label}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </CardContent>
             <CardFooter className="text-sm text-muted-foreground border-t pt-4">
               <p>
                 Some repositories might not appear due to access restrictions or API limitations.
-                Only open source repositories are included in the total score.
+                Only open source repositories are included in the total score. External repositories are upstream
+                projects the user sent merged pull requests to without forking them under their own account.
               </p>
             </CardFooter>
           </Card>
@@ -0,0 +1,47 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { LICENSE_CATEGORY_LABELS, type OpenSourceClassification } from "@/lib/open-source-classifier"
+
+// The factors behind an open source verdict, so a disputed verdict can be checked point by point
+export default function OpenSourceVerdict({ classification }: { classification: OpenSourceClassification }) {
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge className={classification.isOpenSource ? "bg-green-500" : "bg-gray-400"}>
+          {classification.isOpenSource ? "Open source" : "Not open source"}
+        </Badge>
+        <Badge variant="outline">
+          {classification.license.spdxId ?? "No licence"} • {LICENSE_CATEGORY_LABELS[classification.license.category]}
+        </Badge>
+      </div>
+      <p>{classification.reason}</p>
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-xs text-muted-foreground">
+            <th className="font-normal pb-1">Factor</th>
+            <th className="font-normal pb-1">Value</th>
+            <th className="font-normal pb-1 text-right">Points</th>
+          </tr>
+        </thead>
+        <tbody>
+          {classification.factors.map((factor) => (
+            <tr key={factor.key} className="border-t">
+              <td className="py-1">{factor.label}</td>
+              <td className="py-1">{factor.valueLabel}</td>
+              <td className="py-1 text-right whitespace-nowrap">
+                {factor.points} / {factor.maxPoints}
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t font-medium">
+            <td className="py-1" colSpan={2}>
+              Total (open source above {classification.threshold})
+            </td>
+            <td className="py-1 text-right">{classification.points}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
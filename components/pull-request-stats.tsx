@@ -2,7 +2,7 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import type { RepoData } from "@/lib/github-api"
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import TrendChart, { type TrendSeries } from "@/components/trend-chart"
 import { GitMerge, GitPullRequest } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 
@@ -10,6 +10,11 @@ interface PullRequestStatsProps {
   data: RepoData
 }
 
+const PULL_REQUEST_TRENDS: TrendSeries<any>[] = [
+  { key: "opened", name: "Opened", color: "#3b82f6", date: (pr) => pr.created_at },
+  { key: "merged", name: "Merged", color: "#8b5cf6", date: (pr) => pr.merged_at },
+]
+
 export default function PullRequestStats({ data }: PullRequestStatsProps) {
   const { pullRequests } = data
 
@@ -50,20 +55,10 @@ export default function PullRequestStats({ data }: PullRequestStatsProps) {
               <GitPullRequest className="mr-2 h-5 w-5" />
               Pull Request Trends
             </CardTitle>
-            <CardDescription>Monthly opened and merged pull requests</CardDescription>
+            <CardDescription>Opened and merged pull requests over time</CardDescription>
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={pullRequests.monthlyTrends}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="month" />
-                <YAxis />
-                <Tooltip />
-                <Legend />
-                <Bar dataKey="opened" name="Opened" fill="#3b82f6" />
-                <Bar dataKey="merged" name="Merged" fill="#8b5cf6" />
-              </BarChart>
-            </ResponsiveContainer>
+            <TrendChart items={pullRequests.all} series={PULL_REQUEST_TRENDS} />
           </CardContent>
         </Card>
 
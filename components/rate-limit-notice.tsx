@@ -0,0 +1,37 @@
+"use client"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Clock } from "lucide-react"
+import { useQuery } from "@tanstack/react-query"
+import { fetchRateLimitStatus } from "@/lib/api-client"
+import { cn } from "@/lib/utils"
+
+interface RateLimitNoticeProps {
+  // Poll only while GitHub data is being fetched
+  active: boolean
+  className?: string
+}
+
+export default function RateLimitNotice({ active, className }: RateLimitNoticeProps) {
+  const { data } = useQuery({
+    queryKey: ["rateLimit"],
+    queryFn: fetchRateLimitStatus,
+    enabled: active,
+    refetchInterval: active ? 5000 : false,
+  })
+
+  if (!active || !data?.waitingUntil) return null
+
+  const until = new Date(data.waitingUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+  return (
+    <Alert className={cn("border-yellow-400", className)}>
+      <Clock className="h-4 w-4" />
+      <AlertTitle>Waiting for GitHub rate limit until {until}</AlertTitle>
+      <AlertDescription>
+        The GitHub {data.endpoint === "search" ? "search" : data.endpoint === "graphql" ? "GraphQL" : "API"} quota is
+        used up. Requests are paused and will continue automatically once the limit resets.
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { useQuery } from "@tanstack/react-query"
+import { fetchBatchJobs } from "@/lib/api-client"
+
+interface RecentBatchJobsProps {
+  selectedJobId: string | null
+  onSelect: (jobId: string) => void
+}
+
+export default function RecentBatchJobs({ selectedJobId, onSelect }: RecentBatchJobsProps) {
+  const { data: jobs } = useQuery({
+    queryKey: ["batchJobs"],
+    queryFn: fetchBatchJobs,
+    refetchInterval: 10 * 1000,
+  })
+
+  if (!jobs || jobs.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Analysis Jobs</CardTitle>
+        <CardDescription>Jobs keep running on the server after this tab is closed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {jobs.map((job) => (
+          <div key={job.id} className="flex items-center gap-4 p-3 border rounded-lg">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{job.name}</span>
+                <Badge variant="outline">{job.status}</Badge>
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">
+                {new Date(job.createdAt).toLocaleString()} • {job.progress.total} students
+              </div>
+              <Progress value={job.progress.percent} className="h-1 mt-2" />
+            </div>
+            <Button
+              variant={job.id === selectedJobId ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => onSelect(job.id)}
+            >
+              {job.id === selectedJobId ? "Viewing" : "View"}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
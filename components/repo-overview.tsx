@@ -1,10 +1,14 @@
 "use client"
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tooltip as InfoTooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import type { RepoData } from "@/lib/github-api"
+import { calculateRepoHealth, healthInputsFromRepoData } from "@/lib/repo-health"
+import { DEFAULT_SCORING_PROFILE_ID, findScoringProfile } from "@/lib/scoring-profiles"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts"
 import { Badge } from "@/components/ui/badge"
-import { CalendarDays, GitFork, Star, Eye, AlertCircle, GitPullRequest } from "lucide-react"
+import { ScoringProfileBadge } from "@/components/scoring-profile-select"
+import { CalendarDays, GitFork, Star, Eye, AlertCircle, GitPullRequest, Info } from "lucide-react"
 
 interface RepoOverviewProps {
   data: RepoData
@@ -13,43 +17,12 @@ interface RepoOverviewProps {
 export default function RepoOverview({ data }: RepoOverviewProps) {
   const { repo, issues, pullRequests } = data
 
-  // Calculate repository health score (simple algorithm)
-  const calculateHealthScore = () => {
-    // Factors to consider:
-    // 1. Ratio of closed to open issues
-    // 2. Average issue resolution time
-    // 3. PR merge frequency
-    // 4. Recent activity
-
-    let score = 0
-    const totalIssues = issues.open.length + issues.closed.length
-
-    // Issue resolution ratio (up to 40 points)
-    if (totalIssues > 0) {
-      const resolutionRatio = issues.closed.length / totalIssues
-      score += resolutionRatio * 40
-    } else {
-      score += 30 // No issues could be good or bad, give benefit of doubt
-    }
-
-    // Issue resolution time (up to 30 points)
-    if (issues.avgResolutionTime > 0) {
-      // Lower is better, max 30 days considered
-      const resolutionTimeScore = Math.max(0, 30 - Math.min(issues.avgResolutionTime, 30))
-      score += (resolutionTimeScore / 30) * 30
-    }
-
-    // PR activity (up to 30 points)
-    const totalPRs = pullRequests.all.length
-    if (totalPRs > 0) {
-      const mergeRatio = pullRequests.merged.length / totalPRs
-      score += mergeRatio * 30
-    }
-
-    return Math.round(score)
-  }
-
-  const healthScore = calculateHealthScore()
+  // Weight with the profile the server scored with; older snapshots fall back to the default profile
+  const profile = findScoringProfile(data.scoringProfile?.id) ?? findScoringProfile(DEFAULT_SCORING_PROFILE_ID)!
+  // Snapshots taken before the community health metrics only have the lists to score
+  const health = calculateRepoHealth(data.health ?? healthInputsFromRepoData(data), profile.repoHealth)
+  const healthScore = health.score
+  const missingComponents = health.components.filter((component) => !component.available).length
 
   // Determine health status based on score
   const getHealthStatus = () => {
@@ -88,24 +61,54 @@ export default function RepoOverview({ data }: RepoOverviewProps) {
         <Card>
           <CardHeader>
             <CardTitle>Repository Health</CardTitle>
-            <CardDescription>Overall health assessment based on activity and maintenance</CardDescription>
+            <CardDescription>Activity, maintenance and CHAOSS community health metrics</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="text-2xl font-bold">{healthScore}/100</h3>
-                <Badge className={`mt-2 ${healthStatus.color}`}>{healthStatus.label}</Badge>
+                <div className="mt-2 flex items-center gap-2">
+                  <Badge className={healthStatus.color}>{healthStatus.label}</Badge>
+                  <ScoringProfileBadge profile={data.scoringProfile} />
+                </div>
               </div>
               <div className="w-24 h-24 rounded-full border-8 border-muted flex items-center justify-center">
                 <span className="text-2xl font-bold">{healthScore}</span>
               </div>
             </div>
 
-            <div className="mt-6 space-y-2">
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Issue Resolution:</span>
-                <span>{issues.avgResolutionTime.toFixed(1)} days avg</span>
+            <TooltipProvider delayDuration={0}>
+              <div className="mt-6 space-y-2">
+                {health.components.map((component) => (
+                  <div key={component.key} className="flex justify-between gap-4 text-sm">
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      {component.label}:
+                      <InfoTooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3.5 w-3.5 cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs">{component.reason}</TooltipContent>
+                      </InfoTooltip>
+                    </span>
+                    <span className="text-right">
+                      {component.inputLabel}
+                      {component.available && (
+                        <span className="ml-2 text-muted-foreground">
+                          {component.points}/{component.maxPoints}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+                {missingComponents > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Scaled to 100 over the metrics that were available.
+                  </p>
+                )}
               </div>
+            </TooltipProvider>
+
+            <div className="mt-4 space-y-2 border-t pt-4">
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">PR Merge Time:</span>
                 <span>{pullRequests.avgMergeTime.toFixed(1)} days avg</span>
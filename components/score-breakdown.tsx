@@ -0,0 +1,78 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import type { ScoreComponent, ScoreComponentKey } from "@/lib/score-breakdown"
+
+interface ScoreBreakdownProps {
+  components: ScoreComponent[]
+  score: number
+}
+
+const COMPONENT_COLORS: Record<ScoreComponentKey, string> = {
+  rank: "bg-indigo-500",
+  pullRequests: "bg-emerald-500",
+  maintainer: "bg-purple-500",
+  recentActivity: "bg-amber-500",
+  issues: "bg-sky-500",
+  issuesClosed: "bg-rose-500",
+}
+
+// Contributor score as one stacked bar out of 100, followed by each component's input and reason
+export default function ScoreBreakdown({ components, score }: ScoreBreakdownProps) {
+  const earned = components.reduce((sum, component) => sum + component.points, 0)
+  const capped = Math.round(earned) > 100
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Why {score}/100?</CardTitle>
+        <CardDescription>How each part of the contributor score was earned</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <TooltipProvider>
+          <div className="flex h-6 w-full overflow-hidden rounded-full bg-muted">
+            {components
+              .filter((component) => component.points > 0)
+              .map((component) => (
+                <Tooltip key={component.key}>
+                  <TooltipTrigger asChild>
+                    <div
+                      className={`h-full ${COMPONENT_COLORS[component.key]}`}
+                      style={{ width: `${Math.min(component.points, 100)}%` }}
+                    />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {component.label}: {component.points} points
+                  </TooltipContent>
+                </Tooltip>
+              ))}
+          </div>
+        </TooltipProvider>
+        {capped && (
+          <p className="text-xs text-muted-foreground">
+            The components add up to {Math.round(earned)} points; the score is capped at 100.
+          </p>
+        )}
+
+        <div className="space-y-4">
+          {components.map((component) => (
+            <div key={component.key} className="flex gap-3">
+              <div className={`mt-1.5 h-3 w-3 shrink-0 rounded-full ${COMPONENT_COLORS[component.key]}`} />
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between gap-4">
+                  <span className="font-medium">{component.label}</span>
+                  <span className="font-medium whitespace-nowrap">
+                    {component.points} / {component.maxPoints}
+                  </span>
+                </div>
+                <div className="text-sm text-muted-foreground">{component.inputLabel}</div>
+                <p className="text-sm mt-1">{component.reason}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
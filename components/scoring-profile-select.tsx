@@ -0,0 +1,38 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SCORING_PROFILES, type ScoringProfileRef } from "@/lib/scoring-profiles"
+
+interface ScoringProfileSelectProps {
+  value: string
+  onChange: (profileId: string) => void
+  className?: string
+}
+
+export default function ScoringProfileSelect({ value, onChange, className }: ScoringProfileSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className ?? "w-[200px]"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SCORING_PROFILES.map((profile) => (
+          <SelectItem key={profile.id} value={profile.id}>
+            {profile.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+// Which profile and version produced a result
+export function ScoringProfileBadge({ profile }: { profile?: ScoringProfileRef }) {
+  if (!profile) return null
+  return (
+    <Badge variant="outline" title={`Scored with the ${profile.name} profile, version ${profile.version}`}>
+      {profile.name} v{profile.version}
+    </Badge>
+  )
+}
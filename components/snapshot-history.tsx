@@ -0,0 +1,105 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/components/ui/use-toast"
+import { History, Loader2 } from "lucide-react"
+import { useQuery } from "@tanstack/react-query"
+import { ScoringProfileBadge } from "@/components/scoring-profile-select"
+import { fetchSnapshot, fetchSnapshots } from "@/lib/api-client"
+import type { Snapshot, SnapshotFilter, SnapshotKind } from "@/lib/snapshot-store"
+
+interface SnapshotHistoryProps<K extends SnapshotKind> {
+  filter: SnapshotFilter & { kind: K }
+  activeSnapshot: Snapshot<K> | null
+  onLoad: (snapshot: Snapshot<K> | null) => void
+}
+
+export default function SnapshotHistory<K extends SnapshotKind>({
+  filter,
+  activeSnapshot,
+  onLoad,
+}: SnapshotHistoryProps<K>) {
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const { data: snapshots, isLoading } = useQuery({
+    queryKey: ["snapshots", filter],
+    queryFn: () => fetchSnapshots({ limit: 20, ...filter }),
+  })
+
+  const handleLoad = async (id: string) => {
+    setLoadingId(id)
+    try {
+      onLoad(await fetchSnapshot<K>(id))
+    } catch (error) {
+      toast({
+        title: "Could Not Load Snapshot",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {activeSnapshot && (
+        <Alert className="border-blue-200 bg-blue-50">
+          <History className="h-4 w-4 text-blue-600" />
+          <AlertTitle className="text-blue-800">Viewing a Saved Evaluation</AlertTitle>
+          <AlertDescription className="text-blue-700 flex items-center justify-between gap-4">
+            <span>These results were recorded on {new Date(activeSnapshot.createdAt).toLocaleString()}.</span>
+            <Button size="sm" variant="outline" onClick={() => onLoad(null)}>
+              Show Latest
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            Past Evaluations
+          </CardTitle>
+          <CardDescription>Saved results can be reloaded without calling GitHub again</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground flex items-center">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading saved evaluations...
+            </p>
+          ) : !snapshots || snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved evaluations yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {snapshots.map((snapshot) => (
+                <div key={snapshot.id} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>{new Date(snapshot.createdAt).toLocaleString()}</span>
+                    {snapshot.score !== undefined && <Badge variant="outline">Score {snapshot.score}</Badge>}
+                    <ScoringProfileBadge profile={snapshot.scoringProfile} />
+                    {snapshot.jobId && <Badge variant="secondary">Batch job</Badge>}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant={activeSnapshot?.id === snapshot.id ? "secondary" : "ghost"}
+                    disabled={loadingId !== null}
+                    onClick={() => handleLoad(snapshot.id)}
+                  >
+                    {loadingId === snapshot.id ? "Loading..." : activeSnapshot?.id === snapshot.id ? "Viewing" : "Load"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
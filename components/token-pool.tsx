@@ -0,0 +1,210 @@
+"use client"
+
+import { useEffect, useState, type FormEvent } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { useToast } from "@/components/ui/use-toast"
+import { AlertCircle, KeyRound, Loader2, Lock, RefreshCw } from "lucide-react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { fetchTokens, refreshTokens } from "@/lib/api-client"
+import type { EndpointClass } from "@/lib/github-scheduler"
+import type { TokenQuota, TokenStatus } from "@/lib/github-tokens"
+
+const STATUS_STYLES: Record<TokenStatus, string> = {
+  active: "bg-green-500",
+  exhausted: "bg-yellow-500",
+  revoked: "bg-red-500",
+}
+
+// The admin secret is kept for the browser tab only
+const SECRET_STORAGE_KEY = "admin-secret"
+
+const ENDPOINTS: { endpoint: EndpointClass; label: string }[] = [
+  { endpoint: "core", label: "REST" },
+  { endpoint: "search", label: "Search" },
+  { endpoint: "graphql", label: "GraphQL" },
+]
+
+function QuotaCell({ quota }: { quota?: TokenQuota }) {
+  if (!quota) {
+    return <span className="text-muted-foreground">Not used yet</span>
+  }
+
+  const resetAt = new Date(quota.resetAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+  return (
+    <div className="space-y-1 min-w-[120px]">
+      <div className="text-sm">
+        {quota.remaining.toLocaleString()} / {quota.limit.toLocaleString()}
+      </div>
+      <Progress value={quota.limit > 0 ? (quota.remaining / quota.limit) * 100 : 0} className="h-1" />
+      <div className="text-xs text-muted-foreground">Resets {resetAt}</div>
+    </div>
+  )
+}
+
+export default function TokenPool() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const [secret, setSecret] = useState<string | null>(null)
+  const [secretInput, setSecretInput] = useState("")
+
+  useEffect(() => {
+    setSecret(window.sessionStorage.getItem(SECRET_STORAGE_KEY))
+  }, [])
+
+  const { data: tokens, isLoading, error } = useQuery({
+    queryKey: ["githubTokens", secret],
+    queryFn: () => fetchTokens(secret!),
+    enabled: !!secret,
+    retry: false,
+    refetchInterval: 10 * 1000,
+  })
+
+  const { mutate: refresh, isPending: refreshing } = useMutation({
+    mutationFn: () => refreshTokens(secret!),
+    onSuccess: (updated) => queryClient.setQueryData(["githubTokens", secret], updated),
+    onError: (mutationError) => {
+      toast({
+        title: "Could Not Refresh Tokens",
+        description: mutationError instanceof Error ? mutationError.message : "Unknown error",
+        variant: "destructive",
+      })
+    },
+  })
+
+  const activeCount = tokens?.filter((token) => token.status !== "revoked").length ?? 0
+
+  const unlock = (event: FormEvent) => {
+    event.preventDefault()
+    const value = secretInput.trim()
+    if (!value) return
+    window.sessionStorage.setItem(SECRET_STORAGE_KEY, value)
+    setSecret(value)
+    setSecretInput("")
+  }
+
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <div className="flex flex-col items-center mb-8">
+        <h1 className="text-3xl font-bold mb-2 flex items-center">
+          <KeyRound className="mr-2" /> GitHub Tokens
+        </h1>
+        <p className="text-muted-foreground text-center max-w-2xl mb-6">
+          Requests are spread over every configured token, using the one with the most quota left. Tokens GitHub
+          rejects as revoked or expired are taken out of rotation.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error instanceof Error ? error.message : "Failed to load the token pool."}</AlertDescription>
+        </Alert>
+      )}
+
+      {(!secret || error) && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Lock className="mr-2 h-5 w-5" /> Admin Secret
+            </CardTitle>
+            <CardDescription>Enter the ADMIN_SECRET configured on the server to view the token pool.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={unlock} className="flex gap-2">
+              <Input
+                type="password"
+                autoComplete="off"
+                value={secretInput}
+                onChange={(event) => setSecretInput(event.target.value)}
+                placeholder="Admin secret"
+              />
+              <Button type="submit">Unlock</Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {tokens && tokens.every((token) => token.index === null) && (
+        <Alert className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>No Tokens Configured</AlertTitle>
+          <AlertDescription>
+            Requests are unauthenticated and limited to 60 per hour. Add tokens to GITHUB_TOKENS (comma separated) in
+            .env.local and restart the server.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {secret && !error && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Token Pool</CardTitle>
+                <CardDescription>
+                  {activeCount} token{activeCount === 1 ? "" : "s"} in rotation
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" disabled={refreshing} onClick={() => refresh()}>
+                <RefreshCw className={`mr-2 h-4 w-4 ${refreshing ? "animate-spin" : ""}`} /> Check Quotas
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading tokens...
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Token</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Requests</TableHead>
+                    {ENDPOINTS.map(({ endpoint, label }) => (
+                      <TableHead key={endpoint}>{label}</TableHead>
+                    ))}
+                    <TableHead>Last Used</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tokens?.map((token) => (
+                    <TableRow key={token.id}>
+                      <TableCell className="font-medium">{token.label}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[token.status]}>{token.status}</Badge>
+                        {token.revokedAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            since {new Date(token.revokedAt).toLocaleString()}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{token.requests.toLocaleString()}</TableCell>
+                      {ENDPOINTS.map(({ endpoint }) => (
+                        <TableCell key={endpoint}>
+                          <QuotaCell quota={token.quotas[endpoint]} />
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-sm text-muted-foreground">
+                        {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  )
+}
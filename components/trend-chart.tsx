@@ -0,0 +1,180 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import {
+  GRANULARITIES,
+  SERIES_MODES,
+  buildTimeSeries,
+  endOfDayIn,
+  isValidTimeZone,
+  startOfDayIn,
+  type DateAccessor,
+  type Granularity,
+  type SeriesMode,
+} from "@/lib/time-series"
+
+type TrendRange = "30d" | "6m" | "12m" | "3y" | "all" | "custom"
+
+const TREND_RANGES: Record<TrendRange, string> = {
+  "30d": "Last 30 days",
+  "6m": "Last 6 months",
+  "12m": "Last 12 months",
+  "3y": "Last 3 years",
+  all: "All fetched",
+  custom: "Custom range",
+}
+
+export interface TrendSeries<T> {
+  key: string
+  name: string
+  color: string
+  date: DateAccessor<T>
+}
+
+interface TrendChartProps<T> {
+  items: T[]
+  series: TrendSeries<T>[]
+}
+
+function rangeStart(range: TrendRange, until: Date, earliest: Date | null): Date {
+  const since = new Date(until)
+  switch (range) {
+    case "30d":
+      since.setDate(since.getDate() - 30)
+      return since
+    case "6m":
+      since.setMonth(since.getMonth() - 6)
+      return since
+    case "12m":
+      since.setFullYear(since.getFullYear() - 1)
+      return since
+    case "3y":
+      since.setFullYear(since.getFullYear() - 3)
+      return since
+    case "all":
+    case "custom":
+      return earliest ?? since
+  }
+}
+
+// Issue and pull request trends, bucketed in the browser so the range and granularity can change
+// without refetching the repository
+export default function TrendChart<T>({ items, series }: TrendChartProps<T>) {
+  const [range, setRange] = useState<TrendRange>("6m")
+  const [granularity, setGranularity] = useState<Granularity>("month")
+  const [mode, setMode] = useState<SeriesMode>("count")
+  const [customStart, setCustomStart] = useState("")
+  const [customEnd, setCustomEnd] = useState("")
+  const [timeZone, setTimeZone] = useState("UTC")
+  const localTimeZone = useMemo(() => {
+    const resolved = Intl.DateTimeFormat().resolvedOptions().timeZone
+    return isValidTimeZone(resolved) ? resolved : "UTC"
+  }, [])
+
+  const data = useMemo(() => {
+    const dates = items.flatMap((item) => series.map((entry) => entry.date(item)).filter((date): date is string => !!date))
+    const earliest = dates.length > 0 ? new Date(dates.reduce((min, date) => (date < min ? date : min))) : null
+    // Custom dates are whole days in the chart's time zone; a blank one leaves that end open
+    const custom = range === "custom"
+    const until = custom && customEnd ? endOfDayIn(customEnd, timeZone) : new Date()
+    const since = custom && customStart ? startOfDayIn(customStart, timeZone) : rangeStart(range, until, earliest)
+    if (since > until) return []
+    return buildTimeSeries(
+      items,
+      Object.fromEntries(series.map((entry) => [entry.key, entry.date])),
+      { granularity, since, until, timeZone, mode },
+    )
+  }, [items, series, range, customStart, customEnd, granularity, mode, timeZone])
+
+  // Running totals and averages read better as lines than as bars
+  const Chart = mode === "count" ? BarChart : LineChart
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <Select value={range} onValueChange={(value) => setRange(value as TrendRange)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TREND_RANGES).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={granularity} onValueChange={(value) => setGranularity(value as Granularity)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(GRANULARITIES).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={mode} onValueChange={(value) => setMode(value as SeriesMode)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SERIES_MODES).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={timeZone} onValueChange={setTimeZone}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="UTC">UTC</SelectItem>
+            {localTimeZone !== "UTC" && <SelectItem value={localTimeZone}>{localTimeZone}</SelectItem>}
+          </SelectContent>
+        </Select>
+      </div>
+      {range === "custom" && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="date"
+            aria-label="From"
+            value={customStart}
+            max={customEnd || undefined}
+            onChange={(e) => setCustomStart(e.target.value)}
+          />
+          <Input
+            type="date"
+            aria-label="To"
+            value={customEnd}
+            min={customStart || undefined}
+            onChange={(e) => setCustomEnd(e.target.value)}
+          />
+        </div>
+      )}
+      <ResponsiveContainer width="100%" height={300}>
+        <Chart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" />
+          <YAxis />
+          <Tooltip />
+          <Legend />
+          {series.map((entry) =>
+            mode === "count" ? (
+              <Bar key={entry.key} dataKey={entry.key} name={entry.name} fill={entry.color} />
+            ) : (
+              <Line key={entry.key} type="monotone" dataKey={entry.key} name={entry.name} stroke={entry.color} dot={false} />
+            ),
+          )}
+        </Chart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, CheckCircle, Loader2, XCircle } from "lucide-react"
+import type { ValidatedRow, ValidationReport as ValidationReportData } from "@/lib/student-validation"
+
+interface ValidationReportProps {
+  report: ValidationReportData
+  verifying: boolean
+  skipInvalid: boolean
+  onSkipInvalidChange: (skipInvalid: boolean) => void
+  onFixUsername: (rowNumber: number, username: string) => void
+}
+
+function UsernameFix({ row, onFix }: { row: ValidatedRow; onFix: (username: string) => void }) {
+  const [value, setValue] = useState(row.originalUsername)
+
+  const unchanged = value.trim() === row.originalUsername
+
+  // Rendered inside the upload form, so Enter applies the fix instead of submitting it
+  return (
+    <div className="flex gap-2">
+      <Input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault()
+            if (!unchanged) onFix(value.trim())
+          }
+        }}
+        className="h-8"
+      />
+      <Button type="button" size="sm" variant="outline" disabled={unchanged} onClick={() => onFix(value.trim())}>
+        Fix
+      </Button>
+    </div>
+  )
+}
+
+export default function ValidationReport({
+  report,
+  verifying,
+  skipInvalid,
+  onSkipInvalidChange,
+  onFixUsername,
+}: ValidationReportProps) {
+  const { counts } = report
+  const rowsWithIssues = report.rows.filter((row) => row.issues.length > 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="text-center p-3 bg-muted rounded-lg">
+          <div className="text-xl font-bold">{counts.valid}</div>
+          <div className="text-xs text-muted-foreground">Valid</div>
+        </div>
+        <div className="text-center p-3 bg-muted rounded-lg">
+          <div className="text-xl font-bold text-yellow-600">{counts.warning}</div>
+          <div className="text-xs text-muted-foreground">Warnings</div>
+        </div>
+        <div className="text-center p-3 bg-muted rounded-lg">
+          <div className="text-xl font-bold text-red-600">{counts.error}</div>
+          <div className="text-xs text-muted-foreground">Errors</div>
+        </div>
+        <div className="text-center p-3 bg-muted rounded-lg">
+          <div className="text-xl font-bold text-muted-foreground">{counts.empty}</div>
+          <div className="text-xs text-muted-foreground">Empty Rows</div>
+        </div>
+      </div>
+
+      {verifying && (
+        <p className="text-sm text-muted-foreground flex items-center">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Checking usernames on GitHub...
+        </p>
+      )}
+
+      {rowsWithIssues.length > 0 ? (
+        <div className="border rounded-md max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Row</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Issues</TableHead>
+                <TableHead className="w-64">GitHub Username</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rowsWithIssues.map((row) => (
+                <TableRow key={row.record.rowNumber}>
+                  <TableCell className="text-muted-foreground">{row.record.rowNumber}</TableCell>
+                  <TableCell>
+                    {row.status === "error" ? (
+                      <Badge variant="destructive" className="whitespace-nowrap">
+                        <XCircle className="mr-1 h-3 w-3" /> Error
+                      </Badge>
+                    ) : row.status === "empty" ? (
+                      <Badge variant="outline" className="whitespace-nowrap">
+                        Empty
+                      </Badge>
+                    ) : (
+                      <Badge className="bg-yellow-500 whitespace-nowrap">
+                        <AlertTriangle className="mr-1 h-3 w-3" /> Warning
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <ul className="space-y-1 text-sm">
+                      {row.issues.map((issue) => (
+                        <li key={issue.code} className={issue.severity === "error" ? "text-red-600" : "text-yellow-700"}>
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </TableCell>
+                  <TableCell>
+                    {row.status === "empty" ? (
+                      <span className="text-muted-foreground">—</span>
+                    ) : (
+                      <UsernameFix
+                        key={row.originalUsername}
+                        row={row}
+                        onFix={(username) => onFixUsername(row.record.rowNumber, username)}
+                      />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-green-700 flex items-center">
+          <CheckCircle className="mr-2 h-4 w-4" />
+          All rows passed validation.
+        </p>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="skip-invalid"
+          checked={skipInvalid}
+          onCheckedChange={(checked) => onSkipInvalidChange(checked === true)}
+        />
+        <Label htmlFor="skip-invalid">Skip invalid rows ({counts.error} rows with errors)</Label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import "server-only"
+import { createHash, timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+
+// Admin routes expose operational details (the token pool, its quotas), so they require the shared
+// secret from ADMIN_SECRET, sent as "Authorization: Bearer <secret>". Without ADMIN_SECRET they stay closed.
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest()
+}
+
+// The error response to return, or null when the request carries the admin secret
+export function requireAdmin(request: Request): NextResponse | null {
+  const secret = process.env.ADMIN_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: "Admin routes are disabled until ADMIN_SECRET is set" }, { status: 403 })
+  }
+
+  const provided = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? ""
+  // Comparing fixed-length digests keeps the comparison time independent of the secret
+  if (!timingSafeEqual(digest(provided), digest(secret))) {
+    return NextResponse.json({ error: "Admin secret required" }, { status: 401 })
+  }
+  return null
+}
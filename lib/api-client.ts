@@ -0,0 +1,151 @@
+import type { BatchJobSummary, BatchJobView, JobAction } from "@/lib/batch-jobs"
+import type { ContributorImpactScore } from "@/lib/contributor-impact"
+import { evaluationWindowParams, type EvaluationWindow } from "@/lib/evaluation-window"
+import type { ContributorScoreData, FetchOptions, OpenSourceValueData, RepoData, UserActivityData } from "@/lib/github-api"
+import type { RateLimitStatus } from "@/lib/github-scheduler"
+import type { TokenView } from "@/lib/github-tokens"
+import type { Leaderboard } from "@/lib/leaderboard"
+import type { Snapshot, SnapshotFilter, SnapshotKind, SnapshotMeta } from "@/lib/snapshot-store"
+import type { StudentRecord } from "@/lib/student-import"
+import type { UserExistence } from "@/lib/student-validation"
+
+// Browser-side helpers for the app's own API routes
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+
+  const body = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new Error(body?.error || `Request to ${url} failed with status ${response.status}`)
+  }
+  return body as T
+}
+
+// GitHub data is fetched server-side so the access token never reaches the browser
+
+// Query parameters for the fetch options the caller overrides; the rest use server defaults
+function fetchOptionParams(options: Partial<FetchOptions> = {}, evaluationWindow?: EvaluationWindow): URLSearchParams {
+  const params = evaluationWindow ? evaluationWindowParams(evaluationWindow) : new URLSearchParams()
+  Object.entries(options).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value))
+  })
+  return params
+}
+
+export function fetchRepoData(
+  owner: string,
+  repo: string,
+  options?: Partial<FetchOptions>,
+  profile?: string,
+): Promise<RepoData> {
+  const params = fetchOptionParams(options)
+  if (profile) params.set("profile", profile)
+  return fetchJson(`/api/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}?${params}`)
+}
+
+export function fetchContributorScore(
+  username: string,
+  owner: string,
+  repo: string,
+  options?: Partial<FetchOptions>,
+  profile?: string,
+  evaluationWindow?: EvaluationWindow,
+): Promise<ContributorScoreData> {
+  const params = fetchOptionParams(options, evaluationWindow)
+  if (profile) params.set("profile", profile)
+  params.set("username", username)
+  params.set("owner", owner)
+  params.set("repo", repo)
+  return fetchJson(`/api/contributor-score?${params}`)
+}
+
+export function fetchOpenSourceValue(
+  username: string,
+  options?: Partial<FetchOptions>,
+  profile?: string,
+  evaluationWindow?: EvaluationWindow,
+): Promise<OpenSourceValueData> {
+  const params = fetchOptionParams(options, evaluationWindow)
+  if (profile) params.set("profile", profile)
+  return fetchJson(`/api/users/${encodeURIComponent(username)}/open-source-value?${params}`)
+}
+
+export function fetchContributorImpact(username: string, profile?: string): Promise<ContributorImpactScore> {
+  const params = new URLSearchParams()
+  if (profile) params.set("profile", profile)
+  return fetchJson(`/api/users/${encodeURIComponent(username)}/impact?${params}`)
+}
+
+export function fetchUserActivity(username: string): Promise<UserActivityData> {
+  return fetchJson(`/api/users/${encodeURIComponent(username)}/activity`)
+}
+
+export function verifyGithubUsers(usernames: string[]): Promise<UserExistence> {
+  return fetchJson("/api/users/verify", {
+    method: "POST",
+    body: JSON.stringify({ usernames }),
+  })
+}
+
+export function fetchRateLimitStatus(): Promise<RateLimitStatus> {
+  return fetchJson("/api/rate-limit")
+}
+
+// Admin routes take the ADMIN_SECRET the admin entered on the page
+function adminHeaders(secret: string): HeadersInit {
+  return { Authorization: `Bearer ${secret}` }
+}
+
+export function fetchTokens(secret: string): Promise<TokenView[]> {
+  return fetchJson("/api/admin/tokens", { headers: adminHeaders(secret) })
+}
+
+export function refreshTokens(secret: string): Promise<TokenView[]> {
+  return fetchJson("/api/admin/tokens", { method: "POST", headers: adminHeaders(secret) })
+}
+
+export function createBatchJob(
+  name: string,
+  students: StudentRecord[],
+  profile?: string,
+  evaluationWindow?: EvaluationWindow,
+): Promise<BatchJobSummary> {
+  return fetchJson("/api/jobs", {
+    method: "POST",
+    body: JSON.stringify({ name, students, profile, evaluationWindow }),
+  })
+}
+
+export function fetchBatchJobs(): Promise<BatchJobSummary[]> {
+  return fetchJson("/api/jobs")
+}
+
+export function fetchBatchJob(id: string): Promise<BatchJobView> {
+  return fetchJson(`/api/jobs/${encodeURIComponent(id)}`)
+}
+
+export function updateBatchJob(id: string, action: JobAction): Promise<BatchJobView> {
+  return fetchJson(`/api/jobs/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ action }),
+  })
+}
+
+export function fetchSnapshots(filter: SnapshotFilter): Promise<SnapshotMeta[]> {
+  const params = new URLSearchParams()
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value))
+  })
+  return fetchJson(`/api/snapshots?${params}`)
+}
+
+export function fetchSnapshot<K extends SnapshotKind>(id: string): Promise<Snapshot<K>> {
+  return fetchJson(`/api/snapshots/${encodeURIComponent(id)}`)
+}
+
+export function fetchLeaderboard(jobId: string): Promise<Leaderboard> {
+  return fetchJson(`/api/leaderboard?jobId=${encodeURIComponent(jobId)}`)
+}
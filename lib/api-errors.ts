@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+
+// GraphQL reports a missing user or repository as a NOT_FOUND error rather than an HTTP status
+function isGraphqlNotFound(error: unknown): boolean {
+  const errors = (error as { errors?: { type?: string }[] } | null)?.errors
+  return Array.isArray(errors) && errors.some((graphqlError) => graphqlError?.type === "NOT_FOUND")
+}
+
+// Translate a failed GitHub call into an API response with a matching status code
+export function githubErrorResponse(error: unknown, message: string) {
+  const status = (error as { status?: number } | null)?.status
+
+  if (status === 404 || isGraphqlNotFound(error)) {
+    return NextResponse.json({ error: "Not found on GitHub" }, { status: 404 })
+  }
+  if (status === 403 || status === 429) {
+    return NextResponse.json({ error: "GitHub rate limit exceeded, please try again later" }, { status: 429 })
+  }
+  return NextResponse.json({ error: error instanceof Error ? `${message}: ${error.message}` : message }, { status: 502 })
+}
+
+export function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 })
+}
@@ -0,0 +1,309 @@
+import "server-only"
+import { randomUUID } from "crypto"
+import { DEFAULT_EVALUATION_WINDOW, type EvaluationWindow } from "@/lib/evaluation-window"
+import { calculateOpenSourceValue, defaultFetchOptions, type OpenSourceValueData } from "@/lib/github-api"
+import { readJsonFile, writeJsonFile } from "@/lib/json-file-store"
+import {
+  defaultScoringProfile,
+  findScoringProfile,
+  toProfileRef,
+  type ScoringProfile,
+  type ScoringProfileRef,
+} from "@/lib/scoring-profiles"
+import { getSnapshotRepository } from "@/lib/snapshot-store"
+import type { StudentRecord } from "@/lib/student-import"
+
+// Server-side runner that analyzes a cohort of students in the background.
+// Jobs are persisted after every state change and resumed when the server restarts.
+
+export type JobStatus = "queued" | "running" | "paused" | "completed" | "cancelled"
+
+export type StudentJobStatus = "pending" | "running" | "completed" | "failed" | "cancelled"
+
+export type JobAction = "pause" | "resume" | "cancel"
+
+export interface StudentJobItem {
+  student: StudentRecord
+  status: StudentJobStatus
+  snapshotId?: string // full result, kept in the snapshot store rather than in the jobs file
+  totalScore?: number
+  error?: string
+  startedAt?: string
+  finishedAt?: string
+}
+
+export interface BatchJob {
+  id: string
+  name: string
+  status: JobStatus
+  createdAt: string
+  updatedAt: string
+  scoringProfile?: ScoringProfileRef // every student in a cohort is scored with the same profile
+  evaluationWindow?: EvaluationWindow // missing on jobs created before evaluation windows
+  items: StudentJobItem[]
+}
+
+export interface BatchJobProgress {
+  total: number
+  pending: number
+  running: number
+  completed: number
+  failed: number
+  cancelled: number
+  percent: number
+}
+
+// What the API returns: the job plus progress counts
+export interface BatchJobView extends BatchJob {
+  progress: BatchJobProgress
+}
+
+export type BatchJobSummary = Omit<BatchJobView, "items">
+
+// Thrown when an action does not apply to the job's current status
+export class JobStateError extends Error {}
+
+const JOBS_FILE = "batch-jobs"
+
+// Number of students analyzed at the same time across all jobs
+const CONCURRENCY = Math.max(1, Number(process.env.BATCH_JOB_CONCURRENCY) || 3)
+
+interface RunnerState {
+  jobs: Map<string, BatchJob>
+  active: number
+  loaded: Promise<void> | null
+}
+
+// Kept on globalThis so the state survives module reloads in development
+const globalForRunner = globalThis as typeof globalThis & { __batchJobRunner?: RunnerState }
+const runner: RunnerState = (globalForRunner.__batchJobRunner ??= {
+  jobs: new Map(),
+  active: 0,
+  loaded: null,
+})
+
+function persist(): Promise<void> {
+  return writeJsonFile(JOBS_FILE, [...runner.jobs.values()])
+}
+
+// For saves made by the runner itself, where there is no request to report a failure to.
+// The in-memory state stays authoritative and the next save writes it out again.
+function persistInBackground() {
+  persist().catch((error) => console.error("Could not save batch jobs:", error))
+}
+
+// Jobs files written before results moved to the snapshot store embed each full result.
+// Those results were also saved as snapshots, so only the reference to them is kept. Returns whether
+// anything was migrated.
+async function migrateEmbeddedResults(jobs: BatchJob[]): Promise<boolean> {
+  const legacyItems = jobs.flatMap((job) =>
+    job.items
+      .filter((item) => "result" in item)
+      .map((item) => ({ job, item: item as StudentJobItem & { result?: OpenSourceValueData } })),
+  )
+  if (legacyItems.length === 0) return false
+
+  const snapshots = await getSnapshotRepository().list({ kind: "openSourceValue" })
+  legacyItems.forEach(({ job, item }) => {
+    const username = item.student.githubUsername.toLowerCase()
+    const snapshot = snapshots.find((meta) => meta.jobId === job.id && meta.username?.toLowerCase() === username)
+    item.snapshotId = snapshot?.id
+    item.totalScore = item.result?.totalScore
+    delete item.result
+  })
+  return true
+}
+
+// Load persisted jobs once; anything that was mid-run when the server stopped is retried
+function ensureLoaded(): Promise<void> {
+  runner.loaded ??= readJsonFile<BatchJob[]>(JOBS_FILE, []).then(async (jobs) => {
+    const migrated = await migrateEmbeddedResults(jobs)
+    jobs.forEach((job) => {
+      job.items.forEach((item) => {
+        if (item.status === "running") {
+          item.status = "pending"
+          item.startedAt = undefined
+        }
+      })
+      runner.jobs.set(job.id, job)
+    })
+    pump(migrated)
+  })
+  return runner.loaded
+}
+
+function touch(job: BatchJob) {
+  job.updatedAt = new Date().toISOString()
+}
+
+function finishIfDone(job: BatchJob) {
+  const unfinished = job.items.some((item) => item.status === "pending" || item.status === "running")
+  if (!unfinished && (job.status === "running" || job.status === "queued")) {
+    job.status = "completed"
+    touch(job)
+  }
+}
+
+// Oldest runnable job first, so cohorts are processed in the order they were submitted
+function nextPendingItem(): { job: BatchJob; item: StudentJobItem } | null {
+  const runnable = [...runner.jobs.values()]
+    .filter((job) => job.status === "queued" || job.status === "running")
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+  for (const job of runnable) {
+    const item = job.items.find((candidate) => candidate.status === "pending")
+    if (item) return { job, item }
+  }
+  return null
+}
+
+async function runItem(job: BatchJob, item: StudentJobItem) {
+  try {
+    const profile = findScoringProfile(job.scoringProfile?.id) ?? defaultScoringProfile()
+    const result = await calculateOpenSourceValue(
+      item.student.githubUsername,
+      defaultFetchOptions(),
+      profile,
+      job.evaluationWindow ?? DEFAULT_EVALUATION_WINDOW,
+    )
+    if (item.status === "running") {
+      // Only marked completed once the result is stored, so a failed save shows up as a failed student
+      const snapshot = await getSnapshotRepository().save("openSourceValue", result, { jobId: job.id })
+      if (item.status === "running") {
+        item.status = "completed"
+        item.snapshotId = snapshot.id
+        item.totalScore = result.totalScore
+      }
+    }
+  } catch (error) {
+    if (item.status === "running") {
+      item.status = "failed"
+      item.error = error instanceof Error ? error.message : "Unknown error"
+    }
+  } finally {
+    item.finishedAt = new Date().toISOString()
+    runner.active--
+    touch(job)
+    finishIfDone(job)
+    pump(true)
+  }
+}
+
+// Start pending items until the concurrency limit is reached. Saves the jobs when an item was started
+// or the caller already changed them without saving.
+function pump(changed = false) {
+  let started = 0
+  while (runner.active < CONCURRENCY) {
+    const next = nextPendingItem()
+    if (!next) break
+
+    const { job, item } = next
+    runner.active++
+    job.status = "running"
+    item.status = "running"
+    item.startedAt = new Date().toISOString()
+    touch(job)
+    started++
+    runItem(job, item).catch((error) => console.error(`Batch job ${job.id} failed to run a student:`, error))
+  }
+
+  if (started > 0 || changed) {
+    persistInBackground()
+  }
+}
+
+function summarizeProgress(job: BatchJob): BatchJobProgress {
+  const count = (status: StudentJobStatus) => job.items.filter((item) => item.status === status).length
+  const total = job.items.length
+  const completed = count("completed")
+  const failed = count("failed")
+  const cancelled = count("cancelled")
+
+  return {
+    total,
+    pending: count("pending"),
+    running: count("running"),
+    completed,
+    failed,
+    cancelled,
+    percent: total > 0 ? Math.round(((completed + failed + cancelled) / total) * 100) : 100,
+  }
+}
+
+export function toJobView(job: BatchJob): BatchJobView {
+  return {
+    ...job,
+    progress: summarizeProgress(job),
+  }
+}
+
+export function toJobSummary(job: BatchJob): BatchJobSummary {
+  const { items, ...summary } = toJobView(job)
+  return summary
+}
+
+export async function createJob(
+  name: string,
+  students: StudentRecord[],
+  profile: ScoringProfile = defaultScoringProfile(),
+  evaluationWindow: EvaluationWindow = DEFAULT_EVALUATION_WINDOW,
+): Promise<BatchJob> {
+  await ensureLoaded()
+
+  const now = new Date().toISOString()
+  const job: BatchJob = {
+    id: randomUUID(),
+    name,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    scoringProfile: toProfileRef(profile),
+    evaluationWindow,
+    items: students.map((student) => ({ student, status: "pending" })),
+  }
+
+  runner.jobs.set(job.id, job)
+  await persist()
+  pump()
+  return job
+}
+
+export async function listJobs(): Promise<BatchJob[]> {
+  await ensureLoaded()
+  return [...runner.jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getJob(id: string): Promise<BatchJob | null> {
+  await ensureLoaded()
+  return runner.jobs.get(id) ?? null
+}
+
+// Pausing lets in-flight students finish but starts no new ones.
+// Cancelling also discards the results of students still in flight.
+export async function updateJob(id: string, action: JobAction): Promise<BatchJob | null> {
+  await ensureLoaded()
+  const job = runner.jobs.get(id)
+  if (!job) return null
+
+  if (action === "pause" && (job.status === "queued" || job.status === "running")) {
+    job.status = "paused"
+  } else if (action === "resume" && job.status === "paused") {
+    job.status = "queued"
+    // Students still in flight when the job was paused may have been the last ones
+    finishIfDone(job)
+  } else if (action === "cancel" && job.status !== "completed" && job.status !== "cancelled") {
+    job.status = "cancelled"
+    job.items.forEach((item) => {
+      if (item.status === "pending" || item.status === "running") {
+        item.status = "cancelled"
+      }
+    })
+  } else {
+    throw new JobStateError(`Cannot ${action} a job that is ${job.status}`)
+  }
+
+  touch(job)
+  await persist()
+  pump()
+  return job
+}
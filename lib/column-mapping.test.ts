@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { detectColumnMapping, headerSignature, resolveColumnMapping } from "@/lib/column-mapping"
+import type { ParsedSheet } from "@/lib/student-import"
+
+function sheet(headers: string[], rows: string[][] = []): ParsedSheet {
+  return { headers, rows }
+}
+
+describe("detectColumnMapping", () => {
+  it("matches header spellings regardless of case and punctuation", () => {
+    expect(detectColumnMapping(sheet(["Full Name", "GitHub_ID", "Roll No.", "E-mail"]))).toEqual({
+      name: 0,
+      githubUsername: 1,
+      studentId: 2,
+      email: 3,
+    })
+  })
+
+  it("prefers the more specific alias when several headers match", () => {
+    expect(detectColumnMapping(sheet(["Username", "GitHub Username"])).githubUsername).toBe(1)
+  })
+
+  it("does not map one column to two fields", () => {
+    // "year" is an alias of batch; graduationYear only takes its own spellings
+    const mapping = detectColumnMapping(sheet(["GitHub", "Year"]))
+    expect(mapping).toEqual({ githubUsername: 0, batch: 1 })
+  })
+
+  it("finds the username column by its profile URLs when no header matches", () => {
+    const mapping = detectColumnMapping(
+      sheet(
+        ["Student", "Profile"],
+        [
+          ["Ada", "https://github.com/ada"],
+          ["Grace", "https://github.com/grace"],
+        ],
+      ),
+    )
+    expect(mapping.githubUsername).toBe(1)
+  })
+
+  it("leaves the username unmapped when nothing looks like one", () => {
+    expect(detectColumnMapping(sheet(["Notes"], [["hello"]])).githubUsername).toBeUndefined()
+  })
+})
+
+describe("headerSignature", () => {
+  it("is the same for headers that only differ in formatting", () => {
+    expect(headerSignature(["GitHub ID", "Name"])).toBe(headerSignature(["github_id", "NAME"]))
+  })
+})
+
+describe("resolveColumnMapping", () => {
+  it("falls back to detection outside the browser", () => {
+    expect(resolveColumnMapping(sheet(["GitHub"]))).toEqual({ mapping: { githubUsername: 0 }, remembered: false })
+  })
+})
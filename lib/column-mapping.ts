@@ -0,0 +1,138 @@
+import type { ParsedSheet } from "@/lib/student-import"
+
+export type StudentField =
+  | "githubUsername"
+  | "name"
+  | "email"
+  | "studentId"
+  | "department"
+  | "batch"
+  | "graduationYear"
+
+// Source column index for each student field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<StudentField, number>>
+
+export const STUDENT_FIELDS: { field: StudentField; label: string; required: boolean }[] = [
+  { field: "githubUsername", label: "GitHub Username", required: true },
+  { field: "name", label: "Name", required: false },
+  { field: "email", label: "Email", required: false },
+  { field: "studentId", label: "Student ID", required: false },
+  { field: "department", label: "Department", required: false },
+  { field: "batch", label: "Batch", required: false },
+  { field: "graduationYear", label: "Graduation Year", required: false },
+]
+
+// Header spellings seen in department sheets, compared after normalizeHeader()
+const HEADER_ALIASES: Record<StudentField, string[]> = {
+  githubUsername: [
+    "githubusername",
+    "github",
+    "githubid",
+    "githubhandle",
+    "githublogin",
+    "githubprofile",
+    "githuburl",
+    "githublink",
+    "githubprofileurl",
+    "username",
+    "login",
+  ],
+  name: ["name", "fullname", "studentname", "candidatename"],
+  email: ["email", "emailid", "emailaddress", "mail", "studentemail", "collegeemail"],
+  studentId: ["studentid", "rollno", "rollnumber", "roll", "enrollmentno", "enrollmentnumber", "registrationno", "regno", "usn", "prn", "id"],
+  department: ["department", "dept", "branch", "program", "programme", "course"],
+  batch: ["batch", "year", "section", "class", "cohort"],
+  graduationYear: ["graduationyear", "gradyear", "passoutyear", "passingyear", "yearofpassing", "yearofgraduation"],
+}
+
+const STORAGE_KEY_PREFIX = "column-mapping:"
+
+// Lowercase and strip everything but letters and digits, so "GitHub ID" and "github_id" match
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+// Identifies a sheet layout by its headers, so the same department template maps the same way
+export function headerSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).join("|")
+}
+
+// Index of the column whose values mostly look like GitHub profile URLs
+function findProfileUrlColumn(sheet: ParsedSheet): number {
+  const sampleRows = sheet.rows.slice(0, 20)
+  if (sampleRows.length === 0) return -1
+
+  return sheet.headers.findIndex((_, column) => {
+    const matches = sampleRows.filter((row) => /github\.com\//i.test(row[column] ?? "")).length
+    return matches / sampleRows.length >= 0.5
+  })
+}
+
+// Guess a mapping from header names, falling back to content sniffing for the username column
+export function detectColumnMapping(sheet: ParsedSheet): ColumnMapping {
+  const normalizedHeaders = sheet.headers.map(normalizeHeader)
+  const mapping: ColumnMapping = {}
+  const usedColumns = new Set<number>()
+
+  for (const { field } of STUDENT_FIELDS) {
+    // Earlier aliases are more specific, so try them in order
+    for (const alias of HEADER_ALIASES[field]) {
+      const column = normalizedHeaders.findIndex((header, index) => header === alias && !usedColumns.has(index))
+      if (column !== -1) {
+        mapping[field] = column
+        usedColumns.add(column)
+        break
+      }
+    }
+  }
+
+  if (mapping.githubUsername === undefined) {
+    const profileColumn = findProfileUrlColumn(sheet)
+    if (profileColumn !== -1) {
+      mapping.githubUsername = profileColumn
+    }
+  }
+
+  return mapping
+}
+
+function isValidMapping(mapping: ColumnMapping, columnCount: number): boolean {
+  return Object.values(mapping).every(
+    (column) => typeof column === "number" && Number.isInteger(column) && column >= 0 && column < columnCount,
+  )
+}
+
+// Mapping previously confirmed for this header signature, if any
+export function loadSavedMapping(sheet: ParsedSheet): ColumnMapping | null {
+  if (typeof window === "undefined") return null
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY_PREFIX + headerSignature(sheet.headers))
+    if (!stored) return null
+
+    const mapping = JSON.parse(stored) as ColumnMapping
+    return isValidMapping(mapping, sheet.headers.length) ? mapping : null
+  } catch (error) {
+    console.warn("Could not load saved column mapping:", error)
+    return null
+  }
+}
+
+export function saveMapping(sheet: ParsedSheet, mapping: ColumnMapping): void {
+  if (typeof window === "undefined") return
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY_PREFIX + headerSignature(sheet.headers), JSON.stringify(mapping))
+  } catch (error) {
+    console.warn("Could not save column mapping:", error)
+  }
+}
+
+// Saved mapping for this layout when one exists, otherwise a detected one
+export function resolveColumnMapping(sheet: ParsedSheet): { mapping: ColumnMapping; remembered: boolean } {
+  const saved = loadSavedMapping(sheet)
+  if (saved) {
+    return { mapping: saved, remembered: true }
+  }
+  return { mapping: detectColumnMapping(sheet), remembered: false }
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest"
+import {
+  activityTimeline,
+  candidateKey,
+  candidateMetrics,
+  comparisonParams,
+  languageMix,
+  parseComparedUsernames,
+  parseComparison,
+  radarData,
+  scoreComponents,
+  type RadarAxisKey,
+} from "@/lib/comparison"
+import type { OpenSourceValueData, UserActivityData } from "@/lib/github-api"
+import type { IntegrityReport } from "@/lib/integrity"
+
+function repository(name: string, contributorScore: number, isOpenSource: boolean, source?: "owned" | "fork" | "external") {
+  return { name, fullName: `octocat/${name}`, contributorScore, isOpenSource, url: `https://github.com/octocat/${name}`, source }
+}
+
+const value: OpenSourceValueData = {
+  username: "octocat",
+  totalScore: 42,
+  repositories: [
+    repository("app", 20, true, "owned"),
+    repository("legacy", 5, true), // snapshot from before repositories had a source
+    repository("fork", 8, true, "fork"),
+    repository("upstream", 12, true, "external"),
+    repository("private-notes", 30, false, "owned"),
+  ],
+}
+
+function activity(monthly: UserActivityData["monthly"], engagement: Partial<UserActivityData["engagement"]> = {}): UserActivityData {
+  return {
+    username: "octocat",
+    profile: { login: "octocat", avatar_url: "", html_url: "", createdAt: "2020-01-01T00:00:00Z" },
+    engagement: {
+      followers: 0,
+      following: 0,
+      starredRepos: 0,
+      publicRepos: 0,
+      starsReceived: 0,
+      forksReceived: 0,
+      ...engagement,
+    },
+    calendar: { totalContributions: 0, days: [] },
+    yearly: [],
+    monthly,
+    topRepositories: [],
+    languages: [],
+  }
+}
+
+function month(name: string, commits: number, pullRequests = 0, issues = 0, reviews = 0) {
+  return { month: name, commits, pullRequests, issues, reviews }
+}
+
+describe("parseComparedUsernames", () => {
+  it("splits on commas and spaces and drops @ signs and case-insensitive duplicates", () => {
+    expect(parseComparedUsernames("octocat, @hubot  Octocat,,monalisa")).toEqual(["octocat", "hubot", "monalisa"])
+  })
+
+  it("is empty without a value", () => {
+    expect(parseComparedUsernames(null)).toEqual([])
+    expect(parseComparedUsernames(" , ")).toEqual([])
+  })
+
+  it("round-trips through the share link parameters", () => {
+    const params = comparisonParams(["octocat", "hubot"], "strict-oss")
+    expect(params.toString()).toBe("users=octocat%2Chubot&profile=strict-oss&decay=step")
+    expect(parseComparedUsernames(params.get("users"))).toEqual(["octocat", "hubot"])
+  })
+})
+
+describe("parseComparison", () => {
+  const evaluationWindow = { start: "2023-07-01", end: "2024-06-30", decay: "exponential" as const, halfLifeDays: 60 }
+
+  it("reads the candidates, profile and evaluation window back from a share link", () => {
+    expect(parseComparison(comparisonParams(["octocat", "hubot"], "strict-oss", evaluationWindow))).toEqual({
+      usernames: ["octocat", "hubot"],
+      profileId: "strict-oss",
+      evaluationWindow,
+    })
+  })
+
+  it("drops usernames GitHub would reject and keeps at most five", () => {
+    const params = new URLSearchParams({ users: "octocat,-bad-,../admin,a,b,c,d,e" })
+    expect(parseComparison(params).usernames).toEqual(["octocat", "a", "b", "c", "d"])
+  })
+
+  it("falls back to the defaults for an unknown profile or an invalid window", () => {
+    const params = new URLSearchParams({ users: "octocat,hubot", profile: "nope", start: "2024-13-01" })
+    expect(parseComparison(params)).toMatchObject({
+      profileId: "placement-default",
+      evaluationWindow: { start: null, end: null, decay: "step" },
+    })
+  })
+})
+
+describe("scoreComponents", () => {
+  it("adds up open source repository points by how each repository was found", () => {
+    expect(scoreComponents(value)).toEqual({
+      total: 42,
+      bySource: { owned: 25, fork: 8, external: 12 },
+      openSourceRepos: 4,
+      integrityFlags: 0,
+      integrityPenalty: 0,
+    })
+  })
+
+  it("reports the integrity flags and penalty", () => {
+    const integrity = {
+      flags: [{ key: "tinyCommits", label: "Tiny commits", severity: "warning", detail: "" }],
+      penalty: 0.1,
+    } as IntegrityReport
+    expect(scoreComponents({ ...value, integrity })).toMatchObject({ integrityFlags: 1, integrityPenalty: 0.1 })
+  })
+})
+
+describe("candidateMetrics", () => {
+  it("totals the last 12 months and weights forks twice in reach", () => {
+    const metrics = candidateMetrics(
+      value,
+      activity([month("2024-01", 10, 2, 1, 3), month("2024-02", 5, 1, 0, 2)], { starsReceived: 7, forksReceived: 3 }),
+    )
+    expect(metrics).toEqual({ openSourceValue: 42, commits: 15, pullRequests: 3, issues: 1, reviews: 5, reach: 13 })
+  })
+
+  it("counts missing data as zero", () => {
+    expect(candidateMetrics()).toEqual({ openSourceValue: 0, commits: 0, pullRequests: 0, issues: 0, reviews: 0, reach: 0 })
+  })
+})
+
+describe("radarData", () => {
+  const metrics = (overrides: Partial<Record<RadarAxisKey, number>>): Record<RadarAxisKey, number> => ({
+    ...candidateMetrics(),
+    ...overrides,
+  })
+
+  it("scales each axis against the strongest candidate on it", () => {
+    const data = radarData([metrics({ commits: 200, reviews: 3 }), metrics({ commits: 50, reviews: 9 })])
+    expect(data.find((point) => point.axis === "Commits")).toEqual({ axis: "Commits", candidate0: 100, candidate1: 25 })
+    expect(data.find((point) => point.axis === "Reviews")).toEqual({ axis: "Reviews", candidate0: 33, candidate1: 100 })
+  })
+
+  it("puts everyone at zero on an axis nobody scores on", () => {
+    const data = radarData([metrics({}), metrics({})])
+    expect(data).toHaveLength(6)
+    expect(data[0]).toEqual({ axis: "Open source value", candidate0: 0, candidate1: 0 })
+  })
+})
+
+describe("languageMix", () => {
+  it("keeps the largest languages and groups the rest as Other", () => {
+    const languages = [
+      { name: "TypeScript", color: "#3178c6", bytes: 600 },
+      { name: "Go", color: "#00ADD8", bytes: 200 },
+      { name: "Shell", color: "#89e051", bytes: 120 },
+      { name: "Makefile", color: "#427819", bytes: 80 },
+    ]
+    expect(languageMix(languages, 2)).toEqual([
+      { name: "TypeScript", color: "#3178c6", percent: 60 },
+      { name: "Go", color: "#00ADD8", percent: 20 },
+      { name: "Other", color: null, percent: 20 },
+    ])
+  })
+
+  it("is empty without code", () => {
+    expect(languageMix([])).toEqual([])
+  })
+})
+
+describe("activityTimeline", () => {
+  it("merges the candidates' months in order and leaves gaps for missing activity", () => {
+    const timeline = activityTimeline([
+      activity([month("2024-02", 1, 1, 1, 1), month("2024-01", 3)]),
+      undefined,
+      activity([month("2024-03", 2)]),
+    ])
+    expect(timeline).toEqual([
+      { month: "2024-01", [candidateKey(0)]: 3 },
+      { month: "2024-02", [candidateKey(0)]: 4 },
+      { month: "2024-03", [candidateKey(2)]: 2 },
+    ])
+  })
+})
@@ -0,0 +1,162 @@
+import {
+  DEFAULT_EVALUATION_WINDOW,
+  evaluationWindowParams,
+  parseEvaluationWindow,
+  type EvaluationWindow,
+} from "@/lib/evaluation-window"
+import type { OpenSourceValueData, RepositorySource, UserActivityData } from "@/lib/github-api"
+import { DEFAULT_SCORING_PROFILE_ID, findScoringProfile } from "@/lib/scoring-profiles"
+import { isValidGithubUsername } from "@/lib/student-validation"
+
+// Side-by-side comparison of shortlisted candidates. Each candidate's open source value and GitHub
+// activity are reduced to numbers that can be laid out in columns and overlaid on one radar chart.
+
+export const MIN_COMPARED = 2
+export const MAX_COMPARED = 5
+
+// Usernames from a share link's `users` parameter or the form, separated by commas or spaces, without duplicates
+export function parseComparedUsernames(value: string | null): string[] {
+  const seen = new Set<string>()
+  return (value ?? "")
+    .split(/[\s,]+/)
+    .map((username) => username.trim().replace(/^@/, ""))
+    .filter((username) => {
+      const key = username.toLowerCase()
+      if (!username || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+export function comparisonParams(
+  usernames: string[],
+  profileId: string,
+  evaluationWindow: EvaluationWindow = DEFAULT_EVALUATION_WINDOW,
+): URLSearchParams {
+  return new URLSearchParams({
+    users: usernames.join(","),
+    profile: profileId,
+    ...Object.fromEntries(evaluationWindowParams(evaluationWindow)),
+  })
+}
+
+// What a share link compares. Links can be edited by hand, so invalid usernames are dropped and an
+// unknown profile or window falls back to the default.
+export function parseComparison(params: URLSearchParams): {
+  usernames: string[]
+  profileId: string
+  evaluationWindow: EvaluationWindow
+} {
+  return {
+    usernames: parseComparedUsernames(params.get("users")).filter(isValidGithubUsername).slice(0, MAX_COMPARED),
+    profileId: findScoringProfile(params.get("profile"))?.id ?? DEFAULT_SCORING_PROFILE_ID,
+    evaluationWindow: parseEvaluationWindow(params) ?? DEFAULT_EVALUATION_WINDOW,
+  }
+}
+
+// Where a candidate's open source value comes from
+export interface ScoreComponents {
+  total: number
+  bySource: Record<RepositorySource, number> // points from the open source repositories found each way
+  openSourceRepos: number
+  integrityFlags: number
+  integrityPenalty: number // share taken off the total (0-1)
+}
+
+export function scoreComponents(value: OpenSourceValueData): ScoreComponents {
+  const bySource: Record<RepositorySource, number> = { owned: 0, fork: 0, external: 0 }
+  const openSource = value.repositories.filter((repo) => repo.isOpenSource)
+  openSource.forEach((repo) => {
+    bySource[repo.source ?? "owned"] += repo.contributorScore
+  })
+  return {
+    total: value.totalScore,
+    bySource,
+    openSourceRepos: openSource.length,
+    integrityFlags: value.integrity?.flags.length ?? 0,
+    integrityPenalty: value.integrity?.penalty ?? 0,
+  }
+}
+
+export type RadarAxisKey = "openSourceValue" | "commits" | "pullRequests" | "issues" | "reviews" | "reach"
+
+export const RADAR_AXES: Record<RadarAxisKey, string> = {
+  openSourceValue: "Open source value",
+  commits: "Commits",
+  pullRequests: "Pull requests",
+  issues: "Issues",
+  reviews: "Reviews",
+  reach: "Reach",
+}
+
+// Raw values behind the radar axes; activity covers the last 12 months, reach is stars + 2 × forks received
+export function candidateMetrics(value?: OpenSourceValueData, activity?: UserActivityData): Record<RadarAxisKey, number> {
+  const lastYear = (key: "commits" | "pullRequests" | "issues" | "reviews") =>
+    activity?.monthly.reduce((sum, month) => sum + month[key], 0) ?? 0
+  return {
+    openSourceValue: value?.totalScore ?? 0,
+    commits: lastYear("commits"),
+    pullRequests: lastYear("pullRequests"),
+    issues: lastYear("issues"),
+    reviews: lastYear("reviews"),
+    reach: activity ? activity.engagement.starsReceived + 2 * activity.engagement.forksReceived : 0,
+  }
+}
+
+// Chart data keys are positional, since a username could clash with a key like "month"
+export function candidateKey(index: number): string {
+  return `candidate${index}`
+}
+
+// One point per axis with a value per candidate. Each axis is scaled 0-100 against the strongest candidate
+// on it, so the shapes compare the candidates with each other rather than with an absolute bar.
+export function radarData(candidates: Record<RadarAxisKey, number>[]): ({ axis: string } & Record<string, number | string>)[] {
+  return (Object.keys(RADAR_AXES) as RadarAxisKey[]).map((key) => {
+    const best = Math.max(0, ...candidates.map((metrics) => metrics[key]))
+    return {
+      axis: RADAR_AXES[key],
+      ...Object.fromEntries(
+        candidates.map((metrics, index) => [candidateKey(index), best > 0 ? Math.round((metrics[key] / best) * 100) : 0]),
+      ),
+    }
+  })
+}
+
+export interface LanguageShare {
+  name: string
+  color: string | null
+  percent: number
+}
+
+// The largest languages by bytes of code, with the rest grouped as "Other"
+export function languageMix(languages: UserActivityData["languages"], top = 5): LanguageShare[] {
+  const total = languages.reduce((sum, language) => sum + language.bytes, 0)
+  if (total === 0) return []
+
+  const shares = languages.slice(0, top).map((language) => ({
+    name: language.name,
+    color: language.color,
+    percent: (language.bytes / total) * 100,
+  }))
+  const other = languages.slice(top).reduce((sum, language) => sum + language.bytes, 0)
+  if (other > 0) shares.push({ name: "Other", color: null, percent: (other / total) * 100 })
+  return shares
+}
+
+// Total contributions per month (YYYY-MM) with a value per candidate, for an overlaid timeline.
+// Candidates whose activity could not be fetched are left as gaps.
+export function activityTimeline(
+  activities: (UserActivityData | undefined)[],
+): ({ month: string } & Record<string, number | string>)[] {
+  const months = new Map<string, Record<string, number>>()
+  activities.forEach((activity, index) => {
+    activity?.monthly.forEach((month) => {
+      const entry = months.get(month.month) ?? {}
+      entry[candidateKey(index)] = month.commits + month.pullRequests + month.issues + month.reviews
+      months.set(month.month, entry)
+    })
+  })
+  return [...months.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, totals]) => ({ month, ...totals }))
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/lib/github-client", () => ({ octokit: {} }))
+
+import { buildDimensions, type ImpactInputs, type RepositoryReach } from "@/lib/contributor-impact"
+import { findScoringProfile } from "@/lib/scoring-profiles"
+
+const weights = findScoringProfile("placement-default")!.impact
+
+const NOTHING: ImpactInputs = {
+  commits: 0,
+  mergedPRs: 0,
+  unmergedPRs: 0,
+  resolutionDays: [],
+  repositories: new Map(),
+}
+
+function repositories(entries: Record<string, RepositoryReach>): Map<string, RepositoryReach> {
+  return new Map(Object.entries(entries))
+}
+
+function dimensions(inputs: Partial<ImpactInputs>) {
+  return Object.fromEntries(
+    buildDimensions("octocat", { ...NOTHING, ...inputs }, weights).map((dimension) => [dimension.key, dimension]),
+  )
+}
+
+describe("buildDimensions", () => {
+  it("scores nothing without activity", () => {
+    const result = buildDimensions("octocat", NOTHING, weights)
+
+    expect(result.map((dimension) => [dimension.key, dimension.score, dimension.points])).toEqual([
+      ["commits", 0, 0],
+      ["prAcceptance", 0, 0],
+      ["issueResolution", 0, 0],
+      ["influence", 0, 0],
+      ["diversity", 0, 0],
+    ])
+    expect(result.find((dimension) => dimension.key === "prAcceptance")!.valueLabel).toBe("No closed PRs")
+  })
+
+  it("counts commits on a log scale up to 1000", () => {
+    expect(dimensions({ commits: 9 }).commits.score).toBe(33.3)
+    expect(dimensions({ commits: 1000 }).commits.score).toBe(100)
+    expect(dimensions({ commits: 50_000 }).commits.score).toBe(100)
+  })
+
+  it("scales the acceptance rate down with fewer than 10 decided pull requests", () => {
+    const few = dimensions({ mergedPRs: 4, unmergedPRs: 1 }).prAcceptance
+    expect(few).toMatchObject({ value: 0.8, score: 40, valueLabel: "80% of 5 closed PRs merged" })
+    expect(few.explanation).toContain("scaled down")
+
+    const enough = dimensions({ mergedPRs: 8, unmergedPRs: 2 }).prAcceptance
+    expect(enough.score).toBe(80)
+    expect(enough.explanation).not.toContain("scaled down")
+  })
+
+  it("scores the median resolution time from a day down to nothing at 90 days", () => {
+    expect(dimensions({ resolutionDays: [0, 1, 3, 90] }).issueResolution).toMatchObject({
+      value: 2,
+      valueLabel: "2 days median",
+      score: 75.6,
+    })
+    expect(dimensions({ resolutionDays: [0] }).issueResolution.score).toBe(100)
+    expect(dimensions({ resolutionDays: [90, 200] }).issueResolution.score).toBe(0)
+  })
+
+  it("explains a missing resolution time", () => {
+    expect(dimensions({ mergedPRs: 3 }).issueResolution).toMatchObject({
+      score: 0,
+      valueLabel: "No issues resolved",
+      explanation: "No merged pull request of the user closes an issue.",
+    })
+  })
+
+  it("credits a repository's reach by how much the user contributed to it", () => {
+    const influence = dimensions({
+      repositories: repositories({
+        "acme/widgets": { owner: "acme", stars: 100, forks: 50, contributions: 5 }, // half of 200
+        "acme/gadgets": { owner: "acme", stars: 999, forks: 0, contributions: 20 },
+      }),
+    }).influence
+
+    expect(influence.value).toBe(1099)
+    expect(influence.score).toBe(60.8)
+  })
+
+  it("gives owner-only repositories half of the diversity score at most", () => {
+    const ownRepositories = Object.fromEntries(
+      Array.from({ length: 12 }, (_, index) => [
+        `OctoCat/project-${index}`,
+        { owner: "OctoCat", stars: 0, forks: 0, contributions: 1 },
+      ]),
+    )
+
+    expect(dimensions({ repositories: repositories(ownRepositories) }).diversity).toMatchObject({
+      valueLabel: "12 repositories, 0 other owners",
+      score: 50,
+    })
+  })
+
+  it("splits diversity between repositories and the other owners", () => {
+    const diversity = dimensions({
+      repositories: repositories({
+        "octocat/dotfiles": { owner: "octocat", stars: 0, forks: 0, contributions: 1 },
+        "acme/widgets": { owner: "acme", stars: 0, forks: 0, contributions: 1 },
+        "globex/api": { owner: "globex", stars: 0, forks: 0, contributions: 1 },
+        "initech/tps": { owner: "initech", stars: 0, forks: 0, contributions: 1 },
+      }),
+    }).diversity
+
+    // 4 of 10 repositories and 3 of 5 other owners
+    expect(diversity.score).toBe(50)
+    expect(diversity.points).toBe(50 * weights.diversity)
+  })
+
+  it("weights each dimension by the scoring profile", () => {
+    const result = buildDimensions("octocat", { ...NOTHING, commits: 1000, mergedPRs: 10 }, weights)
+    expect(result.map((dimension) => dimension.weight)).toEqual(Object.values(weights))
+    expect(result.reduce((sum, dimension) => sum + dimension.points, 0)).toBe(
+      100 * weights.commits + 100 * weights.prAcceptance,
+    )
+  })
+})
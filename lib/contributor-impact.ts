@@ -0,0 +1,296 @@
+import "server-only"
+import { octokit } from "@/lib/github-client"
+import {
+  defaultScoringProfile,
+  toProfileRef,
+  type ImpactWeights,
+  type ScoringProfile,
+  type ScoringProfileRef,
+} from "@/lib/scoring-profiles"
+
+// Contributor Impact Score (CIS): one 0-100 measure of a user's influence across all of their
+// public activity, combining the five dimensions described in the README. Each dimension is
+// scored 0-100 on its own and weighted by the scoring profile.
+
+export type ImpactDimensionKey = keyof ImpactWeights
+
+export interface ImpactDimension {
+  key: ImpactDimensionKey
+  label: string
+  value: number // what was measured, e.g. a commit count or an acceptance rate
+  valueLabel: string
+  score: number // 0-100
+  weight: number // share of the CIS, from the scoring profile
+  points: number // score × weight
+  explanation: string
+}
+
+export interface ContributorImpactScore {
+  username: string
+  score: number // 0-100, the sum of the dimension points
+  dimensions: ImpactDimension[]
+  repositoryCount: number // public repositories the user contributed to
+  scoringProfile: ScoringProfileRef
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Where each dimension reaches its full score
+const COMMITS_FOR_FULL_SCORE = 1000 // on a log scale, so the first commits count the most
+const DECIDED_PRS_FOR_FULL_CONFIDENCE = 10 // fewer merged or rejected PRs scale the acceptance rate down
+const RESOLUTION_DAYS_FOR_ZERO = 90 // issues resolved in a day score 100, in 90 days or more 0
+const CONTRIBUTIONS_FOR_FULL_REACH = 10 // contributions needed to be credited with a repository's full reach
+const REACH_FOR_FULL_SCORE = 100_000 // stars + 2 × forks, on a log scale
+const REPOSITORIES_FOR_FULL_DIVERSITY = 10
+const OWNERS_FOR_FULL_DIVERSITY = 5
+
+const REPOSITORY_CONTRIBUTIONS = `
+  repository { nameWithOwner isPrivate stargazerCount forkCount owner { login } }
+  contributions { totalCount }
+`
+
+const OVERVIEW_QUERY = `
+  query ($login: String!, $mergedPullRequests: String!, $unmergedPullRequests: String!) {
+    user(login: $login) {
+      login
+      contributionsCollection { contributionYears }
+    }
+    mergedPullRequests: search(type: ISSUE, query: $mergedPullRequests, first: 100) {
+      issueCount
+      nodes {
+        ... on PullRequest {
+          mergedAt
+          closingIssuesReferences(first: 10) { nodes { createdAt } }
+        }
+      }
+    }
+    unmergedPullRequests: search(type: ISSUE, query: $unmergedPullRequests) { issueCount }
+  }
+`
+
+export interface RepositoryReach {
+  owner: string
+  stars: number
+  forks: number
+  contributions: number
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, value))
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Commit totals and contributed repositories for every contribution year, fetched together through aliases
+async function fetchYearlyContributions(username: string, years: number[]) {
+  const byRepository = (field: string) => `${field}(maxRepositories: 100) { ${REPOSITORY_CONTRIBUTIONS} }`
+  const yearFields = years.map(
+    (year) => `y${year}: contributionsCollection(from: "${year}-01-01T00:00:00Z", to: "${year}-12-31T23:59:59Z") {
+      totalCommitContributions
+      ${byRepository("commitContributionsByRepository")}
+      ${byRepository("pullRequestContributionsByRepository")}
+      ${byRepository("issueContributionsByRepository")}
+    }`,
+  )
+
+  const data: any = await octokit.graphql(`query($login: String!) { user(login: $login) { ${yearFields.join("\n")} } }`, {
+    login: username,
+  })
+
+  let commits = 0
+  const repositories = new Map<string, RepositoryReach>()
+  for (const year of years) {
+    const collection = data.user[`y${year}`]
+    commits += collection.totalCommitContributions
+
+    const entries = [
+      ...collection.commitContributionsByRepository,
+      ...collection.pullRequestContributionsByRepository,
+      ...collection.issueContributionsByRepository,
+    ]
+    for (const { repository, contributions } of entries) {
+      if (repository.isPrivate) continue
+      const entry = repositories.get(repository.nameWithOwner) ?? {
+        owner: repository.owner.login,
+        stars: repository.stargazerCount,
+        forks: repository.forkCount,
+        contributions: 0,
+      }
+      entry.contributions += contributions.totalCount
+      repositories.set(repository.nameWithOwner, entry)
+    }
+  }
+
+  return { commits, repositories }
+}
+
+// What the dimensions are measured from, gathered by calculateContributorImpact
+export interface ImpactInputs {
+  commits: number
+  mergedPRs: number
+  unmergedPRs: number
+  resolutionDays: number[] // per issue closed by one of the user's merged PRs
+  repositories: Map<string, RepositoryReach> // public repositories contributed to, by name with owner
+}
+
+export function buildDimensions(username: string, inputs: ImpactInputs, weights: ImpactWeights): ImpactDimension[] {
+  const { commits, mergedPRs, unmergedPRs, resolutionDays, repositories } = inputs
+
+  // 1. Commit count
+  const commitScore = clamp((Math.log10(1 + commits) / Math.log10(1 + COMMITS_FOR_FULL_SCORE)) * 100)
+
+  // 2. PR acceptance rate, trusted fully once enough PRs have been merged or rejected
+  const decidedPRs = mergedPRs + unmergedPRs
+  const acceptanceRate = decidedPRs > 0 ? mergedPRs / decidedPRs : 0
+  const confidence = Math.min(1, decidedPRs / DECIDED_PRS_FOR_FULL_CONFIDENCE)
+  const acceptanceScore = clamp(acceptanceRate * confidence * 100)
+
+  // 3. Issue resolution time: from an issue being opened to the user's PR that closed it being merged
+  const medianDays = resolutionDays.length > 0 ? median(resolutionDays) : null
+  const resolutionScore =
+    medianDays === null
+      ? 0
+      : clamp((1 - Math.log(1 + medianDays) / Math.log(1 + RESOLUTION_DAYS_FOR_ZERO)) * 100)
+
+  // 4. Repository influence: reach of every contributed repository, credited by how much the user contributed
+  const reach = [...repositories.values()].reduce(
+    (sum, repository) =>
+      sum +
+      (repository.stars + 2 * repository.forks) * Math.min(1, repository.contributions / CONTRIBUTIONS_FOR_FULL_REACH),
+    0,
+  )
+  const influenceScore = clamp((Math.log10(1 + reach) / Math.log10(1 + REACH_FOR_FULL_SCORE)) * 100)
+
+  // 5. Contribution diversity across repositories and the people or organizations that own them
+  const otherOwners = new Set(
+    [...repositories.values()]
+      .map((repository) => repository.owner.toLowerCase())
+      .filter((owner) => owner !== username.toLowerCase()),
+  )
+  const diversityScore = clamp(
+    (Math.min(repositories.size, REPOSITORIES_FOR_FULL_DIVERSITY) / REPOSITORIES_FOR_FULL_DIVERSITY) * 50 +
+      (Math.min(otherOwners.size, OWNERS_FOR_FULL_DIVERSITY) / OWNERS_FOR_FULL_DIVERSITY) * 50,
+  )
+
+  const dimension = (
+    key: ImpactDimensionKey,
+    label: string,
+    value: number,
+    valueLabel: string,
+    score: number,
+    explanation: string,
+  ): ImpactDimension => ({
+    key,
+    label,
+    value,
+    valueLabel,
+    score: round(score),
+    weight: weights[key],
+    points: round(score * weights[key]),
+    explanation,
+  })
+
+  return [
+    dimension(
+      "commits",
+      "Commit Count",
+      commits,
+      `${commits.toLocaleString()} commits`,
+      commitScore,
+      `Commits across all public contribution years, on a log scale that reaches 100 at ${COMMITS_FOR_FULL_SCORE.toLocaleString()} commits.`,
+    ),
+    dimension(
+      "prAcceptance",
+      "PR Acceptance Rate",
+      acceptanceRate,
+      decidedPRs > 0 ? `${Math.round(acceptanceRate * 100)}% of ${decidedPRs} closed PRs merged` : "No closed PRs",
+      acceptanceScore,
+      decidedPRs >= DECIDED_PRS_FOR_FULL_CONFIDENCE
+        ? "Share of the user's closed pull requests that were merged."
+        : `Share of the user's closed pull requests that were merged, scaled down because fewer than ${DECIDED_PRS_FOR_FULL_CONFIDENCE} have been merged or rejected.`,
+    ),
+    dimension(
+      "issueResolution",
+      "Issue Resolution Time",
+      medianDays ?? 0,
+      medianDays === null ? "No issues resolved" : `${round(medianDays)} days median`,
+      resolutionScore,
+      medianDays === null
+        ? "No merged pull request of the user closes an issue."
+        : `Median time from an issue being opened to the user's pull request that closed it being merged. A day scores 100, ${RESOLUTION_DAYS_FOR_ZERO} days or more scores 0.`,
+    ),
+    dimension(
+      "influence",
+      "Repository Influence",
+      reach,
+      `${Math.round(reach).toLocaleString()} weighted reach`,
+      influenceScore,
+      `Stars plus twice the forks of every repository contributed to. A repository counts fully after ${CONTRIBUTIONS_FOR_FULL_REACH} contributions, less before.`,
+    ),
+    dimension(
+      "diversity",
+      "Contribution Diversity",
+      repositories.size,
+      `${repositories.size} repositories, ${otherOwners.size} other owners`,
+      diversityScore,
+      `Half for the number of repositories contributed to (full at ${REPOSITORIES_FOR_FULL_DIVERSITY}), half for the other users and organizations owning them (full at ${OWNERS_FOR_FULL_DIVERSITY}).`,
+    ),
+  ]
+}
+
+// Compute the CIS from the GraphQL API, which requires a GitHub token
+export async function calculateContributorImpact(
+  username: string,
+  profile: ScoringProfile = defaultScoringProfile(),
+): Promise<ContributorImpactScore> {
+  const overview: any = await octokit.graphql(OVERVIEW_QUERY, {
+    login: username,
+    mergedPullRequests: `is:pr is:merged author:${username} sort:created-desc`,
+    unmergedPullRequests: `is:pr is:closed is:unmerged author:${username}`,
+  })
+
+  const user = overview.user
+  if (!user) {
+    throw Object.assign(new Error(`GitHub user ${username} was not found`), { status: 404 })
+  }
+
+  const { commits, repositories } = await fetchYearlyContributions(
+    username,
+    user.contributionsCollection.contributionYears,
+  )
+
+  // Sampled from the 100 most recent merged PRs
+  const resolutionDays: number[] = (overview.mergedPullRequests.nodes ?? []).flatMap((pr: any) =>
+    (pr?.closingIssuesReferences?.nodes ?? []).map((issue: any) =>
+      Math.max(0, (new Date(pr.mergedAt).getTime() - new Date(issue.createdAt).getTime()) / DAY_MS),
+    ),
+  )
+
+  const dimensions = buildDimensions(
+    username,
+    {
+      commits,
+      mergedPRs: overview.mergedPullRequests.issueCount,
+      unmergedPRs: overview.unmergedPullRequests.issueCount,
+      resolutionDays,
+      repositories,
+    },
+    profile.impact,
+  )
+
+  return {
+    username: user.login,
+    score: Math.round(clamp(dimensions.reduce((sum, dimension) => sum + dimension.points, 0))),
+    dimensions,
+    repositoryCount: repositories.size,
+    scoringProfile: toProfileRef(profile),
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_EVALUATION_WINDOW,
+  dateQualifier,
+  decayWeight,
+  decayedShare,
+  evaluationRange,
+  evaluationWindowParams,
+  isInRange,
+  parseEvaluationWindow,
+  type EvaluationWindow,
+} from "@/lib/evaluation-window"
+
+const NOW = Date.parse("2024-06-30T12:00:00Z")
+
+function window(overrides: Partial<EvaluationWindow>): EvaluationWindow {
+  return { ...DEFAULT_EVALUATION_WINDOW, ...overrides }
+}
+
+describe("parseEvaluationWindow", () => {
+  it("defaults to all history with the step function", () => {
+    expect(parseEvaluationWindow(new URLSearchParams())).toEqual(DEFAULT_EVALUATION_WINDOW)
+  })
+
+  it("reads the dates, decay and half-life", () => {
+    expect(
+      parseEvaluationWindow(new URLSearchParams("start=2023-07-01&end=2024-06-30&decay=exponential&halfLife=30")),
+    ).toEqual({ start: "2023-07-01", end: "2024-06-30", decay: "exponential", halfLifeDays: 30 })
+  })
+
+  it.each([
+    ["start=2024-13-01", "an impossible date"],
+    ["start=01/07/2023", "a date in another format"],
+    ["start=2024-06-30&end=2024-01-01", "a start after the end"],
+    ["decay=cubic", "an unknown decay function"],
+    ["decay=toString", "an inherited property name as the decay function"],
+    ["halfLife=0", "a zero half-life"],
+    ["halfLife=1.5", "a fractional half-life"],
+  ])("rejects %s (%s)", (query) => {
+    expect(parseEvaluationWindow(new URLSearchParams(query))).toBeNull()
+  })
+
+  it("round-trips through the query parameters", () => {
+    const evaluationWindow = window({ start: "2023-07-01", decay: "exponential", halfLifeDays: 45 })
+    expect(parseEvaluationWindow(evaluationWindowParams(evaluationWindow))).toEqual(evaluationWindow)
+  })
+})
+
+describe("evaluationRange", () => {
+  it("covers whole days from the start to the end of the last day", () => {
+    expect(evaluationRange(window({ start: "2024-01-01", end: "2024-01-31" }))).toEqual({
+      since: new Date("2024-01-01T00:00:00.000Z"),
+      until: new Date("2024-01-31T23:59:59.999Z"),
+    })
+  })
+
+  it("starts no earlier than the history cutoff", () => {
+    const cutoff = new Date("2024-03-01T00:00:00Z")
+    expect(evaluationRange(window({ start: "2024-01-01" }), cutoff).since).toEqual(cutoff)
+    expect(evaluationRange(window({ start: "2024-04-01" }), cutoff).since).toEqual(new Date("2024-04-01T00:00:00Z"))
+    expect(evaluationRange(DEFAULT_EVALUATION_WINDOW, cutoff)).toEqual({ since: cutoff, until: null })
+  })
+})
+
+describe("dateQualifier", () => {
+  it("builds GitHub search date qualifiers", () => {
+    const range = evaluationRange(window({ start: "2024-01-01", end: "2024-01-31" }))
+    expect(dateQualifier("created", range)).toBe(" created:2024-01-01..2024-01-31")
+    expect(dateQualifier("merged", { since: range.since, until: null })).toBe(" merged:>=2024-01-01")
+    expect(dateQualifier("closed", { since: null, until: range.until })).toBe(" closed:<=2024-01-31")
+    expect(dateQualifier("created", { since: null, until: null })).toBe("")
+  })
+})
+
+describe("isInRange", () => {
+  it("includes both ends", () => {
+    const range = evaluationRange(window({ start: "2024-01-01", end: "2024-01-31" }))
+    expect(isInRange("2024-01-01T00:00:00Z", range)).toBe(true)
+    expect(isInRange("2024-01-31T23:59:59Z", range)).toBe(true)
+    expect(isInRange("2023-12-31T23:59:59Z", range)).toBe(false)
+    expect(isInRange("2024-02-01T00:00:00Z", range)).toBe(false)
+  })
+})
+
+describe("decayWeight", () => {
+  const unbounded = { since: null, until: null }
+
+  it("counts the last 3 months fully with the step function", () => {
+    expect(decayWeight("2024-04-01T00:00:00Z", DEFAULT_EVALUATION_WINDOW, unbounded, NOW)).toBe(1)
+    expect(decayWeight("2024-03-29T00:00:00Z", DEFAULT_EVALUATION_WINDOW, unbounded, NOW)).toBe(0)
+  })
+
+  it("measures recency from the end of the window rather than today", () => {
+    const range = evaluationRange(window({ end: "2023-12-31" }))
+    expect(decayWeight("2023-11-15T00:00:00Z", DEFAULT_EVALUATION_WINDOW, range, NOW)).toBe(1)
+  })
+
+  it("falls linearly from the end of the window to its start", () => {
+    const linear = window({ decay: "linear", start: "2024-01-01", end: "2024-01-11" })
+    const range = evaluationRange(linear)
+    expect(decayWeight(range.until!, linear, range, NOW)).toBe(1)
+    expect(decayWeight(range.since!, linear, range, NOW)).toBeCloseTo(0, 3)
+    expect(decayWeight("2024-01-06T12:00:00Z", linear, range, NOW)).toBeCloseTo(0.5, 2)
+  })
+
+  it("halves with every half-life", () => {
+    const exponential = window({ decay: "exponential", halfLifeDays: 30 })
+    const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000)
+    expect(decayWeight(daysAgo(30), exponential, unbounded, NOW)).toBeCloseTo(0.5)
+    expect(decayWeight(daysAgo(60), exponential, unbounded, NOW)).toBeCloseTo(0.25)
+  })
+})
+
+describe("decayedShare", () => {
+  const range = evaluationRange(window({ end: "2024-06-30" }))
+
+  it("is the share of recent commits with the step function", () => {
+    const dates = ["2024-06-01T00:00:00Z", "2024-05-01T00:00:00Z", "2024-01-01T00:00:00Z", "2023-06-01T00:00:00Z"]
+    expect(decayedShare(dates, 4, DEFAULT_EVALUATION_WINDOW, range)).toBe(50)
+  })
+
+  it("gives commits beyond the fetched dates the weight of the oldest one fetched", () => {
+    expect(decayedShare(["2024-06-01T00:00:00Z"], 4, DEFAULT_EVALUATION_WINDOW, range)).toBe(100)
+    expect(decayedShare(["2024-06-01T00:00:00Z", "2023-01-01T00:00:00Z"], 4, DEFAULT_EVALUATION_WINDOW, range)).toBe(25)
+  })
+
+  it("is 0 without commits", () => {
+    expect(decayedShare([], 0, DEFAULT_EVALUATION_WINDOW, range)).toBe(0)
+  })
+})
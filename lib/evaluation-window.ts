@@ -0,0 +1,145 @@
+// The period a score covers, and how much older work inside it counts towards recency. Work outside the
+// window is left out; inside it, the decay function turns each commit's age into a weight between 0 and 1.
+// "step" keeps the original rule: commits in the last 3 months of the window count, older ones do not.
+
+export type DecayFunction = "step" | "linear" | "exponential"
+
+export interface EvaluationWindow {
+  start: string | null // YYYY-MM-DD, null for all history
+  end: string | null // YYYY-MM-DD, inclusive; null for today
+  decay: DecayFunction
+  halfLifeDays: number // exponential decay: a commit this many days before the end counts half
+}
+
+export const DEFAULT_EVALUATION_WINDOW: EvaluationWindow = { start: null, end: null, decay: "step", halfLifeDays: 90 }
+
+export const DECAY_FUNCTIONS: Record<DecayFunction, { label: string; description: string }> = {
+  step: { label: "3-month recency", description: "Commits in the last 3 months of the window count fully, older ones not at all." },
+  linear: { label: "Linear decay", description: "A commit's weight falls evenly from 1 at the end of the window to 0 at its start." },
+  exponential: { label: "Exponential decay", description: "A commit's weight halves with every half-life before the end of the window." },
+}
+
+// Dates the window resolves to; null means unbounded (all history, or up to now)
+export interface DateRange {
+  since: Date | null
+  until: Date | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RECENT_MONTHS = 3
+const LINEAR_DAYS = 365 // linear decay span when the window has no start
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return null
+  if (!DATE_PATTERN.test(value)) return undefined
+  const date = new Date(`${value}T00:00:00Z`)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+// The window named by a request's start, end, decay and halfLife parameters, or null when they are invalid
+export function parseEvaluationWindow(params: URLSearchParams): EvaluationWindow | null {
+  const start = parseDate(params.get("start"))
+  const end = parseDate(params.get("end"))
+  if (start === undefined || end === undefined || (start && end && start > end)) return null
+
+  const decay = params.get("decay") ?? DEFAULT_EVALUATION_WINDOW.decay
+  if (!Object.hasOwn(DECAY_FUNCTIONS, decay)) return null
+
+  const halfLife = params.get("halfLife")
+  const halfLifeDays = halfLife ? Number(halfLife) : DEFAULT_EVALUATION_WINDOW.halfLifeDays
+  if (!Number.isInteger(halfLifeDays) || halfLifeDays <= 0) return null
+
+  return {
+    start: params.get("start") || null,
+    end: params.get("end") || null,
+    decay: decay as DecayFunction,
+    halfLifeDays,
+  }
+}
+
+export function evaluationWindowParams(evaluationWindow: EvaluationWindow): URLSearchParams {
+  const params = new URLSearchParams()
+  if (evaluationWindow.start) params.set("start", evaluationWindow.start)
+  if (evaluationWindow.end) params.set("end", evaluationWindow.end)
+  params.set("decay", evaluationWindow.decay)
+  if (evaluationWindow.decay === "exponential") params.set("halfLife", String(evaluationWindow.halfLifeDays))
+  return params
+}
+
+// The window's dates, starting no earlier than `cutoff` (the fetch options' history limit)
+export function evaluationRange(evaluationWindow: EvaluationWindow, cutoff: Date | null = null): DateRange {
+  const start = parseDate(evaluationWindow.start) ?? null
+  const end = parseDate(evaluationWindow.end) ?? null
+  return {
+    since: start && cutoff ? (start > cutoff ? start : cutoff) : (start ?? cutoff),
+    until: end ? new Date(end.getTime() + DAY_MS - 1) : null,
+  }
+}
+
+// Search qualifier limiting issues and pull requests to those created (or merged, or closed) in the range,
+// or commits to those authored in it
+export function dateQualifier(field: "created" | "merged" | "closed" | "author-date", range: DateRange): string {
+  const since = range.since?.toISOString().slice(0, 10)
+  const until = range.until?.toISOString().slice(0, 10)
+  if (since && until) return ` ${field}:${since}..${until}`
+  if (since) return ` ${field}:>=${since}`
+  if (until) return ` ${field}:<=${until}`
+  return ""
+}
+
+export function isInRange(date: string | Date, range: DateRange): boolean {
+  const time = new Date(date).getTime()
+  return (!range.since || time >= range.since.getTime()) && (!range.until || time <= range.until.getTime())
+}
+
+// Weight between 0 and 1 for work done on `date`
+export function decayWeight(date: string | Date, evaluationWindow: EvaluationWindow, range: DateRange, now = Date.now()): number {
+  const end = range.until?.getTime() ?? now
+  const ageDays = Math.max(0, end - new Date(date).getTime()) / DAY_MS
+
+  switch (evaluationWindow.decay) {
+    case "step": {
+      const recentFrom = new Date(end)
+      recentFrom.setMonth(recentFrom.getMonth() - RECENT_MONTHS)
+      return new Date(date).getTime() >= recentFrom.getTime() ? 1 : 0
+    }
+    case "linear": {
+      const spanDays = range.since ? Math.max(1, (end - range.since.getTime()) / DAY_MS) : LINEAR_DAYS
+      return Math.max(0, 1 - ageDays / spanDays)
+    }
+    case "exponential":
+      return Math.pow(0.5, ageDays / evaluationWindow.halfLifeDays)
+  }
+}
+
+// Recency as a percentage: the mean weight of `total` commits, of which `dates` are the newest.
+// Commits beyond the fetched dates are given the weight of the oldest one fetched.
+export function decayedShare(dates: string[], total: number, evaluationWindow: EvaluationWindow, range: DateRange): number {
+  if (total === 0 || dates.length === 0) return 0
+  const weights = dates.map((date) => decayWeight(date, evaluationWindow, range))
+  const oldest = dates.reduce((min, date) => (date < min ? date : min))
+  const missing = Math.max(0, total - dates.length) * decayWeight(oldest, evaluationWindow, range)
+  return (Math.min(total, weights.reduce((sum, weight) => sum + weight, 0) + missing) / total) * 100
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { dateStyle: "medium", timeZone: "UTC" })
+}
+
+export function describeEvaluationWindow(evaluationWindow: EvaluationWindow): string {
+  const period =
+    evaluationWindow.start && evaluationWindow.end
+      ? `${formatDate(evaluationWindow.start)} – ${formatDate(evaluationWindow.end)}`
+      : evaluationWindow.start
+        ? `Since ${formatDate(evaluationWindow.start)}`
+        : evaluationWindow.end
+          ? `Until ${formatDate(evaluationWindow.end)}`
+          : "All history"
+  const decay =
+    evaluationWindow.decay === "exponential"
+      ? `exponential decay, ${evaluationWindow.halfLifeDays}-day half-life`
+      : DECAY_FUNCTIONS[evaluationWindow.decay].label.toLowerCase()
+  return `${period}, ${decay}`
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+const octokit = vi.hoisted(() => ({
+  repos: { get: vi.fn(), compareCommitsWithBasehead: vi.fn() },
+  search: { issuesAndPullRequests: vi.fn() },
+}))
+vi.mock("@/lib/github-client", () => ({ octokit }))
+
+import { analyzeFork, forkStatus } from "@/lib/fork-analysis"
+
+const ALL_TIME = { since: null, until: null }
+
+function mockFork({ parent = true, aheadBy = 0, behindBy = 0, compared = true, upstreamPRs = 0 } = {}) {
+  octokit.repos.get.mockResolvedValue({
+    data: {
+      owner: { login: "octocat" },
+      default_branch: "main",
+      parent: parent
+        ? { full_name: "acme/widgets", name: "widgets", owner: { login: "acme" }, default_branch: "trunk" }
+        : undefined,
+    },
+  })
+  if (compared) {
+    octokit.repos.compareCommitsWithBasehead.mockResolvedValue({ data: { ahead_by: aheadBy, behind_by: behindBy } })
+  } else {
+    octokit.repos.compareCommitsWithBasehead.mockRejectedValue(Object.assign(new Error("No common ancestor"), { status: 404 }))
+  }
+  octokit.search.issuesAndPullRequests.mockResolvedValue({ data: { total_count: upstreamPRs } })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe("forkStatus", () => {
+  it("credits the upstream project once the user sent it pull requests", () => {
+    expect(forkStatus(12, 1)).toBe("contributed-upstream")
+    expect(forkStatus(0, 3)).toBe("contributed-upstream")
+    expect(forkStatus(null, 2)).toBe("contributed-upstream")
+  })
+
+  it("treats a fork with commits of its own as a personal project", () => {
+    expect(forkStatus(5, 0)).toBe("diverged")
+  })
+
+  it("counts a fork without commits or pull requests for nothing", () => {
+    expect(forkStatus(0, 0)).toBe("untouched")
+  })
+
+  it("leaves a fork that could not be compared to be scored on its own", () => {
+    expect(forkStatus(null, 0)).toBe("uncompared")
+  })
+})
+
+describe("analyzeFork", () => {
+  it("compares the fork's default branch with the upstream's", async () => {
+    mockFork({ aheadBy: 3, behindBy: 40 })
+
+    await expect(analyzeFork("octocat", "octocat", "widgets", ALL_TIME)).resolves.toEqual({
+      upstream: "acme/widgets",
+      status: "diverged",
+      aheadBy: 3,
+      behindBy: 40,
+      upstreamPRs: 0,
+    })
+    expect(octokit.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(
+      expect.objectContaining({ owner: "acme", repo: "widgets", basehead: "acme:trunk...octocat:main" }),
+    )
+  })
+
+  it("searches upstream pull requests within the evaluation window", async () => {
+    mockFork({ upstreamPRs: 2 })
+
+    const fork = await analyzeFork("octocat", "octocat", "widgets", { since: new Date("2024-01-01T00:00:00Z"), until: null })
+
+    expect(fork?.status).toBe("contributed-upstream")
+    expect(octokit.search.issuesAndPullRequests).toHaveBeenCalledWith(
+      expect.objectContaining({ q: "type:pr repo:acme/widgets author:octocat created:>=2024-01-01" }),
+    )
+  })
+
+  it("keeps going when the histories cannot be compared", async () => {
+    mockFork({ compared: false })
+
+    await expect(analyzeFork("octocat", "octocat", "widgets", ALL_TIME)).resolves.toMatchObject({
+      status: "uncompared",
+      aheadBy: null,
+      behindBy: null,
+    })
+  })
+
+  it("is null for a repository without a parent", async () => {
+    mockFork({ parent: false })
+
+    await expect(analyzeFork("octocat", "octocat", "widgets", ALL_TIME)).resolves.toBeNull()
+    expect(octokit.search.issuesAndPullRequests).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,63 @@
+import "server-only"
+import { dateQualifier, type DateRange } from "@/lib/evaluation-window"
+import { octokit } from "@/lib/github-client"
+
+// Decides what a fork under the user's account says about their work. Forks are compared with their
+// upstream repository: a fork the user sent pull requests from counts towards the upstream project,
+// a fork with its own commits is a personal project, and a fork nobody touched counts for nothing.
+// When the histories cannot be compared, the fork is "uncompared" and scored on its own activity.
+
+export type ForkStatus = "contributed-upstream" | "diverged" | "untouched" | "uncompared"
+
+export interface ForkAnalysis {
+  upstream: string // owner/name of the parent repository
+  status: ForkStatus
+  aheadBy: number | null // commits on the fork's default branch that upstream lacks; null when they could not be compared
+  behindBy: number | null
+  upstreamPRs: number // pull requests the user opened in the upstream repository
+}
+
+// Pull requests upstream outweigh the fork's own commits; without a comparison nothing is known of those
+export function forkStatus(aheadBy: number | null, upstreamPRs: number): ForkStatus {
+  if (upstreamPRs > 0) return "contributed-upstream"
+  if (aheadBy === null) return "uncompared"
+  return aheadBy > 0 ? "diverged" : "untouched"
+}
+
+// Null when the repository is not a fork or its parent is no longer available
+export async function analyzeFork(
+  username: string,
+  owner: string,
+  repo: string,
+  range: DateRange,
+): Promise<ForkAnalysis | null> {
+  const { data: fork } = await octokit.repos.get({ owner, repo })
+  const parent = fork.parent
+  if (!parent) return null
+
+  const upstream = parent.full_name
+
+  let aheadBy: number | null = null
+  let behindBy: number | null = null
+  try {
+    const { data: comparison } = await octokit.repos.compareCommitsWithBasehead({
+      owner: parent.owner.login,
+      repo: parent.name,
+      basehead: `${parent.owner.login}:${parent.default_branch}...${fork.owner.login}:${fork.default_branch}`,
+      per_page: 1,
+    })
+    aheadBy = comparison.ahead_by
+    behindBy = comparison.behind_by
+  } catch (error) {
+    // Histories can no longer be compared, e.g. after a force push upstream
+    console.warn(`Could not compare ${owner}/${repo} with ${upstream}:`, error)
+  }
+
+  const { data: pullRequests } = await octokit.search.issuesAndPullRequests({
+    q: `type:pr repo:${upstream} author:${username}` + dateQualifier("created", range),
+    per_page: 1,
+  })
+  const upstreamPRs = pullRequests.total_count
+
+  return { upstream, status: forkStatus(aheadBy, upstreamPRs), aheadBy, behindBy, upstreamPRs }
+}
@@ -1,10 +1,122 @@
-import { Octokit } from "@octokit/rest"
+import "server-only"
+import { octokit } from "@/lib/github-client"
+import {
+  fetchContributionInputsGraphql,
+  fetchExternalContributionsGraphql,
+  fetchIssuesClosedByUserGraphql,
+  fetchUserRepositoriesGraphql,
+} from "@/lib/github-graphql"
+import {
+  dateQualifier,
+  decayedShare,
+  DEFAULT_EVALUATION_WINDOW,
+  evaluationRange,
+  isInRange,
+  type DateRange,
+  type EvaluationWindow,
+} from "@/lib/evaluation-window"
+import { analyzeFork, type ForkAnalysis } from "@/lib/fork-analysis"
+import { analyzeIntegrity, type IntegrityReport, type IntegrityScope } from "@/lib/integrity"
+import { classifyOpenSource, type OpenSourceClassification } from "@/lib/open-source-classifier"
+import {
+  calculateBusFactor,
+  calculateRepoHealth,
+  healthInputsFromRepoData,
+  medianFirstResponseDays,
+  type RepoHealthInputs,
+  type RepoHealthSignals,
+} from "@/lib/repo-health"
+import { buildScoreBreakdown, contributorScoreFromBreakdown, type ScoreComponent } from "@/lib/score-breakdown"
+import {
+  defaultScoringProfile,
+  toProfileRef,
+  type ScoringProfile,
+  type ScoringProfileRef,
+} from "@/lib/scoring-profiles"
 
-// Create an Octokit instance
-// In a real app, you would use an auth token from environment variables
-const octokit = new Octokit({
-  auth: process.env.NEXT_PUBLIC_GITHUB_TOKEN, // Optional: For higher rate limits
-})
+// How much history list endpoints (contributors, issues, PRs, commits, repos) are paged through.
+// "all" walks back to the start of the repository, "recent" stops at items older than `days`.
+// `maxPages` is a ceiling per list (100 items per page) so huge repositories stay within rate limits.
+export interface FetchOptions {
+  history: "all" | "recent"
+  days: number
+  maxPages: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function positiveInteger(value: string | null | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Server defaults, configurable with GITHUB_FETCH_HISTORY, GITHUB_FETCH_DAYS and GITHUB_FETCH_MAX_PAGES
+export function defaultFetchOptions(): FetchOptions {
+  return {
+    history: process.env.GITHUB_FETCH_HISTORY === "recent" ? "recent" : "all",
+    days: positiveInteger(process.env.GITHUB_FETCH_DAYS, 365),
+    maxPages: positiveInteger(process.env.GITHUB_FETCH_MAX_PAGES, 10),
+  }
+}
+
+// Overrides from a request's query string (?history=recent&days=90&maxPages=5) on top of the defaults
+export function parseFetchOptions(params: URLSearchParams): FetchOptions {
+  const defaults = defaultFetchOptions()
+  const history = params.get("history")
+  return {
+    history: history === "all" || history === "recent" ? history : defaults.history,
+    days: positiveInteger(params.get("days"), defaults.days),
+    maxPages: positiveInteger(params.get("maxPages"), defaults.maxPages),
+  }
+}
+
+// Midnight UTC `days` days ago. Whole days keep the request URLs stable, so the response cache can reuse them.
+function daysAgoStartOfDay(days: number): Date {
+  return new Date(Math.floor(Date.now() / DAY_MS - days) * DAY_MS)
+}
+
+// Failures no fallback can work around: the repository or user is missing, or the rate limit is spent
+function isUnrecoverable(error: unknown): boolean {
+  const status = (error as { status?: number } | null)?.status
+  return status === 404 || status === 403 || status === 429
+}
+
+function historyCutoff(options: FetchOptions): Date | null {
+  return options.history === "recent" ? daysAgoStartOfDay(options.days) : null
+}
+
+const PAGE_SIZE = 100
+
+// Forks compared with their upstream at once while calculating a user's open source value
+const FORK_ANALYSIS_CONCURRENCY = 3
+
+// Collect items from a paginated list endpoint, newest first, until the list ends,
+// the cutoff (the history cutoff unless given) is passed, judged by `getDate`, or the page ceiling is reached.
+async function collectPages<T>(
+  pages: AsyncIterable<{ data: T[] }>,
+  options: FetchOptions,
+  getDate?: (item: T) => string | null | undefined,
+  cutoff: Date | null = historyCutoff(options),
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = []
+  let pageCount = 0
+
+  for await (const page of pages) {
+    pageCount++
+    for (const item of page.data) {
+      const date = cutoff && getDate ? getDate(item) : null
+      if (cutoff && date && new Date(date) < cutoff) {
+        return { items, truncated: false }
+      }
+      items.push(item)
+    }
+    if (pageCount >= options.maxPages) {
+      return { items, truncated: page.data.length === PAGE_SIZE }
+    }
+  }
+
+  return { items, truncated: false }
+}
 
 export interface RepoData {
   repo: any
@@ -13,11 +125,6 @@ export interface RepoData {
     all: any[]
     open: any[]
     closed: any[]
-    monthlyTrends: {
-      month: string
-      opened: number
-      closed: number
-    }[]
     avgResolutionTime: number
   }
   pullRequests: {
@@ -25,13 +132,16 @@ export interface RepoData {
     open: any[]
     closed: any[]
     merged: any[]
-    monthlyTrends: {
-      month: string
-      opened: number
-      merged: number
-    }[]
     avgMergeTime: number
   }
+  // How the lists above were fetched; missing on snapshots taken before pagination
+  coverage?: {
+    history: FetchOptions["history"]
+    since: string | null
+    truncated: boolean // a page ceiling was hit before the history ran out
+  }
+  health?: RepoHealthInputs // missing on snapshots taken before the community health metrics
+  scoringProfile?: ScoringProfileRef // the profile the health score is weighted with; missing on older snapshots
 }
 
 export interface ContributorScoreData {
@@ -57,9 +167,14 @@ export interface ContributorScoreData {
     isMaintainer: boolean
     commitsRank: number
     contributorCount: number
-    recentActivity: number // Activity in the last 3 months (percentage of total activity)
+    recentActivity: number // Decay-weighted share of commits (percentage); by default those in the last 3 months
   }
+  scoreBreakdown?: ScoreComponent[] // missing on snapshots taken before breakdowns existed
   repoHealthScore: number
+  openSourceClassification?: OpenSourceClassification // missing when the repository could not be read, or on older snapshots
+  scoringProfile?: ScoringProfileRef // missing on snapshots taken before scoring profiles existed
+  evaluationWindow?: EvaluationWindow // missing on snapshots taken before evaluation windows existed
+  integrity?: IntegrityReport // missing when the analysis failed; totalScore already includes its penalty
 }
 
 export interface OpenSourceValueData {
@@ -71,50 +186,115 @@ export interface OpenSourceValueData {
     contributorScore: number;
     isOpenSource: boolean;
     url: string;
+    source?: RepositorySource; // missing on snapshots taken before external contributions were searched
+    mergedPRs?: number; // the user's merged PRs, for repositories owned by someone else
+    fork?: ForkAnalysis; // how the user's fork compares with its upstream
+    classification?: OpenSourceClassification; // why the repository counts as open source or not
   }[];
+  scoringProfile?: ScoringProfileRef; // missing on snapshots taken before scoring profiles existed
+  evaluationWindow?: EvaluationWindow; // missing on snapshots taken before evaluation windows existed
+  integrity?: IntegrityReport; // missing when the analysis failed; totalScore already includes its penalty
 }
 
-// Function to check if a repository is open source
-async function isOpenSourceRepo(owner: string, repo: string): Promise<boolean> {
-  try {
-    // Get repository data
-    const repoResponse = await octokit.repos.get({
-      owner,
-      repo,
-    });
-    
-    // First check: If it's private, it's definitely not open source
-    if (repoResponse.data.private) {
-      console.log(`Repository ${owner}/${repo} is private, not open source`);
-      return false;
-    }
-    
-    // If it's public, we'll check further metrics to determine if it's a meaningful open source project
-    
-    const repoData = repoResponse.data;
-    
-    // Get contributors data
-    let numContributors = 0;
-    try {
-      const contributorsResponse = await octokit.repos.listContributors({
-        owner,
-        repo,
-        per_page: 100
-      });
-      numContributors = contributorsResponse.data.length;
-    } catch (error) {
-      console.warn(`Could not fetch contributors for ${owner}/${repo}:`, error);
-      // Continue with the evaluation even if we can't get contributors
-    }
-    
-    // Calculate activity in last 6 months
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-    
-    // Initialize recentActivity
-    let recentActivity = 0;
-    
-    // Try to fetch commit data, but continue if it fails
+export interface ContributionTotals {
+  commits: number;
+  pullRequests: number;
+  issues: number;
+  reviews: number;
+}
+
+export interface UserActivityData {
+  username: string;
+  profile: {
+    login: string;
+    name?: string;
+    avatar_url: string;
+    html_url: string;
+    createdAt: string;
+  };
+  engagement: {
+    followers: number;
+    following: number;
+    starredRepos: number;
+    publicRepos: number;
+    starsReceived: number;
+    forksReceived: number;
+  };
+  calendar: {
+    totalContributions: number;
+    days: { date: string; count: number }[];
+  };
+  yearly: ({ year: number } & ContributionTotals)[];
+  monthly: ({ month: string } & ContributionTotals)[]; // month as YYYY-MM
+  topRepositories: ({ nameWithOwner: string; url: string; total: number } & ContributionTotals)[];
+  // Bytes of code per language in the user's own public repositories (forks excluded), largest first
+  languages: { name: string; color: string | null; bytes: number }[];
+}
+
+// Signals used to decide whether a repository is a meaningful open source project
+export interface OpenSourceFactors {
+  isPrivate: boolean;
+  forks: number;
+  stars: number;
+  contributors: number;
+  license: string | null; // SPDX id, "NOASSERTION" for a licence GitHub could not identify
+  issues: number; // open issues and pull requests
+  recentActivity: number; // commits on the default branch in the last 6 months
+  size: number; // in KB
+}
+
+// A repository owned by the user being evaluated
+export interface UserRepository {
+  owner: string;
+  name: string;
+  isPrivate: boolean;
+  isFork: boolean;
+  createdAt: string;
+}
+
+// How a repository in the open source value was found: owned by the user, through one of their forks
+// (see ForkAnalysis), or an upstream project they sent merged PRs to without a fork under their account
+export type RepositorySource = "owned" | "fork" | "external";
+
+// A repository owned by someone else where the user has merged pull requests
+export interface ExternalContribution {
+  owner: string;
+  name: string;
+  mergedPRs: number;
+}
+
+// Factors read from the repository itself; the contributor count comes from the REST contributors list
+export type RepoFactors = Omit<OpenSourceFactors, "contributors">;
+
+// A user's activity in one repository, together with that repository's health inputs.
+// Gathered through GraphQL when possible, with the REST API as a fallback.
+export interface ContributionDetails {
+  user: ContributorScoreData["userDetails"];
+  isMaintainer: boolean;
+  commits: { total: number; dates: string[] }; // dates of the newest commits in the window, up to the page ceiling
+  pullRequests: { total: number; merged: number };
+  issuesCreated: number;
+  issuesClosedByPRs: number[]; // issue numbers linked from the user's merged PRs ("closes #N")
+  health: Omit<RepoHealthInputs, "busFactor">; // the bus factor comes from the REST contributors list
+}
+
+// REST fallback for the open source factors
+async function fetchOpenSourceFactorsRest(owner: string, repo: string): Promise<RepoFactors> {
+  // Get repository data
+  const repoResponse = await octokit.repos.get({
+    owner,
+    repo,
+  });
+  const repoData = repoResponse.data;
+  
+  // Calculate activity in last 6 months
+  const sixMonthsAgo = daysAgoStartOfDay(182);
+  
+  // Initialize recentActivity
+  let recentActivity = 0;
+  
+  // Try to fetch commit data, but continue if it fails
+  if (!repoData.private) {
     try {
       const commitsResponse = await octokit.repos.listCommits({
         owner,
@@ -127,92 +307,255 @@ async function isOpenSourceRepo(owner: string, repo: string): Promise<boolean> {
       console.warn(`Could not fetch recent commits for ${owner}/${repo}:`, error);
       // We'll continue with recentActivity = 0
     }
+  }
+  
+  return {
+    isPrivate: repoData.private,
+    forks: repoData.forks_count,
+    stars: repoData.stargazers_count,
+    license: repoData.license?.spdx_id ?? null,
+    issues: repoData.open_issues_count,
+    recentActivity,
+    size: repoData.size
+  };
+}
+
+// REST fallback for a user's contribution details
+async function fetchContributionDetailsRest(
+  username: string,
+  owner: string,
+  repo: string,
+  options: FetchOptions,
+  evaluationWindow: EvaluationWindow,
+  range: DateRange
+): Promise<ContributionDetails> {
+  // Fetch repository data, with health inputs over the evaluation window
+  const repoData = await fetchRepoData(owner, repo, options, evaluationWindow);
+  
+  // Get user details
+  const userResponse = await octokit.users.getByUsername({
+    username
+  });
+  
+  // Fetch repository collaborators to check if user is a maintainer
+  let isMaintainer = false;
+  try {
+    const collaboratorsResponse = await octokit.repos.listCollaborators({
+      owner,
+      repo,
+      affiliation: 'direct'
+    });
     
-    // Analyze factors
-    const factors = {
-      forks: repoData.forks_count,
-      stars: repoData.stargazers_count,
-      contributors: numContributors,
-      hasLicense: !!repoData.license,
-      issues: repoData.open_issues_count,
-      recentActivity: recentActivity,
-      size: repoData.size // in KB
-    };
+    const userCollaborator = collaboratorsResponse.data.find(
+      collab => collab.login.toLowerCase() === username.toLowerCase()
+    );
     
-    console.log(`Repository metrics for ${owner}/${repo}:`, factors);
-    
-    // IMPORTANT: Lower the threshold for what's considered open source
-    // Scoring (using revised weights to be more inclusive)
-    let score = 0;
-    score += Math.min(factors.forks, 50) * 0.5;  // max 25 points
-    score += Math.min(factors.stars, 100) * 0.3;  // max 30 points
-    score += Math.min(factors.contributors, 10) * 5;  // max 50 points
-    score += factors.hasLicense ? 20 : 0;
-    score += Math.min(factors.issues, 50) * 0.4;  // max 20 points
-    score += Math.min(factors.recentActivity, 100) * 0.2;  // max 20 points
-    score += Math.min(factors.size / 1000, 10);  // max 10 points (for size in MB)
-    
-    // Public repositories with at least some minimal activity should be considered open source
-    // Lower the threshold from 50 to 20
-    const isOpenSource = score > 35;
-    console.log(`Repository ${owner}/${repo} score: ${score}, isOpenSource: ${isOpenSource}`);
-    
-    return isOpenSource;
+    isMaintainer = !!userCollaborator && userCollaborator.permissions?.push === true;
   } catch (error) {
-    console.error("Error checking if repo is open source:", error);
-    return false;
+    console.warn("Could not check collaborator status, might need higher permissions", error);
   }
+  
+  // Fetch commits by the user
+  let userCommits: any[] = [];
+  try {
+    const commits = await collectPages(
+      octokit.paginate.iterator(octokit.repos.listCommits, {
+        owner,
+        repo,
+        author: username,
+        since: range.since?.toISOString(),
+        until: range.until?.toISOString(),
+        per_page: PAGE_SIZE
+      }),
+      options
+    );
+    
+    userCommits = commits.items;
+    console.log(`Found ${userCommits.length} commits for ${username} in ${owner}/${repo}`);
+  } catch (error) {
+    console.warn(`Could not fetch commits for ${username} in ${owner}/${repo}:`, error);
+  }
+  
+  // Initialize PR and issue stats
+  let totalPRs = 0;
+  let mergedPRs = 0;
+  let issuesCreated = 0;
+  let issuesClosedByPRs: number[] = [];
+  
+  // Check PRs created by the user
+  try {
+    const userPRsResponse = await octokit.search.issuesAndPullRequests({
+      q: `type:pr author:${username} repo:${owner}/${repo}` + dateQualifier("created", range)
+    });
+    totalPRs = userPRsResponse.data.total_count;
+    
+    // Check PRs merged from the user, reading the issues their descriptions close
+    const mergedPRsResponse = await octokit.search.issuesAndPullRequests({
+      q: `type:pr author:${username} repo:${owner}/${repo} is:merged` + dateQualifier("created", range),
+      per_page: PAGE_SIZE
+    });
+    mergedPRs = mergedPRsResponse.data.total_count;
+    issuesClosedByPRs = mergedPRsResponse.data.items.flatMap((pr) => closingReferences(pr.body));
+    
+    console.log(`Found ${totalPRs} PRs (${mergedPRs} merged) for ${username} in ${owner}/${repo}`);
+  } catch (error) {
+    console.warn(`Could not fetch PRs for ${username} in ${owner}/${repo}:`, error);
+  }
+  
+  // Check issues created by the user
+  try {
+    const userIssuesResponse = await octokit.search.issuesAndPullRequests({
+      q: `type:issue author:${username} repo:${owner}/${repo}` + dateQualifier("created", range)
+    });
+    issuesCreated = userIssuesResponse.data.total_count;
+    console.log(`Found ${issuesCreated} issues created by ${username} in ${owner}/${repo}`);
+  } catch (error) {
+    console.warn(`Could not fetch issues for ${username} in ${owner}/${repo}:`, error);
+  }
+  
+  // Commit dates for the decay function
+  const commitDates: string[] = userCommits
+    .map((commit) => commit.commit?.author?.date || commit.commit?.committer?.date)
+    .filter((date): date is string => !!date);
+  
+  return {
+    user: {
+      login: userResponse.data.login,
+      avatar_url: userResponse.data.avatar_url,
+      html_url: userResponse.data.html_url,
+      name: userResponse.data.name || undefined,
+      bio: userResponse.data.bio || undefined
+    },
+    isMaintainer,
+    commits: { total: userCommits.length, dates: commitDates },
+    pullRequests: { total: totalPRs, merged: mergedPRs },
+    issuesCreated,
+    issuesClosedByPRs,
+    health: repoData.health ?? healthInputsFromRepoData(repoData, range)
+  };
 }
 
-// Function to calculate repository health score
-function calculateRepoHealthScore(data: RepoData): number {
-  // Factors to consider:
-  // 1. Ratio of closed to open issues
-  // 2. Average issue resolution time
-  // 3. PR merge frequency
-  // 4. Recent activity
+// GitHub's closing keywords followed by a same-repository reference, e.g. "Fixes #12"
+const CLOSING_REFERENCE = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+#(\d+)\b/gi;
 
-  let score = 0;
-  const totalIssues = data.issues.open.length + data.issues.closed.length;
+function closingReferences(body: string | null | undefined): number[] {
+  return [...(body ?? "").matchAll(CLOSING_REFERENCE)].map((match) => Number(match[1]));
+}
 
-  // Issue resolution ratio (up to 40 points)
-  if (totalIssues > 0) {
-    const resolutionRatio = data.issues.closed.length / totalIssues;
-    score += resolutionRatio * 40;
-  } else {
-    score += 30; // No issues could be good or bad, give benefit of doubt
-  }
+// Issues the user closed themselves (triage), from the repository's issue events, newest first.
+// Paging stops at the start of the window (which is never before the history cutoff).
+async function fetchIssuesClosedByUserRest(
+  username: string,
+  owner: string,
+  repo: string,
+  options: FetchOptions,
+  range: DateRange
+): Promise<number[]> {
+  const events = await collectPages(
+    octokit.paginate.iterator(octokit.issues.listEventsForRepo, { owner, repo, per_page: PAGE_SIZE }),
+    options,
+    (event) => event.created_at,
+    range.since
+  );
+  
+  return events.items
+    .filter((event) =>
+      event.event === "closed" &&
+      isInRange(event.created_at, range) &&
+      event.actor?.login?.toLowerCase() === username.toLowerCase() &&
+      event.issue && !event.issue.pull_request
+    )
+    .map((event) => event.issue!.number);
+}
 
-  // Issue resolution time (up to 30 points)
-  if (data.issues.avgResolutionTime > 0) {
-    // Lower is better, max 30 days considered
-    const resolutionTimeScore = Math.max(0, 30 - Math.min(data.issues.avgResolutionTime, 30));
-    score += (resolutionTimeScore / 30) * 30;
+// Run the integrity analysis without letting a failure (e.g. search rate limits) fail the score
+async function runIntegrityAnalysis(
+  username: string,
+  scope: IntegrityScope,
+  profile: ScoringProfile
+): Promise<IntegrityReport | undefined> {
+  try {
+    return await analyzeIntegrity(username, scope, profile.integrity);
+  } catch (error) {
+    console.warn(`Could not analyze activity integrity for ${username}:`, error);
+    return undefined;
   }
+}
 
-  // PR activity (up to 30 points)
-  const totalPRs = data.pullRequests.all.length;
-  if (totalPRs > 0) {
-    const mergeRatio = data.pullRequests.merged.length / totalPRs;
-    score += mergeRatio * 30;
-  }
+function applyIntegrityPenalty(score: number, integrity: IntegrityReport | undefined): number {
+  return integrity ? Math.round(score * (1 - integrity.penalty)) : score;
+}
 
-  return Math.round(score);
+// Calculate contributor score for a specific user in a repository, with an integrity report
+export async function calculateContributorScore(
+  username: string,
+  owner: string,
+  repo: string,
+  options: FetchOptions = defaultFetchOptions(),
+  profile: ScoringProfile = defaultScoringProfile(),
+  evaluationWindow: EvaluationWindow = DEFAULT_EVALUATION_WINDOW
+): Promise<ContributorScoreData> {
+  const result = await scoreContributor(username, owner, repo, options, profile, evaluationWindow);
+  if (!result.isOpenSource) return result;
+  
+  const range = evaluationRange(evaluationWindow, historyCutoff(options));
+  result.integrity = await runIntegrityAnalysis(username, { repository: { owner, name: repo }, range }, profile);
+  result.totalScore = applyIntegrityPenalty(result.totalScore, result.integrity);
+  return result;
 }
 
-// Calculate contributor score for a specific user in a repository
-export async function calculateContributorScore(username: string, owner: string, repo: string): Promise<ContributorScoreData | null> {
+// Contributor score without the integrity analysis, which the open source value runs once per user
+async function scoreContributor(
+  username: string,
+  owner: string,
+  repo: string,
+  options: FetchOptions,
+  profile: ScoringProfile,
+  evaluationWindow: EvaluationWindow
+): Promise<ContributorScoreData> {
   try {
+    const repository = `${owner}/${repo}`;
+    const range = evaluationRange(evaluationWindow, historyCutoff(options));
+    
+    // Every contributor, for the open source check and the commit rank (GraphQL has no equivalent)
+    let allContributors: any[] = [];
+    try {
+      const contributors = await collectPages(
+        octokit.paginate.iterator(octokit.repos.listContributors, { owner, repo, per_page: PAGE_SIZE }),
+        options
+      );
+      allContributors = contributors.items;
+    } catch (error) {
+      // A missing repository or an exhausted rate limit would only fail every call after this one
+      if (isUnrecoverable(error)) throw error;
+      console.warn(`Could not fetch contributors for ${repository}:`, error);
+      // Continue with the evaluation even if we can't get contributors
+    }
+    
+    // One batched GraphQL query replaces most of the REST calls below; null when unavailable
+    const graphqlInputs = await fetchContributionInputsGraphql(username, owner, repo, options, range);
+    
     // Check if repository is open source
-    const openSource = await isOpenSourceRepo(owner, repo);
+    let factors = graphqlInputs?.factors ?? null;
+    if (!factors) {
+      try {
+        factors = await fetchOpenSourceFactorsRest(owner, repo);
+      } catch (error) {
+        console.error("Error checking if repo is open source:", error);
+      }
+    }
+    const classification = factors
+      ? classifyOpenSource({ ...factors, contributors: allContributors.length }, profile.openSource)
+      : undefined;
+    const openSource = !!classification?.isOpenSource;
     
     // For debugging purposes
-    console.log(`Calculating contributor score for ${username} in ${owner}/${repo}, isOpenSource: ${openSource}`);
+    console.log(`Calculating contributor score for ${username} in ${repository}, isOpenSource: ${openSource}`, classification?.reason);
     
     if (!openSource) {
       return {
         username,
-        repositoryName: `${owner}/${repo}`,
+        repositoryName: repository,
         isOpenSource: false,
         contributorScore: 0,
         totalScore: 0,
@@ -233,170 +576,64 @@ export async function calculateContributorScore(username: string, owner: string,
           contributorCount: 0,
           recentActivity: 0
         },
-        repoHealthScore: 0
+        scoreBreakdown: [],
+        repoHealthScore: 0,
+        openSourceClassification: classification,
+        scoringProfile: toProfileRef(profile),
+        evaluationWindow
       };
     }
     
-    // Fetch repository data
-    const repoData = await fetchRepoData(owner, repo);
-    const repoHealthScore = calculateRepoHealthScore(repoData);
+    const details = graphqlInputs?.details ?? await fetchContributionDetailsRest(username, owner, repo, options, evaluationWindow, range);
     
-    // Get user details
-    const userResponse = await octokit.users.getByUsername({
-      username
-    });
-    
-    // Check if user is the repository owner
-    const isOwner = owner.toLowerCase() === username.toLowerCase();
-    
-    // Fetch repository collaborators to check if user is a maintainer
-    let isMaintainer = false;
+    // Issues closed by the user or by their merged PRs, counting each issue once
+    let closedDirectly: number[] = [];
     try {
-      const collaboratorsResponse = await octokit.repos.listCollaborators({
-        owner,
-        repo,
-        affiliation: 'direct'
-      });
-      
-      const userCollaborator = collaboratorsResponse.data.find(
-        collab => collab.login.toLowerCase() === username.toLowerCase()
-      );
-      
-      isMaintainer = !!userCollaborator && userCollaborator.permissions?.push === true;
+      closedDirectly = await fetchIssuesClosedByUserGraphql(username, owner, repo, range)
+        ?? await fetchIssuesClosedByUserRest(username, owner, repo, options, range);
     } catch (error) {
-      console.warn("Could not check collaborator status, might need higher permissions", error);
+      console.warn(`Could not fetch issue events for ${repository}:`, error);
     }
+    const issuesClosed = new Set([...closedDirectly, ...details.issuesClosedByPRs]).size;
+    const busFactor = calculateBusFactor(allContributors.map((contributor) => contributor.contributions ?? 0));
+    const repoHealthScore = calculateRepoHealth({ ...details.health, busFactor }, profile.repoHealth).score;
     
-    // Fetch commits by the user
-    let userCommits: any[] = [];
-    try {
-      const commitsResponse = await octokit.repos.listCommits({
-        owner,
-        repo,
-        author: username,
-        per_page: 100
-      });
-      
-      userCommits = commitsResponse.data;
-      console.log(`Found ${userCommits.length} commits for ${username} in ${owner}/${repo}`);
-    } catch (error) {
-      console.warn(`Could not fetch commits for ${username} in ${owner}/${repo}:`, error);
-    }
+    // Check if user is the repository owner
+    const isOwner = owner.toLowerCase() === username.toLowerCase();
     
     // Get total commit count for user ranking
-    const allContributors = repoData.contributors;
     const contributorCount = allContributors.length;
     
-    // Find user's rank by commits
+    // Find user's rank by commits (the contributors list covers all history, whatever the window)
     let commitsRank = 0;
     const sortedContributors = [...allContributors].sort((a, b) => b.contributions - a.contributions);
-    const userContributor = sortedContributors.findIndex(c => c.login.toLowerCase() === username.toLowerCase());
+    const userContributor = sortedContributors.findIndex(c => c.login?.toLowerCase() === username.toLowerCase());
     if (userContributor !== -1) {
       commitsRank = userContributor + 1; // Add 1 because array index is 0-based
-    } else if (userCommits.length > 0) {
+    } else if (details.commits.total > 0) {
       // User has commits but not in top contributors
       commitsRank = contributorCount + 1;
     }
     
-    // Initialize PR and issue stats
-    let totalPRs = 0;
-    let mergedPRs = 0;
-    let issuesCreated = 0;
-    
-    // Check PRs created by the user
-    try {
-      const userPRsResponse = await octokit.search.issuesAndPullRequests({
-        q: `type:pr author:${username} repo:${owner}/${repo}`
-      });
-      totalPRs = userPRsResponse.data.total_count;
-      
-      // Check PRs merged from the user
-      const mergedPRsResponse = await octokit.search.issuesAndPullRequests({
-        q: `type:pr author:${username} repo:${owner}/${repo} is:merged`
-      });
-      mergedPRs = mergedPRsResponse.data.total_count;
-      
-      console.log(`Found ${totalPRs} PRs (${mergedPRs} merged) for ${username} in ${owner}/${repo}`);
-    } catch (error) {
-      console.warn(`Could not fetch PRs for ${username} in ${owner}/${repo}:`, error);
-    }
-    
-    // Check issues created by the user
-    try {
-      const userIssuesResponse = await octokit.search.issuesAndPullRequests({
-        q: `type:issue author:${username} repo:${owner}/${repo}`
-      });
-      issuesCreated = userIssuesResponse.data.total_count;
-      console.log(`Found ${issuesCreated} issues created by ${username} in ${owner}/${repo}`);
-    } catch (error) {
-      console.warn(`Could not fetch issues for ${username} in ${owner}/${repo}:`, error);
-    }
-    
-    // Count user's recent activity (last 3 months)
-    const threeMonthsAgo = new Date();
-    threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
-    
-    const recentCommits = userCommits.filter(
-      commit => {
-        const commitDate = commit.commit?.author?.date || commit.commit?.committer?.date;
-        return commitDate ? new Date(commitDate) > threeMonthsAgo : false;
-      }
-    ).length;
-    
-    const recentActivity = userCommits.length > 0 
-      ? (recentCommits / userCommits.length) * 100 
-      : 0;
+    const recentActivity = decayedShare(details.commits.dates, details.commits.total, evaluationWindow, range);
     
     // Compile stats
     const contributionStats = {
-      totalCommits: userCommits.length,
-      totalPRs,
-      mergedPRs,
-      issuesCreated,
-      issuesClosed: 0, // We would need to check each issue, using 0 for now
+      totalCommits: details.commits.total,
+      totalPRs: details.pullRequests.total,
+      mergedPRs: details.pullRequests.merged,
+      issuesCreated: details.issuesCreated,
+      issuesClosed,
       isOwner,
-      isMaintainer,
+      isMaintainer: details.isMaintainer,
       commitsRank,
       contributorCount,
       recentActivity
     };
     
-    // Calculate contributor score (out of 100)
-    let contributorScore = 0;
-    
-    // 1. Commit volume and rank (up to 40 points)
-    if (contributorCount > 0) {
-      // Top contributor gets 40 points, scales down
-      const rankScore = commitsRank === 1 ? 40 : Math.max(0, 40 - ((commitsRank - 1) * (40 / Math.min(contributorCount, 10))));
-      contributorScore += rankScore;
-    }
-    
-    // Give points for any commits (even if not ranked)
-    if (contributionStats.totalCommits > 0 && contributorScore === 0) {
-      contributorScore += Math.min(10, contributionStats.totalCommits);
-    }
-    
-    // 2. PR activity (up to 20 points)
-    if (contributionStats.totalPRs > 0) {
-      const prMergeRate = contributionStats.mergedPRs / contributionStats.totalPRs;
-      contributorScore += Math.min(20, contributionStats.mergedPRs * 2) * prMergeRate;
-    }
-    
-    // 3. Maintainer status (up to 20 points)
-    if (contributionStats.isOwner) {
-      contributorScore += 20;
-    } else if (contributionStats.isMaintainer) {
-      contributorScore += 15;
-    }
-    
-    // 4. Recent activity (up to 20 points)
-    contributorScore += (contributionStats.recentActivity / 100) * 20;
-    
-    // 5. Issue creation (up to 10 points)
-    contributorScore += Math.min(10, contributionStats.issuesCreated);
-    
-    // Ensure score is between 0-100
-    contributorScore = Math.max(0, Math.min(100, Math.round(contributorScore)));
+    // Calculate contributor score (out of 100), keeping every component so the score can be explained
+    const scoreBreakdown = buildScoreBreakdown(contributionStats, profile.contributor, evaluationWindow);
+    const contributorScore = contributorScoreFromBreakdown(scoreBreakdown);
     
     console.log(`Final contributor score for ${username} in ${owner}/${repo}: ${contributorScore}`);
     
@@ -405,27 +642,108 @@ export async function calculateContributorScore(username: string, owner: string,
     
     return {
       username,
-      repositoryName: `${owner}/${repo}`,
+      repositoryName: repository,
       isOpenSource: openSource,
       contributorScore,
       totalScore,
-      userDetails: {
-        login: userResponse.data.login,
-        avatar_url: userResponse.data.avatar_url,
-        html_url: userResponse.data.html_url,
-        name: userResponse.data.name || undefined,
-        bio: userResponse.data.bio || undefined
-      },
+      userDetails: details.user,
       contributionStats,
-      repoHealthScore
+      scoreBreakdown,
+      repoHealthScore,
+      openSourceClassification: classification,
+      scoringProfile: toProfileRef(profile),
+      evaluationWindow
     };
   } catch (error) {
     console.error("Error calculating contributor score:", error);
-    return null;
+    throw error;
   }
 }
 
-export async function fetchRepoData(owner: string, repo: string): Promise<RepoData> {
+// Issues and pull requests sampled for the time to first response
+const RESPONSE_SAMPLE_SIZE = 30;
+
+// REST requests for the health metrics not covered by the issue, PR and contributor lists.
+// Each metric is left out of the health score (null) when its request fails.
+async function fetchRepoHealthSignalsRest(
+  owner: string,
+  repo: string,
+  items: any[],
+  options: FetchOptions
+): Promise<RepoHealthSignals> {
+  const firstResponse = async () => {
+    const sample = [...items]
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+      .slice(0, RESPONSE_SAMPLE_SIZE);
+    if (sample.length === 0) return null;
+
+    // Comments across the repository, oldest first, from the oldest sampled item on
+    const comments = await collectPages(
+      octokit.paginate.iterator(octokit.issues.listCommentsForRepo, {
+        owner,
+        repo,
+        sort: "created",
+        direction: "asc",
+        since: `${sample[sample.length - 1].created_at.slice(0, 10)}T00:00:00Z`, // whole days keep the URL cacheable
+        per_page: PAGE_SIZE
+      }),
+      { ...options, history: "all", maxPages: Math.min(options.maxPages, 3) }
+    );
+    const authors = new Map(sample.map((item) => [item.number, item.user?.login]));
+    const firstResponses = new Map<number, string>();
+    comments.items.forEach((comment) => {
+      const number = Number(comment.issue_url.split("/").pop());
+      if (!authors.has(number) || firstResponses.has(number) || comment.user?.login === authors.get(number)) return;
+      firstResponses.set(number, comment.created_at);
+    });
+
+    return medianFirstResponseDays(
+      sample.map((item) => ({
+        createdAt: item.created_at,
+        closedAt: item.closed_at,
+        firstResponseAt: firstResponses.get(item.number) ?? null
+      }))
+    );
+  };
+
+  const releases = async () => {
+    const { data } = await octokit.repos.listReleases({ owner, repo, per_page: PAGE_SIZE });
+    const yearAgo = Date.now() - 365 * DAY_MS;
+    return data.filter((release) => new Date(release.published_at ?? release.created_at).getTime() >= yearAgo).length;
+  };
+
+  const communityFiles = async () => {
+    const { data } = await octokit.repos.getCommunityProfileMetrics({ owner, repo });
+    return {
+      license: !!data.files.license,
+      contributing: !!data.files.contributing,
+      codeOfConduct: !!(data.files.code_of_conduct || data.files.code_of_conduct_file)
+    };
+  };
+
+  const settle = async <T>(name: string, fetch: () => Promise<T>): Promise<T | null> => {
+    try {
+      return await fetch();
+    } catch (error) {
+      console.warn(`Could not fetch ${name} for ${owner}/${repo}:`, error);
+      return null;
+    }
+  };
+
+  const [medianFirstResponse, releasesLastYear, files] = await Promise.all([
+    settle("first responses", firstResponse),
+    settle("releases", releases),
+    settle("the community profile", communityFiles)
+  ]);
+  return { medianFirstResponseDays: medianFirstResponse, releasesLastYear, communityFiles: files };
+}
+
+export async function fetchRepoData(
+  owner: string,
+  repo: string,
+  options: FetchOptions = defaultFetchOptions(),
+  evaluationWindow: EvaluationWindow = DEFAULT_EVALUATION_WINDOW,
+): Promise<RepoData> {
   try {
     // Fetch basic repository information
     const repoResponse = await octokit.repos.get({
@@ -433,35 +751,43 @@ export async function fetchRepoData(owner: string, repo: string): Promise<RepoDa
       repo,
     })
 
-    // Fetch contributors
-    const contributorsResponse = await octokit.repos.listContributors({
-      owner,
-      repo,
-      per_page: 10,
-    })
+    // Fetch every contributor, so commit ranks are not limited to the top few
+    const contributors = await collectPages(
+      octokit.paginate.iterator(octokit.repos.listContributors, { owner, repo, per_page: PAGE_SIZE }),
+      options,
+    )
 
-    // Fetch issues (last 100)
-    const issuesResponse = await octokit.issues.listForRepo({
-      owner,
-      repo,
-      state: "all",
-      per_page: 100,
-      sort: "created",
-      direction: "desc",
-    })
+    // Fetch issues, newest first, back to the history cutoff
+    const issuesResult = await collectPages(
+      octokit.paginate.iterator(octokit.issues.listForRepo, {
+        owner,
+        repo,
+        state: "all",
+        per_page: PAGE_SIZE,
+        sort: "created",
+        direction: "desc",
+      }),
+      options,
+      (issue) => issue.created_at,
+    )
 
     // Filter out pull requests from issues (GitHub API includes PRs in issues)
-    const issues = issuesResponse.data.filter((issue) => !issue.pull_request)
+    const issues = issuesResult.items.filter((issue) => !issue.pull_request)
 
-    // Fetch pull requests (last 100)
-    const pullsResponse = await octokit.pulls.list({
-      owner,
-      repo,
-      state: "all",
-      per_page: 100,
-      sort: "created",
-      direction: "desc",
-    })
+    // Fetch pull requests, newest first, back to the history cutoff
+    const pullsResult = await collectPages(
+      octokit.paginate.iterator(octokit.pulls.list, {
+        owner,
+        repo,
+        state: "all",
+        per_page: PAGE_SIZE,
+        sort: "created",
+        direction: "desc",
+      }),
+      options,
+      (pr) => pr.created_at,
+    )
+    const pulls = pullsResult.items
 
     // Process issues data
     const openIssues = issues.filter((issue) => issue.state === "open")
@@ -478,9 +804,9 @@ export async function fetchRepoData(owner: string, repo: string): Promise<RepoDa
       resolutionTimes.length > 0 ? resolutionTimes.reduce((sum, time) => sum + time, 0) / resolutionTimes.length : 0
 
     // Process pull requests data
-    const openPRs = pullsResponse.data.filter((pr) => pr.state === "open")
-    const closedPRs = pullsResponse.data.filter((pr) => pr.state === "closed" && !pr.merged_at)
-    const mergedPRs = pullsResponse.data.filter((pr) => pr.merged_at)
+    const openPRs = pulls.filter((pr) => pr.state === "open")
+    const closedPRs = pulls.filter((pr) => pr.state === "closed" && !pr.merged_at)
+    const mergedPRs = pulls.filter((pr) => pr.merged_at)
 
     // Calculate average merge time for merged PRs
     const mergeTimes = mergedPRs.map((pr) => {
@@ -491,155 +817,195 @@ export async function fetchRepoData(owner: string, repo: string): Promise<RepoDa
 
     const avgMergeTime = mergeTimes.length > 0 ? mergeTimes.reduce((sum, time) => sum + time, 0) / mergeTimes.length : 0
 
-    // Generate monthly trends for issues
-    const issueMonthlyTrends = generateMonthlyTrends(issues)
-
-    // Generate monthly trends for pull requests
-    const prMonthlyTrends = generateMonthlyTrends(pullsResponse.data, true)
-
-    return {
+    const data: RepoData = {
       repo: repoResponse.data,
-      contributors: contributorsResponse.data,
+      contributors: contributors.items,
       issues: {
         all: issues,
         open: openIssues,
         closed: closedIssues,
-        monthlyTrends: issueMonthlyTrends,
         avgResolutionTime,
       },
       pullRequests: {
-        all: pullsResponse.data,
+        all: pulls,
         open: openPRs,
         closed: closedPRs,
         merged: mergedPRs,
-        monthlyTrends: prMonthlyTrends,
         avgMergeTime,
       },
+      coverage: {
+        history: options.history,
+        since: historyCutoff(options)?.toISOString() ?? null,
+        truncated: contributors.truncated || issuesResult.truncated || pullsResult.truncated,
+      },
     }
+
+    // Community health metrics that the lists above cannot answer. Like the GraphQL path, health only
+    // looks at issues and pull requests created in the evaluation window.
+    const range = evaluationRange(evaluationWindow)
+    const inWindow = [...issues, ...pulls].filter((item) => isInRange(item.created_at, range))
+    const signals = await fetchRepoHealthSignalsRest(owner, repo, inWindow, options)
+    data.health = { ...healthInputsFromRepoData(data, range), ...signals }
+    return data
   } catch (error) {
     console.error("Error fetching GitHub data:", error)
     throw error
   }
 }
 
-function generateMonthlyTrends(items: any[], isPR = false) {
-  // Get the last 6 months
-  const months: {
-    month: string;
-    date: Date;
-    opened: number;
-    closed: number;
-    merged: number;
-  }[] = [];
-  const today = new Date()
-
-  for (let i = 5; i >= 0; i--) {
-    const month = new Date(today.getFullYear(), today.getMonth() - i, 1)
-    const monthStr = month.toLocaleString("default", { month: "short", year: "numeric" })
-    months.push({
-      month: monthStr,
-      date: month,
-      opened: 0,
-      closed: 0,
-      merged: 0,
-    })
-  }
-
-  // Count items by month
-  items.forEach((item) => {
-    const createdDate = new Date(item.created_at)
-    const closedDate = item.closed_at ? new Date(item.closed_at) : null
-    const mergedDate = item.merged_at ? new Date(item.merged_at) : null
-
-    months.forEach((monthData) => {
-      const nextMonth = new Date(monthData.date)
-      nextMonth.setMonth(nextMonth.getMonth() + 1)
-
-      // Count opened items
-      if (createdDate >= monthData.date && createdDate < nextMonth) {
-        monthData.opened++
-      }
-
-      // Count closed items
-      if (closedDate && closedDate >= monthData.date && closedDate < nextMonth) {
-        monthData.closed++
-      }
-
-      // Count merged PRs
-      if (isPR && mergedDate && mergedDate >= monthData.date && mergedDate < nextMonth) {
-        monthData.merged++
-      }
-    })
-  })
+// REST fallback for a user's repositories
+async function fetchUserRepositoriesRest(username: string, options: FetchOptions): Promise<UserRepository[]> {
+  const userRepos = await collectPages(
+    octokit.paginate.iterator(octokit.repos.listForUser, {
+      username,
+      per_page: PAGE_SIZE,
+      sort: 'updated'
+    }),
+    options,
+    (repo) => repo.updated_at
+  );
+  
+  return userRepos.items.map((repo) => ({
+    owner: repo.owner.login,
+    name: repo.name,
+    isPrivate: repo.private,
+    isFork: repo.fork,
+    createdAt: repo.created_at ?? ""
+  }));
+}
 
-  // Format the data for charts
-  return months.map((month) => ({
-    month: month.month,
-    opened: month.opened,
-    closed: month.closed,
-    merged: isPR ? month.merged : 0,
-  }))
+// REST fallback for external contributions, read from the search API (at most 1000 results)
+async function fetchExternalContributionsRest(
+  username: string,
+  options: FetchOptions,
+  range: DateRange
+): Promise<ExternalContribution[]> {
+  const pullRequests = await collectPages(
+    octokit.paginate.iterator(octokit.search.issuesAndPullRequests, {
+      q: `is:pr is:merged author:${username} -user:${username}` + dateQualifier("merged", range),
+      per_page: PAGE_SIZE
+    }),
+    options
+  );
+  
+  const contributions = new Map<string, ExternalContribution>();
+  for (const pr of pullRequests.items) {
+    const [owner, name] = pr.repository_url.split("/").slice(-2);
+    const key = `${owner}/${name}`.toLowerCase();
+    const entry = contributions.get(key) ?? { owner, name, mergedPRs: 0 };
+    entry.mergedPRs++;
+    contributions.set(key, entry);
+  }
+  return [...contributions.values()];
 }
 
 // Calculate the open source value for a user
-export async function calculateOpenSourceValue(username: string): Promise<OpenSourceValueData> {
+export async function calculateOpenSourceValue(
+  username: string,
+  options: FetchOptions = defaultFetchOptions(),
+  profile: ScoringProfile = defaultScoringProfile(),
+  evaluationWindow: EvaluationWindow = DEFAULT_EVALUATION_WINDOW
+): Promise<OpenSourceValueData> {
   try {
     console.log(`Starting open source value calculation for ${username}`);
+    const range = evaluationRange(evaluationWindow, historyCutoff(options));
     
-    // Fetch user's repositories
-    const userReposResponse = await octokit.repos.listForUser({
-      username,
-      per_page: 100,
-      sort: 'updated'
-    });
-    
-    const repos = userReposResponse.data;
+    // Fetch user's repositories, through GraphQL when possible
+    const repos = await fetchUserRepositoriesGraphql(username, options, range.since) ?? await fetchUserRepositoriesRest(username, options);
     console.log(`Found ${repos.length} repositories for user ${username}`);
     
     // Create result object
     const result: OpenSourceValueData = {
       username,
       totalScore: 0,
-      repositories: []
+      repositories: [],
+      scoringProfile: toProfileRef(profile),
+      evaluationWindow
+    };
+    
+    // Repositories to score, keyed by lowercased full name so each is scored once
+    const targets = new Map<string, { owner: string; name: string; source: RepositorySource; mergedPRs?: number; fork?: ForkAnalysis }>();
+    const untouchedForks: OpenSourceValueData["repositories"] = [];
+    
+    const sortRepository = async (repo: (typeof repos)[number]) => {
+      const fullName = `${repo.owner}/${repo.name}`;
+      
+      // Skip private repositories immediately
+      if (repo.isPrivate) {
+        console.log(`Skipping private repository: ${fullName}`);
+        return;
+      }
+      
+      if (!repo.isFork) {
+        targets.set(fullName.toLowerCase(), { owner: repo.owner, name: repo.name, source: "owned" });
+        return;
+      }
+      
+      // Compare forks with their upstream instead of crediting the parent for every fork
+      let fork: ForkAnalysis | null = null;
+      try {
+        fork = await analyzeFork(username, repo.owner, repo.name, range);
+      } catch (error) {
+        console.warn(`Could not analyze fork ${fullName}`, error);
+        // Continue with the fork itself if it can't be compared
+      }
+      
+      if (fork?.status === "untouched") {
+        // Nothing of the user's to score, but listed so the fork is accounted for
+        console.log(`Fork ${fullName} has no commits or pull requests of its own`);
+        untouchedForks.push({
+          name: repo.name,
+          fullName,
+          contributorScore: 0,
+          isOpenSource: false,
+          url: `https://github.com/${fullName}`,
+          source: "fork",
+          fork
+        });
+      } else if (fork?.status === "contributed-upstream") {
+        const [parentOwner, parentName] = fork.upstream.split("/");
+        console.log(`Fork ${fullName} sent ${fork.upstreamPRs} pull requests upstream, using parent: ${fork.upstream}`);
+        targets.set(fork.upstream.toLowerCase(), { owner: parentOwner, name: parentName, source: "fork", fork });
+      } else {
+        // A diverged personal project, or a fork that could not be compared, is scored on its own commits
+        targets.set(fullName.toLowerCase(), { owner: repo.owner, name: repo.name, source: "fork", fork: fork ?? undefined });
+      }
     };
     
+    // Each fork costs a compare and a search request, so only a few are analyzed at a time
+    const queue = [...repos];
+    await Promise.all(Array.from({ length: Math.min(FORK_ANALYSIS_CONCURRENCY, queue.length) }, async () => {
+      while (queue.length > 0) {
+        await sortRepository(queue.shift()!);
+      }
+    }));
+    
+    // Upstream projects the user never forked under their own account, found through their merged PRs
+    try {
+      const external = await fetchExternalContributionsGraphql(username, options, range) ?? await fetchExternalContributionsRest(username, options, range);
+      console.log(`Found merged pull requests in ${external.length} repositories owned by others`);
+      
+      for (const contribution of external) {
+        const key = `${contribution.owner}/${contribution.name}`.toLowerCase();
+        const target = targets.get(key);
+        if (target) {
+          target.mergedPRs = contribution.mergedPRs;
+        } else {
+          targets.set(key, { ...contribution, source: "external" });
+        }
+      }
+    } catch (error) {
+      console.warn(`Could not search external contributions for ${username}:`, error);
+    }
+    
     // Process each repository with proper error handling
     // Use Promise.allSettled instead of Promise.all to handle individual repo failures
-    const repoPromises = repos.map(async (repo) => {
+    const repoPromises = [...targets.values()].map(async ({ owner: repoOwner, name: repoName, source, mergedPRs, fork }) => {
       try {
-        // Skip private repositories immediately
-        if (repo.private) {
-          console.log(`Skipping private repository: ${repo.full_name}`);
-          return;
-        }
-        
-        console.log(`Processing repository: ${repo.full_name}`);
-        
-        let repoOwner = repo.owner.login;
-        let repoName = repo.name;
-        
-        // Check if repo is a fork and get parent info if needed
-        if (repo.fork) {
-          try {
-            // Get the parent repository for a fork
-            const repoDetailsResponse = await octokit.repos.get({
-              owner: repo.owner.login,
-              repo: repo.name
-            });
-            
-            if (repoDetailsResponse.data.parent) {
-              repoOwner = repoDetailsResponse.data.parent.owner.login;
-              repoName = repoDetailsResponse.data.parent.name;
-              console.log(`Fork repository, using parent: ${repoOwner}/${repoName}`);
-            }
-          } catch (error) {
-            console.warn(`Could not get parent repo for ${repo.full_name}`, error);
-            // Continue with the original repo if we can't get the parent
-          }
-        }
+        console.log(`Processing repository: ${repoOwner}/${repoName}`);
         
         // Calculate contributor score for this repository
-        const contributorData = await calculateContributorScore(username, repoOwner, repoName);
+        const contributorData = await scoreContributor(username, repoOwner, repoName, options, profile, evaluationWindow);
         
         if (contributorData) {
           console.log(`Adding repository ${repoOwner}/${repoName} with score ${contributorData.contributorScore}, isOpenSource: ${contributorData.isOpenSource}`);
@@ -649,7 +1015,11 @@ export async function calculateOpenSourceValue(username: string): Promise<OpenSo
             fullName: `${repoOwner}/${repoName}`,
             contributorScore: contributorData.contributorScore,
             isOpenSource: contributorData.isOpenSource,
-            url: `https://github.com/${repoOwner}/${repoName}`
+            url: `https://github.com/${repoOwner}/${repoName}`,
+            source,
+            mergedPRs,
+            fork,
+            classification: contributorData.openSourceClassification
           });
           
           // Only add to total score if it's an open source repository
@@ -659,7 +1029,7 @@ export async function calculateOpenSourceValue(username: string): Promise<OpenSo
           }
         }
       } catch (error) {
-        console.error(`Error processing repository ${repo.full_name}:`, error);
+        console.error(`Error processing repository ${repoOwner}/${repoName}:`, error);
         // Continue with the next repo even if this one fails
       }
     });
@@ -668,24 +1038,221 @@ export async function calculateOpenSourceValue(username: string): Promise<OpenSo
     const promiseResults = await Promise.allSettled(repoPromises);
     console.log(`Processed ${promiseResults.length} repositories, ${promiseResults.filter(r => r.status === 'fulfilled').length} succeeded`);
     
-    // Sort repositories by contributor score (highest first)
+    // Activity patterns across all of the user's work, including bursts of repository creation
+    result.integrity = await runIntegrityAnalysis(
+      username,
+      { repositoryCreatedAt: repos.filter((repo) => !repo.isFork && repo.createdAt).map((repo) => repo.createdAt), range },
+      profile
+    );
+    result.totalScore = applyIntegrityPenalty(result.totalScore, result.integrity);
+    
+    // Sort repositories by contributor score (highest first), untouched forks last
     result.repositories.sort((a, b) => b.contributorScore - a.contributorScore);
+    result.repositories.push(...untouchedForks);
     
     // Display summary information
     const openSourceRepos = result.repositories.filter(r => r.isOpenSource);
     console.log(`Open source value calculation completed for ${username}:`);
     console.log(`- Total repositories: ${result.repositories.length}`);
     console.log(`- Open source repositories: ${openSourceRepos.length}`);
+    console.log(`- External repositories: ${result.repositories.filter(r => r.source === "external").length}`);
     console.log(`- Total score: ${result.totalScore}`);
     
     return result;
   } catch (error) {
+    // Surface the failure (e.g. retries exhausted on a rate limit) instead of reporting a zero score
     console.error("Error calculating open source value:", error);
+    throw error;
+  }
+}
+
+// Check which GitHub logins exist. Maps each lowercased login to true/false,
+// or null when the lookup failed for another reason (rate limit, network).
+export async function checkGithubUsersExist(usernames: string[], concurrency = 5): Promise<Record<string, boolean | null>> {
+  const results: Record<string, boolean | null> = {}
+  const queue = [...new Set(usernames.map((username) => username.toLowerCase()))]
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const username = queue.shift()!
+      try {
+        await octokit.users.getByUsername({ username })
+        results[username] = true
+      } catch (error: any) {
+        if (error?.status === 404) {
+          results[username] = false
+        } else {
+          console.warn(`Could not verify GitHub user ${username}:`, error)
+          results[username] = null
+        }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
+  return results
+}
+
+const CONTRIBUTION_TOTALS_FIELDS = `
+  totalCommitContributions
+  totalPullRequestContributions
+  totalIssueContributions
+  totalPullRequestReviewContributions
+`
+
+function toContributionTotals(collection: any): ContributionTotals {
+  return {
+    commits: collection.totalCommitContributions,
+    pullRequests: collection.totalPullRequestContributions,
+    issues: collection.totalIssueContributions,
+    reviews: collection.totalPullRequestReviewContributions,
+  };
+}
+
+// Fetch a user's contribution calendar, yearly/monthly totals, most active repositories
+// and profile engagement. Contribution data is only available through the GraphQL API,
+// which requires a GitHub token.
+export async function fetchUserActivity(username: string): Promise<UserActivityData> {
+  try {
+    const byRepository = (field: string) => `
+      ${field}(maxRepositories: 10) {
+        repository { nameWithOwner url }
+        contributions { totalCount }
+      }
+    `;
+
+    const overview: any = await octokit.graphql(
+      `query($login: String!) {
+        user(login: $login) {
+          login
+          name
+          avatarUrl
+          url
+          createdAt
+          followers { totalCount }
+          following { totalCount }
+          starredRepositories { totalCount }
+          repositories(first: 100, ownerAffiliations: OWNER, privacy: PUBLIC, orderBy: { field: STARGAZERS, direction: DESC }) {
+            totalCount
+            nodes {
+              stargazerCount
+              forkCount
+              isFork
+              languages(first: 10, orderBy: { field: SIZE, direction: DESC }) { edges { size node { name color } } }
+            }
+          }
+          contributionsCollection {
+            contributionYears
+            contributionCalendar {
+              totalContributions
+              weeks { contributionDays { date contributionCount } }
+            }
+            ${byRepository("commitContributionsByRepository")}
+            ${byRepository("pullRequestContributionsByRepository")}
+            ${byRepository("issueContributionsByRepository")}
+            ${byRepository("pullRequestReviewContributionsByRepository")}
+          }
+        }
+      }`,
+      { login: username }
+    );
+
+    const user = overview.user;
+    if (!user) {
+      throw Object.assign(new Error(`GitHub user ${username} was not found`), { status: 404 });
+    }
+    const collection = user.contributionsCollection;
+
+    // Totals per year and for each of the last 12 months, fetched together through aliases
+    const years: number[] = [...collection.contributionYears].sort((a: number, b: number) => a - b);
+    const today = new Date();
+    const months = Array.from({ length: 12 }, (_, i) => {
+      const start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 11 + i, 1));
+      const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1) - 1);
+      return { key: start.toISOString().slice(0, 7), start, end };
+    });
+
+    const rangeFields = [
+      ...years.map((year) =>
+        `y${year}: contributionsCollection(from: "${year}-01-01T00:00:00Z", to: "${year}-12-31T23:59:59Z") { ${CONTRIBUTION_TOTALS_FIELDS} }`
+      ),
+      ...months.map(({ key, start, end }) =>
+        `m${key.replace("-", "_")}: contributionsCollection(from: "${start.toISOString()}", to: "${end.toISOString()}") { ${CONTRIBUTION_TOTALS_FIELDS} }`
+      ),
+    ];
+
+    const ranges: any = await octokit.graphql(
+      `query($login: String!) { user(login: $login) { ${rangeFields.join("\n")} } }`,
+      { login: username }
+    );
+
+    // Merge the four per-type repository lists into one ranking
+    const repositories = new Map<string, { nameWithOwner: string; url: string; total: number } & ContributionTotals>();
+    const addRepositoryContributions = (entries: any[], type: keyof ContributionTotals) => {
+      entries.forEach(({ repository, contributions }) => {
+        const entry = repositories.get(repository.nameWithOwner) ?? {
+          nameWithOwner: repository.nameWithOwner,
+          url: repository.url,
+          total: 0,
+          commits: 0,
+          pullRequests: 0,
+          issues: 0,
+          reviews: 0,
+        };
+        entry[type] += contributions.totalCount;
+        entry.total += contributions.totalCount;
+        repositories.set(repository.nameWithOwner, entry);
+      });
+    };
+    addRepositoryContributions(collection.commitContributionsByRepository, "commits");
+    addRepositoryContributions(collection.pullRequestContributionsByRepository, "pullRequests");
+    addRepositoryContributions(collection.issueContributionsByRepository, "issues");
+    addRepositoryContributions(collection.pullRequestReviewContributionsByRepository, "reviews");
+
+    const ownedRepos: any[] = user.repositories.nodes;
+
+    // A fork's code is mostly upstream's, so only the user's own repositories count towards the language mix
+    const languages = new Map<string, { name: string; color: string | null; bytes: number }>();
+    ownedRepos
+      .filter((repo) => !repo.isFork)
+      .forEach((repo) => {
+        repo.languages.edges.forEach(({ size, node }: any) => {
+          const entry = languages.get(node.name) ?? { name: node.name, color: node.color, bytes: 0 };
+          entry.bytes += size;
+          languages.set(node.name, entry);
+        });
+      });
+
     return {
-      username,
-      totalScore: 0,
-      repositories: []
+      username: user.login,
+      profile: {
+        login: user.login,
+        name: user.name || undefined,
+        avatar_url: user.avatarUrl,
+        html_url: user.url,
+        createdAt: user.createdAt,
+      },
+      engagement: {
+        followers: user.followers.totalCount,
+        following: user.following.totalCount,
+        starredRepos: user.starredRepositories.totalCount,
+        publicRepos: user.repositories.totalCount,
+        starsReceived: ownedRepos.reduce((sum, repo) => sum + repo.stargazerCount, 0),
+        forksReceived: ownedRepos.reduce((sum, repo) => sum + repo.forkCount, 0),
+      },
+      calendar: {
+        totalContributions: collection.contributionCalendar.totalContributions,
+        days: collection.contributionCalendar.weeks.flatMap((week: any) =>
+          week.contributionDays.map((day: any) => ({ date: day.date, count: day.contributionCount }))
+        ),
+      },
+      yearly: years.map((year) => ({ year, ...toContributionTotals(ranges.user[`y${year}`]) })),
+      monthly: months.map(({ key }) => ({ month: key, ...toContributionTotals(ranges.user[`m${key.replace("-", "_")}`]) })),
+      topRepositories: [...repositories.values()].sort((a, b) => b.total - a.total).slice(0, 10),
+      languages: [...languages.values()].sort((a, b) => b.bytes - a.bytes),
     };
+  } catch (error) {
+    console.error("Error fetching user activity:", error);
+    throw error;
   }
 }
-
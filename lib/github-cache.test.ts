@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+const store = vi.hoisted(() => ({
+  readJsonFile: vi.fn(),
+  writeJsonFile: vi.fn(),
+  pruneJsonFiles: vi.fn(),
+}))
+vi.mock("@/lib/json-file-store", () => store)
+
+import { withCache } from "@/lib/github-cache"
+
+const HOUR_MS = 60 * 60 * 1000
+const API = "https://api.github.com"
+
+function response(data: unknown, headers: Record<string, string> = { etag: '"abc"' }) {
+  return { status: 200, url: "", headers, data }
+}
+
+function notModified() {
+  return Object.assign(new Error("Not modified"), { status: 304 })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.useFakeTimers()
+  vi.setSystemTime(Date.parse("2024-06-01T12:00:00Z"))
+  store.readJsonFile.mockResolvedValue(null)
+  store.writeJsonFile.mockResolvedValue(undefined)
+  store.pruneJsonFiles.mockResolvedValue(0)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllEnvs()
+})
+
+describe("withCache", () => {
+  it.each([
+    ["POST", `${API}/repos/octocat/hello-world/issues`, "a write"],
+    ["GET", `${API}/users/octocat`, "a path without a cache policy"],
+    ["GET", `${API}/search/issues?q=author:octocat`, "a search"],
+    ["GET", `${API}/repos/octocat/hello-world/commits?since=2024-05-01T09:41:17.123Z`, "a timestamp to the millisecond"],
+  ])("sends %s %s straight to GitHub (%s)", async (method, url) => {
+    const send = vi.fn().mockResolvedValue(response([]))
+
+    await withCache(method, url, send)
+
+    expect(send).toHaveBeenCalledWith({})
+    expect(store.readJsonFile).not.toHaveBeenCalled()
+    expect(store.writeJsonFile).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    `${API}/repos/octocat/hello-world`,
+    `${API}/repositories/1296269/pulls?state=all&page=2`,
+    `${API}/repos/octocat/hello-world/commits?since=2024-05-01T00:00:00Z`,
+    `${API}/repos/octocat/hello-world/issues?since=2024-05-01T00:00:00.000Z&until=2024-05-31T23:59:59.999Z`,
+  ])("caches %s", async (url) => {
+    await withCache("GET", url, vi.fn().mockResolvedValue(response([])))
+
+    expect(store.readJsonFile).toHaveBeenCalled()
+    expect(store.writeJsonFile).toHaveBeenCalledWith(
+      expect.stringMatching(/^github-cache\/[0-9a-f]{40}$/),
+      expect.objectContaining({ url, headers: { etag: '"abc"' } }),
+    )
+  })
+
+  it("leaves the cache alone when GITHUB_CACHE is false", async () => {
+    vi.stubEnv("GITHUB_CACHE", "false")
+    await withCache("GET", `${API}/repos/octocat/hello-world`, vi.fn().mockResolvedValue(response({})))
+    expect(store.readJsonFile).not.toHaveBeenCalled()
+  })
+
+  it("serves fresh entries without a request", async () => {
+    store.readJsonFile.mockResolvedValue({ url: "", fetchedAt: Date.now() - 23 * HOUR_MS, headers: {}, data: { id: 1 } })
+    const send = vi.fn()
+
+    const cached = await withCache("GET", `${API}/repos/octocat/hello-world`, send)
+
+    expect(send).not.toHaveBeenCalled()
+    expect(cached.data).toEqual({ id: 1 })
+  })
+
+  it("revalidates stale entries and reuses them on 304", async () => {
+    const entry = {
+      url: "",
+      fetchedAt: Date.now() - 2 * HOUR_MS,
+      headers: { etag: '"abc"', "last-modified": "Sat, 01 Jun 2024" },
+      data: [1],
+    }
+    store.readJsonFile.mockResolvedValue(entry)
+    const send = vi.fn().mockRejectedValue(notModified())
+
+    const cached = await withCache("GET", `${API}/repos/octocat/hello-world/issues`, send)
+
+    expect(send).toHaveBeenCalledWith({ "if-none-match": '"abc"', "if-modified-since": "Sat, 01 Jun 2024" })
+    expect(cached.data).toEqual([1])
+    expect(store.writeJsonFile).toHaveBeenCalledWith(expect.any(String), { ...entry, fetchedAt: Date.now() })
+  })
+
+  it("does not store responses without validators", async () => {
+    await withCache("GET", `${API}/repos/octocat/hello-world`, vi.fn().mockResolvedValue(response({}, {})))
+    expect(store.writeJsonFile).not.toHaveBeenCalled()
+  })
+
+  it("prunes entries older than 30 days at most once an hour", async () => {
+    const send = vi.fn().mockResolvedValue(response({}))
+    const url = `${API}/repos/octocat/hello-world`
+
+    // The prune clock is module state, so move past any sweep an earlier test started
+    vi.setSystemTime(Date.parse("2024-07-01T00:00:00Z"))
+    await withCache("GET", url, send)
+    await withCache("GET", url, send)
+    expect(store.pruneJsonFiles).toHaveBeenCalledTimes(1)
+    expect(store.pruneJsonFiles).toHaveBeenCalledWith("github-cache", 30 * 24 * HOUR_MS)
+
+    vi.setSystemTime(Date.now() + HOUR_MS)
+    await withCache("GET", url, send)
+    expect(store.pruneJsonFiles).toHaveBeenCalledTimes(2)
+  })
+})
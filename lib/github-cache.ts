@@ -0,0 +1,129 @@
+import "server-only"
+import { createHash } from "crypto"
+import { pruneJsonFiles, readJsonFile, writeJsonFile } from "@/lib/json-file-store"
+
+// Persistent HTTP cache for GitHub REST responses. Fresh entries are served without a request;
+// stale ones are revalidated with If-None-Match / If-Modified-Since, and GitHub does not count
+// the resulting 304 responses against the rate limit.
+
+interface CachePolicy {
+  pattern: RegExp // matched against the request path; paginated "next" links use /repositories/:id
+  ttl: number // ms an entry is served without revalidating
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const REPO_PATH = String.raw`^/(?:repos/[^/]+/[^/]+|repositories/\d+)`
+
+// Repository metadata changes rarely; lists of commits, issues and PRs change as people work
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  repo: { pattern: new RegExp(`${REPO_PATH}$`), ttl: 24 * HOUR_MS },
+  contributors: { pattern: new RegExp(`${REPO_PATH}/contributors$`), ttl: 12 * HOUR_MS },
+  commits: { pattern: new RegExp(`${REPO_PATH}/commits$`), ttl: HOUR_MS },
+  commit: { pattern: new RegExp(`${REPO_PATH}/commits/[0-9a-f]{40}$`), ttl: 30 * 24 * HOUR_MS }, // a commit never changes
+  issues: { pattern: new RegExp(`${REPO_PATH}/issues$`), ttl: HOUR_MS },
+  issueEvents: { pattern: new RegExp(`${REPO_PATH}/issues/events$`), ttl: HOUR_MS },
+  issueComments: { pattern: new RegExp(`${REPO_PATH}/issues/comments$`), ttl: HOUR_MS },
+  pulls: { pattern: new RegExp(`${REPO_PATH}/pulls$`), ttl: HOUR_MS },
+  releases: { pattern: new RegExp(`${REPO_PATH}/releases$`), ttl: 12 * HOUR_MS },
+  community: { pattern: new RegExp(`${REPO_PATH}/community/profile$`), ttl: 24 * HOUR_MS },
+  compare: { pattern: new RegExp(`${REPO_PATH}/compare/.+$`), ttl: HOUR_MS },
+}
+
+const CACHE_DIR = "github-cache"
+
+// Entries not written for longer than the longest TTL are deleted. Sweeps run at most once an hour,
+// when an entry is written.
+const RETENTION_MS = Math.max(...Object.values(CACHE_POLICIES).map((policy) => policy.ttl))
+const PRUNE_INTERVAL_MS = HOUR_MS
+let lastPrunedAt = 0
+
+// Query parameters holding timestamps, such as `since` on the commit and issue lists
+const DATE_PARAMS = ["since", "until"]
+
+// Response headers worth keeping: validators, and the link header pagination follows
+const STORED_HEADERS = ["etag", "last-modified", "link"]
+
+interface CacheEntry {
+  url: string
+  fetchedAt: number
+  headers: Record<string, string>
+  data: unknown
+}
+
+interface CachedResponse {
+  status: number
+  url: string
+  headers: Record<string, any>
+  data: any
+}
+
+// A timestamp down to the millisecond ("six months ago" computed per request) makes every URL unique,
+// so only dates at a day boundary are cached. Callers round such dates to the day.
+function hasDayPrecisionDates(url: URL): boolean {
+  return DATE_PARAMS.every((param) => {
+    const value = url.searchParams.get(param)
+    return !value || /T(?:00:00:00|23:59:59)(?:\.\d{3})?Z$/.test(value)
+  })
+}
+
+function cachePolicy(method: string, url: string): CachePolicy | null {
+  if (method !== "GET") return null
+  const parsed = new URL(url)
+  if (!hasDayPrecisionDates(parsed)) return null
+  return Object.values(CACHE_POLICIES).find((policy) => policy.pattern.test(parsed.pathname)) ?? null
+}
+
+function entryName(url: string): string {
+  return `${CACHE_DIR}/${createHash("sha1").update(url).digest("hex")}`
+}
+
+function pruneInBackground() {
+  if (Date.now() - lastPrunedAt < PRUNE_INTERVAL_MS) return
+  lastPrunedAt = Date.now()
+  pruneJsonFiles(CACHE_DIR, RETENTION_MS).catch((error) => console.warn("Could not prune the GitHub cache:", error))
+}
+
+function toResponse(entry: CacheEntry): CachedResponse {
+  return { status: 200, url: entry.url, headers: entry.headers, data: entry.data }
+}
+
+// Serve a GET request from the cache when possible. `send` performs the request with extra headers.
+export async function withCache<T extends CachedResponse>(
+  method: string,
+  url: string,
+  send: (headers: Record<string, string>) => Promise<T>,
+): Promise<T> {
+  const policy = cachePolicy(method, url)
+  if (!policy || process.env.GITHUB_CACHE === "false") return send({})
+
+  const name = entryName(url)
+  const entry = await readJsonFile<CacheEntry | null>(name, null)
+  if (entry && Date.now() - entry.fetchedAt < policy.ttl) {
+    return toResponse(entry) as T
+  }
+
+  const conditionalHeaders: Record<string, string> = {}
+  if (entry?.headers.etag) conditionalHeaders["if-none-match"] = entry.headers.etag
+  if (entry?.headers["last-modified"]) conditionalHeaders["if-modified-since"] = entry.headers["last-modified"]
+
+  try {
+    const response = await send(conditionalHeaders)
+    const headers: Record<string, string> = {}
+    STORED_HEADERS.forEach((header) => {
+      if (response.headers[header]) headers[header] = String(response.headers[header])
+    })
+    if (headers.etag || headers["last-modified"]) {
+      await writeJsonFile(name, { url, fetchedAt: Date.now(), headers, data: response.data } satisfies CacheEntry)
+      pruneInBackground()
+    }
+    return response
+  } catch (error: any) {
+    if (error?.status === 304 && entry) {
+      const refreshed = { ...entry, fetchedAt: Date.now() }
+      await writeJsonFile(name, refreshed)
+      return toResponse(refreshed) as T
+    }
+    throw error
+  }
+}
@@ -0,0 +1,27 @@
+import "server-only"
+import { Octokit } from "@octokit/rest"
+import { withCache } from "@/lib/github-cache"
+import { endpointClass, scheduleRequest } from "@/lib/github-scheduler"
+
+// Create an Octokit instance
+// This module only runs on the server (see app/api), so tokens never reach the browser.
+// Authentication is added per request from the token pool (see lib/github-tokens.ts).
+export const octokit = new Octokit()
+
+// Every REST and GraphQL call is answered from the response cache when possible,
+// otherwise it goes through the scheduler, which picks a token and handles rate limits
+octokit.hook.wrap("request", (request, options) => {
+  const { method, url } = octokit.request.endpoint(options)
+  return withCache(method, url, (headers) => {
+    // Wrapped hooks share this options object, so headers are added in place
+    Object.assign(options.headers, headers)
+    return scheduleRequest(endpointClass(url), async (token) => {
+      if (token) {
+        options.headers.authorization = `token ${token}`
+      } else {
+        delete options.headers.authorization
+      }
+      return request(options)
+    })
+  })
+})
@@ -0,0 +1,453 @@
+import "server-only"
+import { octokit } from "@/lib/github-client"
+import { hasTokens } from "@/lib/github-tokens"
+import type {
+  ContributionDetails,
+  ExternalContribution,
+  FetchOptions,
+  RepoFactors,
+  UserRepository,
+} from "@/lib/github-api"
+import { dateQualifier, type DateRange } from "@/lib/evaluation-window"
+import { medianFirstResponseDays, STALE_PR_DAYS, type ResponseSample } from "@/lib/repo-health"
+
+// GitHub GraphQL v4 fetchers. Scoring one repository over REST takes around ten calls;
+// the queries below fetch the same data in two, which keeps cohort runs within the rate limit.
+// Every function returns null when GraphQL is unavailable so callers can fall back to REST.
+
+// GraphQL needs a token; set GITHUB_GRAPHQL=false to force the REST path
+function isGraphqlEnabled(): boolean {
+  return hasTokens() && process.env.GITHUB_GRAPHQL !== "false"
+}
+
+// Run a query, keeping partial data when only some fields failed (e.g. collaborators without push access)
+async function runQuery(query: string, variables: Record<string, unknown>): Promise<any | null> {
+  try {
+    return await octokit.graphql(query, variables)
+  } catch (error: any) {
+    if (error?.name === "GraphqlResponseError" && error.data) {
+      console.warn("GraphQL query returned partial data:", error.message)
+      return error.data
+    }
+    console.warn("GraphQL query failed, falling back to REST:", error)
+    return null
+  }
+}
+
+const PERMISSIONS_WITH_PUSH = ["ADMIN", "MAINTAIN", "WRITE"]
+
+const CONTRIBUTION_INPUTS_QUERY = `
+  query (
+    $owner: String!
+    $repo: String!
+    $login: String!
+    $userId: ID!
+    $since: GitTimestamp
+    $until: GitTimestamp
+    $sixMonthsAgo: GitTimestamp!
+    $openIssues: String!
+    $closedIssues: String!
+    $pullRequests: String!
+    $mergedPullRequests: String!
+    $userPullRequests: String!
+    $userMergedPullRequests: String!
+    $userIssues: String!
+    $recentItems: String!
+    $stalePullRequests: String!
+  ) {
+    repository(owner: $owner, name: $repo) {
+      isPrivate
+      forkCount
+      stargazerCount
+      diskUsage
+      licenseInfo { spdxId }
+      codeOfConduct { key }
+      contributingGuidelines { body }
+      releases(first: 100, orderBy: { field: CREATED_AT, direction: DESC }) { nodes { createdAt } }
+      openIssueCount: issues(states: OPEN) { totalCount }
+      openPullRequestCount: pullRequests(states: OPEN) { totalCount }
+      collaborators(query: $login, first: 1) { edges { permission node { login } } }
+      defaultBranchRef {
+        target {
+          ... on Commit {
+            recentCommits: history(since: $sixMonthsAgo) { totalCount }
+            userCommits: history(author: { id: $userId }, since: $since, until: $until, first: 100) {
+              totalCount
+              pageInfo { hasNextPage endCursor }
+              nodes { authoredDate }
+            }
+          }
+        }
+      }
+    }
+    openIssues: search(type: ISSUE, query: $openIssues) { issueCount }
+    closedIssues: search(type: ISSUE, query: $closedIssues, first: 100) {
+      issueCount
+      nodes { ... on Issue { createdAt closedAt } }
+    }
+    pullRequests: search(type: ISSUE, query: $pullRequests) { issueCount }
+    mergedPullRequests: search(type: ISSUE, query: $mergedPullRequests) { issueCount }
+    userPullRequests: search(type: ISSUE, query: $userPullRequests) { issueCount }
+    userMergedPullRequests: search(type: ISSUE, query: $userMergedPullRequests, first: 100) {
+      issueCount
+      nodes { ... on PullRequest { closingIssuesReferences(first: 25) { nodes { number } } } }
+    }
+    userIssues: search(type: ISSUE, query: $userIssues) { issueCount }
+    recentItems: search(type: ISSUE, query: $recentItems, first: 30) {
+      nodes {
+        ... on Issue {
+          createdAt
+          closedAt
+          author { login }
+          comments(first: 10) { nodes { createdAt author { login } } }
+        }
+        ... on PullRequest {
+          createdAt
+          closedAt
+          author { login }
+          comments(first: 10) { nodes { createdAt author { login } } }
+          reviews(first: 10) { nodes { submittedAt author { login } } }
+        }
+      }
+    }
+    stalePullRequests: search(type: ISSUE, query: $stalePullRequests) { issueCount }
+  }
+`
+
+function monthsAgo(months: number): Date {
+  const date = new Date()
+  date.setMonth(date.getMonth() - months)
+  return date
+}
+
+// Further pages of a user's commit dates, after the first page fetched with the contribution inputs
+const COMMIT_DATES_QUERY = `
+  query ($owner: String!, $repo: String!, $userId: ID!, $since: GitTimestamp, $until: GitTimestamp, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      defaultBranchRef {
+        target {
+          ... on Commit {
+            history(author: { id: $userId }, since: $since, until: $until, first: 100, after: $cursor) {
+              pageInfo { hasNextPage endCursor }
+              nodes { authoredDate }
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+}
+
+// Repository factors and a user's contribution details in one repository.
+// `range` limits commit, issue and PR counts to the evaluation window.
+export async function fetchContributionInputsGraphql(
+  username: string,
+  owner: string,
+  repo: string,
+  options: FetchOptions,
+  range: DateRange,
+): Promise<{ factors: RepoFactors; details: ContributionDetails } | null> {
+  if (!isGraphqlEnabled()) return null
+
+  const userData = await runQuery(
+    `query ($login: String!) { user(login: $login) { id login name bio avatarUrl url } }`,
+    { login: username },
+  )
+  const user = userData?.user
+  if (!user) return null
+
+  const scope = `repo:${owner}/${repo}` + dateQualifier("created", range)
+  const since = range.since?.toISOString() ?? null
+  const until = range.until?.toISOString() ?? null
+  const data = await runQuery(CONTRIBUTION_INPUTS_QUERY, {
+    owner,
+    repo,
+    login: username,
+    userId: user.id,
+    since,
+    until,
+    sixMonthsAgo: monthsAgo(6).toISOString(),
+    openIssues: `${scope} is:issue is:open`,
+    closedIssues: `${scope} is:issue is:closed sort:created-desc`,
+    pullRequests: `${scope} is:pr`,
+    mergedPullRequests: `${scope} is:pr is:merged`,
+    userPullRequests: `${scope} is:pr author:${username}`,
+    userMergedPullRequests: `${scope} is:pr is:merged author:${username}`,
+    userIssues: `${scope} is:issue author:${username}`,
+    recentItems: `${scope} sort:created-desc`,
+    stalePullRequests: `repo:${owner}/${repo} is:pr is:open updated:<${daysAgo(STALE_PR_DAYS).toISOString().slice(0, 10)}`,
+  })
+  const repository = data?.repository
+  if (!repository) return null
+
+  const history = repository.defaultBranchRef?.target ?? {}
+
+  // Dates of every commit in the window, for the decay function, up to the page ceiling
+  const commitDates: string[] = (history.userCommits?.nodes ?? []).map((commit: any) => commit.authoredDate)
+  let commitPage = history.userCommits?.pageInfo
+  for (let page = 1; page < options.maxPages && commitPage?.hasNextPage; page++) {
+    const more = await runQuery(COMMIT_DATES_QUERY, { owner, repo, userId: user.id, since, until, cursor: commitPage.endCursor })
+    const moreHistory = more?.repository?.defaultBranchRef?.target?.history
+    if (!moreHistory) break
+    commitDates.push(...moreHistory.nodes.map((commit: any) => commit.authoredDate))
+    commitPage = moreHistory.pageInfo
+  }
+  const collaborator = repository.collaborators?.edges?.find(
+    (edge: any) => edge.node.login.toLowerCase() === username.toLowerCase(),
+  )
+
+  const resolutionTimes: number[] = (data.closedIssues?.nodes ?? [])
+    .filter((issue: any) => issue?.closedAt)
+    .map((issue: any) => (new Date(issue.closedAt).getTime() - new Date(issue.createdAt).getTime()) / (1000 * 60 * 60 * 24))
+
+  // The first comment or review by someone other than the author
+  const responseSamples: ResponseSample[] = (data.recentItems?.nodes ?? [])
+    .filter((item: any) => item?.createdAt)
+    .map((item: any) => {
+      const responses = [
+        ...(item.comments?.nodes ?? []).map((comment: any) => ({ at: comment.createdAt, login: comment.author?.login })),
+        ...(item.reviews?.nodes ?? []).map((review: any) => ({ at: review.submittedAt, login: review.author?.login })),
+      ]
+        .filter((response) => response.at && response.login !== item.author?.login)
+        .map((response) => response.at as string)
+        .sort()
+      return { createdAt: item.createdAt, closedAt: item.closedAt ?? null, firstResponseAt: responses[0] ?? null }
+    })
+  const yearAgo = daysAgo(365).getTime()
+
+  return {
+    factors: {
+      isPrivate: repository.isPrivate,
+      forks: repository.forkCount,
+      stars: repository.stargazerCount,
+      license: repository.licenseInfo?.spdxId ?? null,
+      issues: repository.openIssueCount.totalCount + repository.openPullRequestCount.totalCount,
+      recentActivity: history.recentCommits?.totalCount ?? 0,
+      size: repository.diskUsage ?? 0,
+    },
+    details: {
+      user: {
+        login: user.login,
+        avatar_url: user.avatarUrl,
+        html_url: user.url,
+        name: user.name || undefined,
+        bio: user.bio || undefined,
+      },
+      isMaintainer: !!collaborator && PERMISSIONS_WITH_PUSH.includes(collaborator.permission),
+      commits: {
+        total: history.userCommits?.totalCount ?? 0,
+        dates: commitDates,
+      },
+      pullRequests: {
+        total: data.userPullRequests?.issueCount ?? 0,
+        merged: data.userMergedPullRequests?.issueCount ?? 0,
+      },
+      issuesCreated: data.userIssues?.issueCount ?? 0,
+      issuesClosedByPRs: (data.userMergedPullRequests?.nodes ?? []).flatMap(
+        (pr: any) => pr?.closingIssuesReferences?.nodes?.map((issue: any) => issue.number) ?? [],
+      ),
+      health: {
+        openIssues: data.openIssues?.issueCount ?? 0,
+        closedIssues: data.closedIssues?.issueCount ?? 0,
+        avgResolutionTime:
+          resolutionTimes.length > 0 ? resolutionTimes.reduce((sum, time) => sum + time, 0) / resolutionTimes.length : 0,
+        totalPRs: data.pullRequests?.issueCount ?? 0,
+        mergedPRs: data.mergedPullRequests?.issueCount ?? 0,
+        openPRs: repository.openPullRequestCount.totalCount,
+        stalePRs: data.stalePullRequests?.issueCount ?? 0,
+        medianFirstResponseDays: data.recentItems ? medianFirstResponseDays(responseSamples) : null,
+        releasesLastYear: repository.releases
+          ? repository.releases.nodes.filter((release: any) => new Date(release.createdAt).getTime() >= yearAgo).length
+          : null,
+        communityFiles: {
+          license: !!repository.licenseInfo,
+          contributing: !!repository.contributingGuidelines?.body,
+          codeOfConduct: !!repository.codeOfConduct,
+        },
+      },
+    },
+  }
+}
+
+const USER_REPOSITORIES_QUERY = `
+  query ($login: String!, $cursor: String) {
+    user(login: $login) {
+      repositories(
+        first: 100
+        after: $cursor
+        ownerAffiliations: OWNER
+        privacy: PUBLIC
+        orderBy: { field: UPDATED_AT, direction: DESC }
+      ) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          name
+          owner { login }
+          isPrivate
+          isFork
+          createdAt
+          updatedAt
+        }
+      }
+    }
+  }
+`
+
+// A user's repositories, most recently updated first
+export async function fetchUserRepositoriesGraphql(
+  username: string,
+  options: FetchOptions,
+  since: Date | null,
+): Promise<UserRepository[] | null> {
+  if (!isGraphqlEnabled()) return null
+
+  const repositories: UserRepository[] = []
+  let cursor: string | null = null
+
+  for (let page = 0; page < options.maxPages; page++) {
+    const data = await runQuery(USER_REPOSITORIES_QUERY, { login: username, cursor })
+    const connection = data?.user?.repositories
+    if (!connection) return page === 0 ? null : repositories
+
+    for (const node of connection.nodes) {
+      if (since && new Date(node.updatedAt) < since) return repositories
+      repositories.push({
+        owner: node.owner.login,
+        name: node.name,
+        isPrivate: node.isPrivate,
+        isFork: node.isFork,
+        createdAt: node.createdAt,
+      })
+    }
+
+    if (!connection.pageInfo.hasNextPage) break
+    cursor = connection.pageInfo.endCursor
+  }
+
+  return repositories
+}
+
+const EXTERNAL_PULL_REQUESTS_QUERY = `
+  query ($query: String!, $cursor: String) {
+    search(type: ISSUE, query: $query, first: 100, after: $cursor) {
+      pageInfo { hasNextPage endCursor }
+      nodes { ... on PullRequest { repository { name owner { login } } } }
+    }
+  }
+`
+
+// Repositories owned by others where the user has merged PRs, with how many were merged in each.
+// Search returns at most 1000 results, so very prolific users are sampled by their latest PRs.
+export async function fetchExternalContributionsGraphql(
+  username: string,
+  options: FetchOptions,
+  range: DateRange,
+): Promise<ExternalContribution[] | null> {
+  if (!isGraphqlEnabled()) return null
+
+  const query = `is:pr is:merged author:${username} -user:${username} sort:created-desc` + dateQualifier("merged", range)
+  const contributions = new Map<string, ExternalContribution>()
+  let cursor: string | null = null
+
+  for (let page = 0; page < options.maxPages; page++) {
+    const data = await runQuery(EXTERNAL_PULL_REQUESTS_QUERY, { query, cursor })
+    if (!data?.search) return page === 0 ? null : [...contributions.values()]
+
+    for (const node of data.search.nodes) {
+      if (!node?.repository) continue
+      const { name, owner } = node.repository
+      const key = `${owner.login}/${name}`.toLowerCase()
+      const entry = contributions.get(key) ?? { owner: owner.login, name, mergedPRs: 0 }
+      entry.mergedPRs++
+      contributions.set(key, entry)
+    }
+
+    if (!data.search.pageInfo.hasNextPage) break
+    cursor = data.search.pageInfo.endCursor
+  }
+
+  return [...contributions.values()]
+}
+
+const CLOSED_ISSUES_QUERY = `
+  query ($query: String!, $cursor: String) {
+    search(type: ISSUE, query: $query, first: 100, after: $cursor) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        ... on Issue {
+          number
+          timelineItems(itemTypes: [CLOSED_EVENT], last: 1) { nodes { ... on ClosedEvent { actor { login } } } }
+        }
+      }
+    }
+  }
+`
+
+// The closed-issue search returns up to 100 issues per page, each with its timeline; two pages keep
+// one student's triage count to two searches per repository in large batches
+const CLOSED_ISSUES_MAX_PAGES = 2
+
+// Issues the user closed themselves (triage). Only issues closed within the window that involve the
+// user (authored, assigned, mentioning them or commented on) are searched, and each one's latest close
+// event says who closed it. An issue closed without any other involvement is missed. Returns null when
+// a page fails, so the REST event list is read instead of a partial count.
+export async function fetchIssuesClosedByUserGraphql(
+  username: string,
+  owner: string,
+  repo: string,
+  range: DateRange,
+): Promise<number[] | null> {
+  if (!isGraphqlEnabled()) return null
+
+  const query =
+    `repo:${owner}/${repo} is:issue is:closed involves:${username} sort:updated-desc` + dateQualifier("closed", range)
+  const closed: number[] = []
+  let cursor: string | null = null
+
+  for (let page = 0; page < CLOSED_ISSUES_MAX_PAGES; page++) {
+    const data = await runQuery(CLOSED_ISSUES_QUERY, { query, cursor })
+    if (!data?.search) return null
+
+    for (const node of data.search.nodes) {
+      const closer = node?.timelineItems?.nodes?.[0]?.actor?.login
+      if (closer?.toLowerCase() === username.toLowerCase()) closed.push(node.number)
+    }
+
+    if (!data.search.pageInfo.hasNextPage) break
+    cursor = data.search.pageInfo.endCursor
+  }
+
+  return closed
+}
+
+const MERGED_BY_QUERY = `
+  query ($query: String!) {
+    search(type: ISSUE, query: $query, first: 100) {
+      issueCount
+      nodes { ... on PullRequest { mergedBy { login } } }
+    }
+  }
+`
+
+// Merged pull requests matching a search for the user's PRs, and how many of the most recent 100 the user
+// merged themselves. Only GraphQL says who merged a pull request; null when it is unavailable.
+export async function fetchSelfMergedPullRequestsGraphql(
+  username: string,
+  query: string,
+): Promise<{ total: number; sampled: number; selfMerged: number } | null> {
+  if (!isGraphqlEnabled()) return null
+
+  const data = await runQuery(MERGED_BY_QUERY, { query })
+  if (!data?.search) return null
+
+  const mergers: (string | undefined)[] = data.search.nodes.map((node: any) => node?.mergedBy?.login?.toLowerCase())
+  return {
+    total: data.search.issueCount,
+    sampled: mergers.length,
+    selfMerged: mergers.filter((merger) => merger === username.toLowerCase()).length,
+  }
+}
@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+const tokens = vi.hoisted(() => ({
+  pickToken: vi.fn(),
+  nextQuotaReset: vi.fn(),
+  recordUsage: vi.fn(),
+  revokeToken: vi.fn(),
+}))
+vi.mock("@/lib/github-tokens", () => tokens)
+
+import { endpointClass, getRateLimitStatus, scheduleRequest } from "@/lib/github-scheduler"
+
+const MINUTE_MS = 60 * 1000
+const first = { id: "token-1", value: "first" }
+const second = { id: "token-2", value: "second" }
+
+function ok() {
+  return { headers: {}, data: "ok" }
+}
+
+function rateLimited(status: number, headers: Record<string, string> = {}, message = "") {
+  return Object.assign(new Error(message), { status, response: { headers } })
+}
+
+// The scheduler's waits are module state shared by every test, so time only moves forward
+beforeAll(() => {
+  vi.useFakeTimers()
+})
+
+afterAll(() => {
+  vi.useRealTimers()
+})
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  tokens.pickToken.mockReturnValue(first)
+})
+
+describe("endpointClass", () => {
+  it("sorts requests into core, search and GraphQL", () => {
+    expect(endpointClass("https://api.github.com/repos/octocat/hello-world")).toBe("core")
+    expect(endpointClass("https://api.github.com/search/issues?q=is:pr")).toBe("search")
+    expect(endpointClass("/graphql")).toBe("graphql")
+  })
+})
+
+describe("scheduleRequest", () => {
+  it("waits as long as retry-after asks before retrying", async () => {
+    const send = vi.fn().mockRejectedValueOnce(rateLimited(403, { "retry-after": "30" })).mockResolvedValue(ok())
+
+    const request = scheduleRequest("core", send)
+    await vi.advanceTimersByTimeAsync(29 * 1000)
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(getRateLimitStatus().endpoint).toBe("core")
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(request).resolves.toEqual(ok())
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(getRateLimitStatus()).toEqual({ waitingUntil: null, endpoint: null })
+  })
+
+  it("backs off exponentially from a minute on a secondary rate limit without retry-after", async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(rateLimited(429))
+      .mockRejectedValueOnce(rateLimited(403, {}, "You have exceeded a secondary rate limit"))
+      .mockResolvedValue(ok())
+
+    const request = scheduleRequest("core", send)
+    await vi.advanceTimersByTimeAsync(MINUTE_MS)
+    expect(send).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(2 * MINUTE_MS - 1)
+    expect(send).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+
+    await expect(request).resolves.toEqual(ok())
+    expect(send).toHaveBeenCalledTimes(3)
+  })
+
+  it("gives up after three retries", async () => {
+    const send = vi.fn().mockRejectedValue(rateLimited(429, { "retry-after": "1" }))
+
+    const request = scheduleRequest("core", send)
+    const failed = expect(request).rejects.toMatchObject({ status: 429 })
+    await vi.advanceTimersByTimeAsync(3000)
+
+    await failed
+    expect(send).toHaveBeenCalledTimes(4)
+  })
+
+  it("does not retry a 403 without rate limit hints", async () => {
+    const send = vi.fn().mockRejectedValue(rateLimited(403, {}, "Resource not accessible by integration"))
+
+    await expect(scheduleRequest("core", send)).rejects.toMatchObject({ status: 403 })
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+
+  it("moves to another token straight away when one runs out of quota", async () => {
+    tokens.pickToken.mockReturnValueOnce(first).mockReturnValue(second)
+    const send = vi.fn().mockRejectedValueOnce(rateLimited(403, { "x-ratelimit-remaining": "0" })).mockResolvedValue(ok())
+
+    await expect(scheduleRequest("core", send)).resolves.toEqual(ok())
+    expect(send.mock.calls.map(([token]) => token)).toEqual(["first", "second"])
+    expect(tokens.recordUsage).toHaveBeenCalledWith(first, "core", { "x-ratelimit-remaining": "0" })
+  })
+
+  it("revokes a token GitHub rejects and retries with the next one", async () => {
+    tokens.pickToken.mockReturnValueOnce(first).mockReturnValue(second)
+    const send = vi.fn().mockRejectedValueOnce(rateLimited(401)).mockResolvedValue(ok())
+
+    await expect(scheduleRequest("core", send)).resolves.toEqual(ok())
+    expect(tokens.revokeToken).toHaveBeenCalledWith(first)
+  })
+
+  it("holds requests until a quota resets when every token is exhausted", async () => {
+    tokens.pickToken.mockReturnValueOnce(null).mockReturnValue(first)
+    tokens.nextQuotaReset.mockReturnValue(Date.now() + MINUTE_MS)
+    const send = vi.fn().mockResolvedValue(ok())
+
+    const request = scheduleRequest("core", send)
+    await vi.advanceTimersByTimeAsync(MINUTE_MS)
+    expect(send).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(request).resolves.toEqual(ok())
+  })
+})
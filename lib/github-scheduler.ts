@@ -0,0 +1,181 @@
+import "server-only"
+import { nextQuotaReset, pickToken, recordUsage, revokeToken } from "@/lib/github-tokens"
+
+// Central scheduler for every GitHub request. Requests are throttled per endpoint class,
+// spread over the token pool, held back while every token's rate limit window is exhausted,
+// and retried with backoff on secondary rate limits.
+
+export type EndpointClass = "core" | "search" | "graphql"
+
+export interface RateLimitStatus {
+  waitingUntil: string | null // ISO time requests are held until, null when not waiting
+  endpoint: EndpointClass | null
+}
+
+interface ClassLimits {
+  concurrency: number
+  minInterval: number // ms between request starts
+}
+
+// The search API allows 30 requests per minute with a token, far less than the core API
+const CLASS_LIMITS: Record<EndpointClass, ClassLimits> = {
+  core: { concurrency: 8, minInterval: 0 },
+  search: { concurrency: 1, minInterval: 2000 },
+  graphql: { concurrency: 2, minInterval: 250 },
+}
+
+const MAX_RETRIES = 3
+
+// GitHub asks clients to wait at least a minute after a secondary rate limit without retry-after
+const SECONDARY_LIMIT_BACKOFF_MS = 60 * 1000
+
+interface ClassState {
+  active: number
+  waiters: (() => void)[]
+  nextStart: number
+  blockedUntil: number
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+// Kept on globalThis so the state survives module reloads in development
+const globalForScheduler = globalThis as typeof globalThis & {
+  __githubScheduler?: Record<EndpointClass, ClassState>
+}
+const classes = (globalForScheduler.__githubScheduler ??= {
+  core: createClassState(),
+  search: createClassState(),
+  graphql: createClassState(),
+})
+
+function createClassState(): ClassState {
+  return { active: 0, waiters: [], nextStart: 0, blockedUntil: 0, timer: null }
+}
+
+export function endpointClass(url: string): EndpointClass {
+  const path = url.replace(/^https?:\/\/[^/]+/, "")
+  if (path.startsWith("/search/")) return "search"
+  if (path === "/graphql") return "graphql"
+  return "core"
+}
+
+// Start as many waiting requests as the class allows, or schedule a retry once it may start more
+function drain(endpoint: EndpointClass) {
+  const state = classes[endpoint]
+  const limits = CLASS_LIMITS[endpoint]
+  if (state.timer) return
+
+  while (state.waiters.length > 0 && state.active < limits.concurrency) {
+    const delay = Math.max(state.blockedUntil, state.nextStart) - Date.now()
+    if (delay > 0) {
+      state.timer = setTimeout(() => {
+        state.timer = null
+        drain(endpoint)
+      }, delay)
+      return
+    }
+
+    state.active++
+    state.nextStart = Date.now() + limits.minInterval
+    state.waiters.shift()!()
+  }
+}
+
+function acquire(endpoint: EndpointClass): Promise<void> {
+  return new Promise((resolve) => {
+    classes[endpoint].waiters.push(resolve)
+    drain(endpoint)
+  })
+}
+
+function release(endpoint: EndpointClass) {
+  classes[endpoint].active--
+  drain(endpoint)
+}
+
+function blockUntil(endpoint: EndpointClass, until: number) {
+  const state = classes[endpoint]
+  if (until <= state.blockedUntil) return
+  state.blockedUntil = until
+  console.warn(`GitHub ${endpoint} rate limit reached, waiting until ${new Date(until).toISOString()}`)
+}
+
+// A 403/429 because the token's primary quota is used up; recordUsage() has noted the reset time
+function isPrimaryRateLimit(error: any): boolean {
+  return (error?.status === 403 || error?.status === 429) && error.response?.headers?.["x-ratelimit-remaining"] === "0"
+}
+
+// How long to wait before retrying after a secondary rate limit, or null when it is another error
+function secondaryLimitWait(error: any, attempt: number): number | null {
+  const status = error?.status
+  if (status !== 403 && status !== 429) return null
+
+  const retryAfter = Number(error.response?.headers?.["retry-after"])
+  if (retryAfter > 0) {
+    return retryAfter * 1000
+  }
+  // A 403 without rate limit hints is a permission error, e.g. listing collaborators
+  if (status === 429 || /rate limit/i.test(error.message ?? "")) {
+    return SECONDARY_LIMIT_BACKOFF_MS * 2 ** attempt
+  }
+  return null
+}
+
+// Run one request through the scheduler with a token from the pool. Requests move to another
+// token when one runs out or is revoked, and wait when none has quota left.
+export async function scheduleRequest<T extends { headers: Record<string, any> }>(
+  endpoint: EndpointClass,
+  send: (token: string | null) => Promise<T>,
+): Promise<T> {
+  let attempt = 0
+  for (;;) {
+    await acquire(endpoint)
+    const token = pickToken(endpoint)
+    try {
+      if (!token) {
+        blockUntil(endpoint, nextQuotaReset(endpoint) + 1000)
+        continue
+      }
+
+      const response = await send(token.value)
+      recordUsage(token, endpoint, response.headers)
+      return response
+    } catch (error: any) {
+      if (!token) throw error
+      recordUsage(token, endpoint, error?.response?.headers)
+
+      if (error?.status === 401 && token.value !== null) {
+        revokeToken(token)
+        continue
+      }
+      if (isPrimaryRateLimit(error)) {
+        continue
+      }
+
+      const wait = secondaryLimitWait(error, attempt)
+      if (wait === null || attempt >= MAX_RETRIES) {
+        throw error
+      }
+      attempt++
+      blockUntil(endpoint, Date.now() + wait)
+    } finally {
+      release(endpoint)
+    }
+  }
+}
+
+export function getRateLimitStatus(): RateLimitStatus {
+  const now = Date.now()
+  let waiting: { endpoint: EndpointClass; until: number } | null = null
+
+  for (const endpoint of Object.keys(classes) as EndpointClass[]) {
+    const state = classes[endpoint]
+    if (state.blockedUntil > now && (!waiting || state.blockedUntil > waiting.until)) {
+      waiting = { endpoint, until: state.blockedUntil }
+    }
+  }
+
+  return {
+    waitingUntil: waiting ? new Date(waiting.until).toISOString() : null,
+    endpoint: waiting?.endpoint ?? null,
+  }
+}
@@ -0,0 +1,177 @@
+import "server-only"
+import type { EndpointClass } from "@/lib/github-scheduler"
+
+// Pool of GitHub tokens, e.g. personal access tokens collected from staff volunteers.
+// Each request uses the token with the most remaining quota for its endpoint class;
+// tokens GitHub rejects as revoked or expired are taken out of rotation.
+
+export type TokenStatus = "active" | "exhausted" | "revoked"
+
+export interface TokenQuota {
+  remaining: number
+  limit: number
+  resetAt: string
+}
+
+// What the admin page sees; no part of the token itself leaves the server
+export interface TokenView {
+  id: string
+  index: number | null // position in the configured tokens, starting at 1; null for unauthenticated requests
+  label: string
+  status: TokenStatus
+  requests: number
+  lastUsedAt: string | null
+  revokedAt: string | null
+  quotas: Partial<Record<EndpointClass, TokenQuota>>
+}
+
+export interface PoolToken {
+  id: string
+  index: number | null
+  value: string | null // null for unauthenticated requests
+  requests: number
+  lastUsedAt: number | null
+  revokedAt: number | null
+  quotas: Partial<Record<EndpointClass, { remaining: number; limit: number; reset: number }>>
+}
+
+// Tokens come from GITHUB_TOKENS (comma or whitespace separated) plus GITHUB_TOKEN
+function configuredTokens(): string[] {
+  const values = [process.env.GITHUB_TOKEN, ...(process.env.GITHUB_TOKENS ?? "").split(/[\s,]+/)]
+  return [...new Set(values.map((value) => value?.trim()).filter((value): value is string => !!value))]
+}
+
+function createToken(index: number | null, value: string | null): PoolToken {
+  return { id: index === null ? "anonymous" : `token-${index}`, index, value, requests: 0, lastUsedAt: null, revokedAt: null, quotas: {} }
+}
+
+// Kept on globalThis so the state survives module reloads in development
+const globalForTokens = globalThis as typeof globalThis & { __githubTokenPool?: PoolToken[] }
+const pool = (globalForTokens.__githubTokenPool ??= configuredTokens().map((value, index) =>
+  createToken(index + 1, value),
+))
+
+// Used when no token is configured, or every configured token has been revoked
+const anonymous = createToken(null, null)
+
+export function hasTokens(): boolean {
+  return pool.some((token) => token.revokedAt === null)
+}
+
+function remainingQuota(token: PoolToken, endpoint: EndpointClass, now: number): number {
+  const quota = token.quotas[endpoint]
+  if (!quota || quota.reset <= now) return Infinity // unknown or already reset
+  return quota.remaining
+}
+
+// The usable token with the most quota left, or null when every token is exhausted
+export function pickToken(endpoint: EndpointClass): PoolToken | null {
+  const now = Date.now()
+  const candidates = hasTokens() ? pool.filter((token) => token.revokedAt === null) : [anonymous]
+
+  let best: PoolToken | null = null
+  for (const token of candidates) {
+    const remaining = remainingQuota(token, endpoint, now)
+    if (remaining > 0 && (!best || remaining > remainingQuota(best, endpoint, now))) {
+      best = token
+    }
+  }
+  return best
+}
+
+// When the earliest exhausted token gets its quota back
+export function nextQuotaReset(endpoint: EndpointClass): number {
+  const candidates = hasTokens() ? pool.filter((token) => token.revokedAt === null) : [anonymous]
+  const resets = candidates.map((token) => token.quotas[endpoint]?.reset ?? 0)
+  return Math.min(...resets)
+}
+
+// Update a token's quota from GitHub's x-ratelimit-* response headers
+export function recordUsage(
+  token: PoolToken,
+  endpoint: EndpointClass,
+  headers: Record<string, string | number | undefined> | undefined,
+) {
+  token.requests++
+  token.lastUsedAt = Date.now()
+
+  const remaining = headers?.["x-ratelimit-remaining"]
+  if (remaining === undefined) return
+  token.quotas[endpoint] = {
+    remaining: Number(remaining),
+    limit: Number(headers?.["x-ratelimit-limit"]),
+    reset: Number(headers?.["x-ratelimit-reset"]) * 1000,
+  }
+}
+
+export function revokeToken(token: PoolToken) {
+  if (token.value === null || token.revokedAt !== null) return
+  token.revokedAt = Date.now()
+  console.warn(`GitHub rejected ${token.id}, removing it from rotation`)
+}
+
+function tokenStatus(token: PoolToken): TokenStatus {
+  if (token.revokedAt !== null) return "revoked"
+  const now = Date.now()
+  const exhausted = Object.values(token.quotas).some((quota) => quota.remaining === 0 && quota.reset > now)
+  return exhausted ? "exhausted" : "active"
+}
+
+function toTokenView(token: PoolToken): TokenView {
+  const quotas: TokenView["quotas"] = {}
+  for (const [endpoint, quota] of Object.entries(token.quotas) as [EndpointClass, PoolToken["quotas"]["core"]][]) {
+    if (quota) {
+      quotas[endpoint] = { remaining: quota.remaining, limit: quota.limit, resetAt: new Date(quota.reset).toISOString() }
+    }
+  }
+
+  return {
+    id: token.id,
+    index: token.index,
+    label: token.index === null ? "Unauthenticated" : `Token ${token.index}`,
+    status: tokenStatus(token),
+    requests: token.requests,
+    lastUsedAt: token.lastUsedAt ? new Date(token.lastUsedAt).toISOString() : null,
+    revokedAt: token.revokedAt ? new Date(token.revokedAt).toISOString() : null,
+    quotas,
+  }
+}
+
+export function listTokens(): TokenView[] {
+  // Unauthenticated requests are only made while no configured token is usable
+  return (hasTokens() ? pool : [...pool, anonymous]).map(toTokenView)
+}
+
+// Fetch every token's current quotas from /rate_limit, which does not count against the limit.
+// Tokens GitHub no longer accepts are revoked here as well.
+export async function refreshTokens(): Promise<TokenView[]> {
+  const tokens = pool.length > 0 ? pool.filter((token) => token.revokedAt === null) : [anonymous]
+
+  await Promise.all(
+    tokens.map(async (token) => {
+      try {
+        const response = await fetch("https://api.github.com/rate_limit", {
+          headers: {
+            accept: "application/vnd.github+json",
+            ...(token.value ? { authorization: `token ${token.value}` } : {}),
+          },
+        })
+        if (response.status === 401) {
+          revokeToken(token)
+          return
+        }
+        const body = await response.json()
+        for (const endpoint of ["core", "search", "graphql"] as EndpointClass[]) {
+          const resource = body.resources?.[endpoint]
+          if (resource) {
+            token.quotas[endpoint] = { remaining: resource.remaining, limit: resource.limit, reset: resource.reset * 1000 }
+          }
+        }
+      } catch (error) {
+        console.warn(`Could not refresh quota for ${token.id}:`, error)
+      }
+    }),
+  )
+
+  return listTokens()
+}
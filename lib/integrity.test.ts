@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+const octokit = vi.hoisted(() => ({
+  search: { commits: vi.fn(), issuesAndPullRequests: vi.fn() },
+  repos: { getCommit: vi.fn() },
+}))
+vi.mock("@/lib/github-client", () => ({ octokit }))
+
+const graphql = vi.hoisted(() => ({ fetchSelfMergedPullRequestsGraphql: vi.fn() }))
+vi.mock("@/lib/github-graphql", () => graphql)
+
+import { analyzeIntegrity } from "@/lib/integrity"
+
+const NO_PENALTY = { penaltyPerFlag: 0, maxPenalty: 0 }
+const STRICT = { penaltyPerFlag: 0.1, maxPenalty: 0.3 }
+
+interface Activity {
+  commitDates?: string[] // author dates, with the committer's UTC offset
+  commitSizes?: number[] // lines changed, for the first sampled commits
+  mergedPRs?: number
+  selfMergedPRs?: number | null // merged by the user themselves; null when GraphQL is unavailable
+  issueDates?: string[]
+}
+
+function mockActivity({ commitDates = [], commitSizes = [], mergedPRs = 0, selfMergedPRs = 0, issueDates = [] }: Activity) {
+  graphql.fetchSelfMergedPullRequestsGraphql.mockResolvedValue(
+    selfMergedPRs === null ? null : { total: mergedPRs, sampled: Math.min(mergedPRs, 100), selfMerged: selfMergedPRs },
+  )
+  octokit.search.commits.mockResolvedValue({
+    data: {
+      items: commitDates.map((date, index) => ({
+        sha: `sha${index}`,
+        commit: { author: { date } },
+        repository: { name: "repo", owner: { login: "octocat" } },
+      })),
+    },
+  })
+  octokit.repos.getCommit.mockImplementation(async ({ ref }: { ref: string }) => ({
+    data: { stats: { total: commitSizes[Number(ref.slice(3))] ?? 50 } },
+  }))
+  octokit.search.issuesAndPullRequests.mockImplementation(async ({ q }: { q: string }) => {
+    if (q.startsWith("is:issue")) {
+      return { data: { total_count: issueDates.length, items: issueDates.map((created_at) => ({ created_at })) } }
+    }
+    return { data: { total_count: mergedPRs, items: [] } }
+  })
+}
+
+// One commit a day at the same time, as a scheduled job would make
+function dailyCommits(days: number, time: string): string[] {
+  return Array.from({ length: days }, (_, day) => `2024-03-${String(day + 1).padStart(2, "0")}T${time}+05:30`)
+}
+
+function halfHoursApart(count: number, start = "2024-05-01T00:00:00Z"): string[] {
+  return Array.from({ length: count }, (_, index) => new Date(Date.parse(start) + index * 30 * 60 * 1000).toISOString())
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe("analyzeIntegrity", () => {
+  it("raises no flags for ordinary activity", async () => {
+    mockActivity({
+      commitDates: ["2024-03-01T09:12:00Z", "2024-03-02T17:40:00Z", "2024-03-05T23:05:00Z"],
+      mergedPRs: 6,
+      selfMergedPRs: 2,
+      issueDates: ["2024-01-01T10:00:00Z", "2024-02-01T10:00:00Z"],
+    })
+
+    const report = await analyzeIntegrity("octocat", {}, STRICT)
+
+    expect(report.flags).toEqual([])
+    expect(report.penalty).toBe(0)
+    expect(report.metrics).toMatchObject({ commitsSampled: 3, commitDays: 3, mergedPRs: 6, maxReposCreatedInDay: null })
+  })
+
+  it("flags commits landing at the same local time every day", async () => {
+    mockActivity({ commitDates: dailyCommits(20, "09:00:00") })
+
+    const report = await analyzeIntegrity("octocat", {}, NO_PENALTY)
+
+    expect(report.metrics.timeOfDaySpreadMinutes).toBeLessThan(1)
+    expect(report.flags.map((flag) => [flag.key, flag.severity])).toEqual([["regularCommits", "high"]])
+  })
+
+  it("treats times either side of midnight as close together", async () => {
+    const dates = dailyCommits(20, "23:55:00").map((date, index) => (index % 2 ? date.replace("23:55", "00:05") : date))
+    mockActivity({ commitDates: dates })
+
+    const report = await analyzeIntegrity("octocat", {}, NO_PENALTY)
+
+    expect(report.metrics.timeOfDaySpreadMinutes).toBeLessThan(10)
+    expect(report.flags.map((flag) => flag.key)).toContain("regularCommits")
+  })
+
+  it("needs commits on enough days before judging the schedule", async () => {
+    mockActivity({ commitDates: dailyCommits(13, "09:00:00") })
+
+    const report = await analyzeIntegrity("octocat", {}, NO_PENALTY)
+
+    expect(report.flags).toEqual([])
+  })
+
+  it("flags a sample made mostly of trivially small commits", async () => {
+    mockActivity({
+      commitDates: halfHoursApart(12),
+      commitSizes: [1, 2, 1, 1, 2, 1, 1, 2, 40, 60, 1, 1],
+    })
+
+    const report = await analyzeIntegrity("octocat", {}, NO_PENALTY)
+
+    expect(report.metrics.tinyCommitShare).toBeCloseTo(10 / 12)
+    expect(report.flags.map((flag) => flag.key)).toEqual(["tinyCommits"])
+  })
+
+  it("flags pull requests the user almost always merged themselves", async () => {
+    mockActivity({ mergedPRs: 10, selfMergedPRs: 9 })
+
+    const report = await analyzeIntegrity("octocat", {}, NO_PENALTY)
+
+    expect(report.metrics.selfMergeRatio).toBe(0.9)
+    expect(report.flags.map((flag) => flag.key)).toEqual(["selfMergedPRs"])
+    expect(graphql.fetchSelfMergedPullRequestsGraphql).toHaveBeenCalledWith("octocat", "is:pr is:merged author:octocat")
+  })
+
+  it("judges the most recent merged pull requests when there are more than one page", async () => {
+    mockActivity({ mergedPRs: 250, selfMergedPRs: 95 })
+
+    const report = await analyzeIntegrity("octocat", {}, NO_PENALTY)
+
+    expect(report.metrics).toMatchObject({ mergedPRs: 250, selfMergeRatio: 0.95 })
+    expect(report.flags[0].detail).toBe("95 of the 100 most recent merged pull requests were merged by the user themselves.")
+  })
+
+  it("only counts merged pull requests without GraphQL", async () => {
+    mockActivity({ mergedPRs: 10, selfMergedPRs: null })
+
+    const report = await analyzeIntegrity("octocat", {}, NO_PENALTY)
+
+    expect(report.metrics).toMatchObject({ mergedPRs: 10, selfMergeRatio: null })
+    expect(report.flags).toEqual([])
+  })
+
+  it("grades bursts of repository and issue creation by size", async () => {
+    mockActivity({ issueDates: halfHoursApart(12) })
+
+    const report = await analyzeIntegrity("octocat", { repositoryCreatedAt: halfHoursApart(10) }, NO_PENALTY)
+
+    expect(report.metrics).toMatchObject({ maxReposCreatedInDay: 10, maxIssuesOpenedInDay: 12 })
+    expect(report.flags.map((flag) => [flag.key, flag.severity])).toEqual([
+      ["repoBurst", "high"],
+      ["issueBurst", "warning"],
+    ])
+  })
+
+  it("counts high severity flags twice and caps the penalty", async () => {
+    mockActivity({ issueDates: halfHoursApart(12) })
+    expect((await analyzeIntegrity("octocat", {}, STRICT)).penalty).toBe(0.1)
+
+    mockActivity({ issueDates: halfHoursApart(25) })
+    expect((await analyzeIntegrity("octocat", {}, STRICT)).penalty).toBe(0.2)
+
+    mockActivity({ commitDates: dailyCommits(20, "09:00:00"), issueDates: halfHoursApart(25) })
+    expect((await analyzeIntegrity("octocat", {}, STRICT)).penalty).toBe(0.3)
+  })
+
+  it("limits every search and the repository bursts to the evaluation window", async () => {
+    mockActivity({})
+    const range = { since: new Date("2024-01-01T00:00:00Z"), until: new Date("2024-06-30T23:59:59.999Z") }
+
+    const report = await analyzeIntegrity(
+      "octocat",
+      { repositoryCreatedAt: [...halfHoursApart(10, "2023-05-01T00:00:00Z"), "2024-03-01T00:00:00Z"], range },
+      NO_PENALTY,
+    )
+
+    expect(report.metrics.maxReposCreatedInDay).toBe(1)
+    expect(octokit.search.commits).toHaveBeenCalledWith(
+      expect.objectContaining({ q: "author:octocat author-date:2024-01-01..2024-06-30" }),
+    )
+    expect(graphql.fetchSelfMergedPullRequestsGraphql).toHaveBeenCalledWith(
+      "octocat",
+      "is:pr is:merged author:octocat merged:2024-01-01..2024-06-30",
+    )
+    expect(octokit.search.issuesAndPullRequests).toHaveBeenCalledWith(
+      expect.objectContaining({ q: "is:issue author:octocat created:2024-01-01..2024-06-30" }),
+    )
+  })
+
+  it("limits every search to the repository in scope", async () => {
+    mockActivity({})
+
+    await analyzeIntegrity("octocat", { repository: { owner: "acme", name: "widgets" } }, NO_PENALTY)
+
+    expect(octokit.search.commits).toHaveBeenCalledWith(expect.objectContaining({ q: "author:octocat repo:acme/widgets" }))
+    expect(graphql.fetchSelfMergedPullRequestsGraphql.mock.calls[0][1]).toMatch(/ repo:acme\/widgets$/)
+    octokit.search.issuesAndPullRequests.mock.calls.forEach(([{ q }]) => expect(q).toMatch(/ repo:acme\/widgets$/))
+  })
+})
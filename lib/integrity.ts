@@ -0,0 +1,215 @@
+import "server-only"
+import { dateQualifier, isInRange, type DateRange } from "@/lib/evaluation-window"
+import { octokit } from "@/lib/github-client"
+import { fetchSelfMergedPullRequestsGraphql } from "@/lib/github-graphql"
+import type { IntegrityWeights } from "@/lib/scoring-profiles"
+
+// Flags activity patterns that inflate GitHub scores without real work: scripted daily commits,
+// trivially small commits, pull requests the author merged themselves, and bursts of
+// repository or issue creation. The report is shown next to scores so placement officers can review
+// a student before shortlisting; profiles can also turn the flags into a score penalty.
+
+export type IntegrityFlagKey = "regularCommits" | "tinyCommits" | "selfMergedPRs" | "repoBurst" | "issueBurst"
+
+export type IntegritySeverity = "warning" | "high"
+
+export interface IntegrityFlag {
+  key: IntegrityFlagKey
+  label: string
+  severity: IntegritySeverity
+  detail: string
+}
+
+export interface IntegrityMetrics {
+  commitsSampled: number
+  commitDays: number // distinct days with commits in the sample
+  timeOfDaySpreadMinutes: number | null // circular standard deviation of commit times
+  tinyCommitShare: number | null // share of sampled commits changing at most TINY_COMMIT_LINES lines
+  mergedPRs: number
+  selfMergeRatio: number | null // share of the most recent merged PRs the user merged themselves; null without GraphQL
+  maxReposCreatedInDay: number | null // null when repositories were not part of the analysis
+  maxIssuesOpenedInDay: number
+}
+
+export interface IntegrityReport {
+  flags: IntegrityFlag[]
+  metrics: IntegrityMetrics
+  penalty: number // share taken off the total score (0-1), 0 unless the scoring profile penalizes flags
+}
+
+// Scope of the analysis: one repository for a contributor score, or all of a user's activity
+export interface IntegrityScope {
+  repository?: { owner: string; name: string }
+  repositoryCreatedAt?: string[] // creation dates of the user's repositories, for burst detection
+  range?: DateRange // the evaluation window; activity outside it is not analyzed
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTES_PER_DAY = 24 * 60
+
+const SIZE_SAMPLE = 20 // commits whose diff stats are fetched
+const TINY_COMMIT_LINES = 2
+
+// Thresholds at which a pattern is flagged
+const MIN_COMMIT_DAYS = 14
+const REGULAR_SPREAD_MINUTES = 20
+const MIN_SIZED_COMMITS = 10
+const TINY_COMMIT_SHARE = 0.6
+const MIN_MERGED_PRS = 5
+const SELF_MERGE_RATIO = 0.9
+const REPO_BURST = { warning: 5, high: 10 }
+const ISSUE_BURST = { warning: 10, high: 25 }
+
+// Circular standard deviation of times of day, so 23:50 and 00:10 count as 20 minutes apart
+function timeOfDaySpread(minutes: number[]): number {
+  const angles = minutes.map((minute) => (minute / MINUTES_PER_DAY) * 2 * Math.PI)
+  const x = angles.reduce((sum, angle) => sum + Math.cos(angle), 0) / angles.length
+  const y = angles.reduce((sum, angle) => sum + Math.sin(angle), 0) / angles.length
+  const resultant = Math.min(1, Math.sqrt(x * x + y * y))
+  if (resultant === 0) return MINUTES_PER_DAY / 2
+  return (Math.sqrt(-2 * Math.log(resultant)) * MINUTES_PER_DAY) / (2 * Math.PI)
+}
+
+// Largest number of timestamps within any 24 hour window
+function maxInOneDay(dates: string[]): number {
+  const times = dates.map((date) => new Date(date).getTime()).sort((a, b) => a - b)
+  let max = 0
+  let start = 0
+  for (let end = 0; end < times.length; end++) {
+    while (times[end] - times[start] >= DAY_MS) start++
+    max = Math.max(max, end - start + 1)
+  }
+  return max
+}
+
+function scopeQualifier(scope: IntegrityScope): string {
+  return scope.repository ? ` repo:${scope.repository.owner}/${scope.repository.name}` : ""
+}
+
+async function sampleCommits(username: string, scope: IntegrityScope, range: DateRange) {
+  const { data } = await octokit.search.commits({
+    q: `author:${username}` + scopeQualifier(scope) + dateQualifier("author-date", range),
+    sort: "author-date",
+    order: "desc",
+    per_page: 100,
+  })
+
+  // The author date keeps the committer's UTC offset, so the local time of day is read straight from it
+  const authorDates = data.items.map((item) => item.commit.author?.date).filter((date): date is string => !!date)
+  const minutes = authorDates.map((date) => Number(date.slice(11, 13)) * 60 + Number(date.slice(14, 16)))
+  const days = new Set(authorDates.map((date) => date.slice(0, 10)))
+
+  const sizes = await Promise.all(
+    data.items.slice(0, SIZE_SAMPLE).map(async (item) => {
+      try {
+        const { data: commit } = await octokit.repos.getCommit({
+          owner: item.repository.owner.login,
+          repo: item.repository.name,
+          ref: item.sha,
+        })
+        return commit.stats?.total ?? null
+      } catch {
+        return null
+      }
+    }),
+  )
+
+  return { count: authorDates.length, minutes, days: days.size, sizes: sizes.filter((size): size is number => size !== null) }
+}
+
+async function countIssues(query: string): Promise<number> {
+  const { data } = await octokit.search.issuesAndPullRequests({ q: query, per_page: 1 })
+  return data.total_count
+}
+
+// Without GraphQL only the total is known, and nothing is said about who merged the pull requests
+async function mergedPullRequests(username: string, query: string) {
+  return (await fetchSelfMergedPullRequestsGraphql(username, query)) ?? { total: await countIssues(query), sampled: 0, selfMerged: 0 }
+}
+
+export async function analyzeIntegrity(
+  username: string,
+  scope: IntegrityScope,
+  weights: IntegrityWeights,
+): Promise<IntegrityReport> {
+  const range = scope.range ?? { since: null, until: null }
+  const qualifier = scopeQualifier(scope)
+  const [commits, merged, issues] = await Promise.all([
+    sampleCommits(username, scope, range),
+    mergedPullRequests(username, `is:pr is:merged author:${username}${qualifier}` + dateQualifier("merged", range)),
+    octokit.search.issuesAndPullRequests({
+      q: `is:issue author:${username}${qualifier}` + dateQualifier("created", range),
+      sort: "created",
+      order: "desc",
+      per_page: 100,
+    }),
+  ])
+
+  const metrics: IntegrityMetrics = {
+    commitsSampled: commits.count,
+    commitDays: commits.days,
+    timeOfDaySpreadMinutes: commits.minutes.length > 0 ? Math.round(timeOfDaySpread(commits.minutes)) : null,
+    tinyCommitShare:
+      commits.sizes.length > 0
+        ? commits.sizes.filter((size) => size <= TINY_COMMIT_LINES).length / commits.sizes.length
+        : null,
+    mergedPRs: merged.total,
+    selfMergeRatio: merged.sampled > 0 ? merged.selfMerged / merged.sampled : null,
+    maxReposCreatedInDay: scope.repositoryCreatedAt
+      ? maxInOneDay(scope.repositoryCreatedAt.filter((date) => isInRange(date, range)))
+      : null,
+    maxIssuesOpenedInDay: maxInOneDay(issues.data.items.map((issue) => issue.created_at)),
+  }
+
+  const flags: IntegrityFlag[] = []
+  if (
+    commits.days >= MIN_COMMIT_DAYS &&
+    metrics.timeOfDaySpreadMinutes !== null &&
+    metrics.timeOfDaySpreadMinutes < REGULAR_SPREAD_MINUTES
+  ) {
+    flags.push({
+      key: "regularCommits",
+      label: "Scripted commit schedule",
+      severity: "high",
+      detail: `Commits on ${commits.days} days all land within about ${metrics.timeOfDaySpreadMinutes} minutes of the same time of day.`,
+    })
+  }
+  if (commits.sizes.length >= MIN_SIZED_COMMITS && metrics.tinyCommitShare! >= TINY_COMMIT_SHARE) {
+    flags.push({
+      key: "tinyCommits",
+      label: "Trivial commits",
+      severity: "warning",
+      detail: `${Math.round(metrics.tinyCommitShare! * 100)}% of ${commits.sizes.length} sampled commits change ${TINY_COMMIT_LINES} lines or fewer.`,
+    })
+  }
+  if (merged.sampled >= MIN_MERGED_PRS && metrics.selfMergeRatio! >= SELF_MERGE_RATIO) {
+    flags.push({
+      key: "selfMergedPRs",
+      label: "Self-merged pull requests",
+      severity: "warning",
+      detail: `${merged.selfMerged} of the ${merged.sampled} most recent merged pull requests were merged by the user themselves.`,
+    })
+  }
+  if (metrics.maxReposCreatedInDay !== null && metrics.maxReposCreatedInDay >= REPO_BURST.warning) {
+    flags.push({
+      key: "repoBurst",
+      label: "Bulk-created repositories",
+      severity: metrics.maxReposCreatedInDay >= REPO_BURST.high ? "high" : "warning",
+      detail: `${metrics.maxReposCreatedInDay} repositories were created within 24 hours.`,
+    })
+  }
+  if (metrics.maxIssuesOpenedInDay >= ISSUE_BURST.warning) {
+    flags.push({
+      key: "issueBurst",
+      label: "Mass issue creation",
+      severity: metrics.maxIssuesOpenedInDay >= ISSUE_BURST.high ? "high" : "warning",
+      detail: `${metrics.maxIssuesOpenedInDay} issues were opened within 24 hours.`,
+    })
+  }
+
+  // High severity flags count twice
+  const weightedFlags = flags.reduce((sum, flag) => sum + (flag.severity === "high" ? 2 : 1), 0)
+  const penalty = Math.min(weights.maxPenalty, weightedFlags * weights.penaltyPerFlag)
+
+  return { flags, metrics, penalty: Math.round(penalty * 100) / 100 }
+}
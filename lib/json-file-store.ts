@@ -0,0 +1,71 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// Server-side persistence for data that must outlive a browser tab.
+// Files live under DATA_DIR (defaults to ./.data in the project root);
+// names may contain "/" to group files into subdirectories.
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+
+// Pending write per file, so concurrent saves are applied in order
+const writeQueues = new Map<string, Promise<void>>()
+
+function dataFilePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`)
+}
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const contents = await fs.readFile(dataFilePath(name), "utf8")
+    return JSON.parse(contents) as T
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      console.error(`Could not read data file ${name}:`, error)
+    }
+    return fallback
+  }
+}
+
+// Write via a temporary file and rename, so a crash never leaves a half-written file behind
+export function writeJsonFile(name: string, data: unknown): Promise<void> {
+  const filePath = dataFilePath(name)
+  const previous = writeQueues.get(filePath) ?? Promise.resolve()
+
+  const next = previous.then(async () => {
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(tempPath, JSON.stringify(data), "utf8")
+    await fs.rename(tempPath, filePath)
+  })
+
+  // Keep the queue alive even if this write fails
+  writeQueues.set(
+    filePath,
+    next.catch((error) => console.error(`Could not write data file ${name}:`, error)),
+  )
+
+  return next
+}
+
+// Delete the files in a directory that have not been written for `maxAge` ms. Returns how many were removed.
+export async function pruneJsonFiles(directory: string, maxAge: number): Promise<number> {
+  const dirPath = path.join(DATA_DIR, directory)
+  let names: string[]
+  try {
+    names = await fs.readdir(dirPath)
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return 0
+    throw error
+  }
+
+  const cutoff = Date.now() - maxAge
+  let removed = 0
+  for (const name of names.filter((candidate) => candidate.endsWith(".json"))) {
+    const filePath = path.join(dirPath, name)
+    const stats = await fs.stat(filePath).catch(() => null)
+    if (stats && stats.mtimeMs < cutoff) {
+      await fs.rm(filePath, { force: true })
+      removed++
+    }
+  }
+  return removed
+}
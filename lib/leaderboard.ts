@@ -0,0 +1,77 @@
+import "server-only"
+import type { BatchJob } from "@/lib/batch-jobs"
+import type { EvaluationWindow } from "@/lib/evaluation-window"
+import type { OpenSourceValueData } from "@/lib/github-api"
+import type { IntegrityFlag } from "@/lib/integrity"
+import type { ScoringProfileRef } from "@/lib/scoring-profiles"
+import { getSnapshotRepository, type Snapshot } from "@/lib/snapshot-store"
+import type { StudentRecord } from "@/lib/student-import"
+
+export interface LeaderboardEntry {
+  rank: number
+  student: StudentRecord
+  totalScore: number
+  openSourceRepoCount: number
+  repositories: OpenSourceValueData["repositories"]
+  integrityFlags: IntegrityFlag[] // empty when nothing was flagged or the analysis did not run
+}
+
+export interface Leaderboard {
+  jobId: string
+  jobName: string
+  generatedAt: string
+  scoringProfile?: ScoringProfileRef
+  evaluationWindow?: EvaluationWindow
+  analyzedCount: number
+  totalCount: number
+  entries: LeaderboardEntry[]
+}
+
+// Rank every analyzed student in a cohort by open source value.
+// Students with equal scores share a rank (1, 1, 3, ...).
+export async function buildLeaderboard(job: BatchJob): Promise<Leaderboard> {
+  const snapshots = getSnapshotRepository()
+  const results = await Promise.all(
+    job.items.map(async (item) => {
+      if (item.status !== "completed" || !item.snapshotId) return null
+      const snapshot = (await snapshots.get(item.snapshotId)) as Snapshot<"openSourceValue"> | null
+      return snapshot ? { student: item.student, data: snapshot.data } : null
+    }),
+  )
+
+  const analyzed = results
+    .filter((result) => result !== null)
+    .map(({ student, data }) => ({
+      student,
+      totalScore: data.totalScore,
+      repositories: data.repositories,
+      integrityFlags: data.integrity?.flags ?? [],
+    }))
+    .sort((a, b) => b.totalScore - a.totalScore)
+
+  let rank = 0
+  const entries: LeaderboardEntry[] = analyzed.map((entry, index) => {
+    if (index === 0 || entry.totalScore !== analyzed[index - 1].totalScore) {
+      rank = index + 1
+    }
+    return {
+      rank,
+      student: entry.student,
+      totalScore: entry.totalScore,
+      openSourceRepoCount: entry.repositories.filter((repo) => repo.isOpenSource).length,
+      repositories: entry.repositories,
+      integrityFlags: entry.integrityFlags,
+    }
+  })
+
+  return {
+    jobId: job.id,
+    jobName: job.name,
+    generatedAt: new Date().toISOString(),
+    scoringProfile: job.scoringProfile,
+    evaluationWindow: job.evaluationWindow,
+    analyzedCount: entries.length,
+    totalCount: job.items.length,
+    entries,
+  }
+}
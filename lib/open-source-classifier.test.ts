@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import type { OpenSourceFactors } from "@/lib/github-api"
+import { classifyOpenSource, licenseCategory } from "@/lib/open-source-classifier"
+import { findScoringProfile } from "@/lib/scoring-profiles"
+
+const placement = findScoringProfile("placement-default")!.openSource
+const strict = findScoringProfile("strict-oss")!.openSource
+
+const NOTHING: OpenSourceFactors = {
+  isPrivate: false,
+  forks: 0,
+  stars: 0,
+  contributors: 0,
+  license: null,
+  issues: 0,
+  recentActivity: 0,
+  size: 0,
+}
+
+function points(factors: Partial<OpenSourceFactors>, weights = placement) {
+  const classification = classifyOpenSource({ ...NOTHING, ...factors }, weights)
+  return Object.fromEntries(classification.factors.map((factor) => [factor.key, factor.points]))
+}
+
+describe("licenseCategory", () => {
+  it("sorts SPDX ids into licence categories", () => {
+    expect(licenseCategory("MIT")).toBe("permissive")
+    expect(licenseCategory("Apache-2.0")).toBe("permissive")
+    expect(licenseCategory("GPL-3.0-only")).toBe("copyleft")
+    expect(licenseCategory("MPL-2.0")).toBe("copyleft")
+    expect(licenseCategory("NOASSERTION")).toBe("noassertion")
+    expect(licenseCategory("CC-BY-NC-4.0")).toBe("proprietary")
+    expect(licenseCategory(null)).toBe("none")
+  })
+})
+
+describe("classifyOpenSource", () => {
+  it("earns each factor's weight per unit up to its cap", () => {
+    expect(points({ forks: 10, stars: 1000, contributors: 3, issues: 5, recentActivity: 40, size: 4500 })).toEqual({
+      forks: 5,
+      stars: 30,
+      contributors: 15,
+      license: 0,
+      issues: 2,
+      recentCommits: 8,
+      size: 4.5,
+    })
+  })
+
+  it("only gives licence points to permissive and copyleft licences", () => {
+    expect(points({ license: "MIT" }).license).toBe(placement.licensePoints)
+    expect(points({ license: "LGPL-2.1" }).license).toBe(placement.licensePoints)
+    expect(points({ license: "NOASSERTION" }).license).toBe(0)
+    expect(points({ license: "CC-BY-NC-4.0" }).license).toBe(0)
+  })
+
+  it("counts a public repository once its points exceed the threshold", () => {
+    // 20 licence points + 5 contributors × 5 = 45 points
+    const classification = classifyOpenSource({ ...NOTHING, license: "MIT", contributors: 5 }, placement)
+
+    expect(classification).toMatchObject({ isOpenSource: true, points: 45, threshold: 35 })
+    expect(classification.license).toEqual({ spdxId: "MIT", category: "permissive" })
+    expect(classification.reason).toBe("Scored 45 points, above the 35 point threshold.")
+  })
+
+  it("does not count points equal to the threshold", () => {
+    // 20 licence points + 3 contributors × 5 = 35 points
+    expect(classifyOpenSource({ ...NOTHING, license: "MIT", contributors: 3 }, placement).isOpenSource).toBe(false)
+  })
+
+  it("applies the profile's threshold and licence points", () => {
+    const factors = { ...NOTHING, license: "MIT", contributors: 5 }
+    expect(classifyOpenSource(factors, strict)).toMatchObject({ isOpenSource: false, points: 50, threshold: 60 })
+  })
+
+  it("never counts private repositories", () => {
+    const classification = classifyOpenSource({ ...NOTHING, isPrivate: true, license: "MIT", contributors: 10, stars: 100 }, placement)
+
+    expect(classification.isOpenSource).toBe(false)
+    expect(classification.reason).toBe("Private repositories are never open source.")
+  })
+
+  it("explains what the licence cost a repository that missed the threshold", () => {
+    expect(classifyOpenSource({ ...NOTHING, contributors: 5 }, placement).reason).toBe(
+      "Scored 25 points, which does not exceed the 35 point threshold. Adding an open source licence would earn 20 points.",
+    )
+    expect(classifyOpenSource({ ...NOTHING, license: "NOASSERTION", contributors: 5 }, placement).reason).toContain(
+      "The licence NOASSERTION is not a recognised open source licence",
+    )
+  })
+})
@@ -0,0 +1,158 @@
+import type { OpenSourceFactors } from "@/lib/github-api"
+import type { FactorWeight, OpenSourceWeights } from "@/lib/scoring-profiles"
+
+// Decides whether a repository is a meaningful open source project. The verdict keeps every factor's
+// value and points, the threshold and a reason, so a student who disputes it can see what counted.
+
+export type LicenseCategory = "permissive" | "copyleft" | "noassertion" | "proprietary" | "none"
+
+// SPDX ids of OSI approved licences; GitHub reports "NOASSERTION" for a licence file it cannot identify
+const PERMISSIVE_LICENSES = new Set([
+  "0BSD",
+  "AFL-3.0",
+  "Apache-2.0",
+  "Artistic-2.0",
+  "BSD-2-Clause",
+  "BSD-3-Clause",
+  "BSD-3-Clause-Clear",
+  "BSL-1.0",
+  "CC0-1.0",
+  "ECL-2.0",
+  "ISC",
+  "MIT",
+  "MIT-0",
+  "MS-PL",
+  "NCSA",
+  "PostgreSQL",
+  "Python-2.0",
+  "Unlicense",
+  "UPL-1.0",
+  "Zlib",
+])
+
+const COPYLEFT_LICENSES = new Set([
+  "AGPL-3.0",
+  "AGPL-3.0-only",
+  "AGPL-3.0-or-later",
+  "CDDL-1.0",
+  "EPL-1.0",
+  "EPL-2.0",
+  "EUPL-1.1",
+  "EUPL-1.2",
+  "GPL-2.0",
+  "GPL-2.0-only",
+  "GPL-2.0-or-later",
+  "GPL-3.0",
+  "GPL-3.0-only",
+  "GPL-3.0-or-later",
+  "LGPL-2.1",
+  "LGPL-2.1-only",
+  "LGPL-2.1-or-later",
+  "LGPL-3.0",
+  "LGPL-3.0-only",
+  "LGPL-3.0-or-later",
+  "MPL-2.0",
+  "MS-RL",
+  "OSL-3.0",
+])
+
+export const LICENSE_CATEGORY_LABELS: Record<LicenseCategory, string> = {
+  permissive: "Permissive",
+  copyleft: "Copyleft",
+  noassertion: "Unrecognised licence",
+  proprietary: "Not an open source licence",
+  none: "No licence",
+}
+
+export function licenseCategory(spdxId: string | null): LicenseCategory {
+  if (!spdxId) return "none"
+  if (spdxId === "NOASSERTION") return "noassertion"
+  if (PERMISSIVE_LICENSES.has(spdxId)) return "permissive"
+  if (COPYLEFT_LICENSES.has(spdxId)) return "copyleft"
+  return "proprietary"
+}
+
+function countsAsOpenSource(category: LicenseCategory): boolean {
+  return category === "permissive" || category === "copyleft"
+}
+
+export type OpenSourceFactorKey = "forks" | "stars" | "contributors" | "license" | "issues" | "recentCommits" | "size"
+
+export interface OpenSourceFactorResult {
+  key: OpenSourceFactorKey
+  label: string
+  valueLabel: string
+  points: number
+  maxPoints: number
+}
+
+export interface OpenSourceClassification {
+  isOpenSource: boolean
+  points: number
+  threshold: number // open source when the points exceed this
+  license: { spdxId: string | null; category: LicenseCategory }
+  factors: OpenSourceFactorResult[]
+  reason: string
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 10) / 10
+}
+
+// Each signal earns its weight per unit, up to the profile's cap
+function factor(
+  key: OpenSourceFactorKey,
+  label: string,
+  value: number,
+  valueLabel: string,
+  { weight, cap }: FactorWeight,
+): OpenSourceFactorResult {
+  return { key, label, valueLabel, points: roundPoints(Math.min(value, cap) * weight), maxPoints: roundPoints(cap * weight) }
+}
+
+export function classifyOpenSource(factors: OpenSourceFactors, weights: OpenSourceWeights): OpenSourceClassification {
+  const category = licenseCategory(factors.license)
+  const sizeMb = factors.size / 1000
+
+  const results: OpenSourceFactorResult[] = [
+    factor("forks", "Forks", factors.forks, factors.forks.toLocaleString(), weights.forks),
+    factor("stars", "Stars", factors.stars, factors.stars.toLocaleString(), weights.stars),
+    factor("contributors", "Contributors", factors.contributors, factors.contributors.toLocaleString(), weights.contributors),
+    {
+      key: "license",
+      label: "Licence",
+      valueLabel: factors.license
+        ? `${factors.license} (${LICENSE_CATEGORY_LABELS[category].toLowerCase()})`
+        : LICENSE_CATEGORY_LABELS.none,
+      points: countsAsOpenSource(category) ? weights.licensePoints : 0,
+      maxPoints: weights.licensePoints,
+    },
+    factor("issues", "Open issues and PRs", factors.issues, factors.issues.toLocaleString(), weights.issues),
+    factor(
+      "recentCommits",
+      "Commits in the last 6 months",
+      factors.recentActivity,
+      factors.recentActivity.toLocaleString(),
+      weights.recentCommits,
+    ),
+    factor("size", "Size", sizeMb, `${sizeMb.toFixed(1)} MB`, weights.sizeMb),
+  ]
+  const points = roundPoints(results.reduce((sum, result) => sum + result.points, 0))
+  const isOpenSource = !factors.isPrivate && points > weights.threshold
+
+  let reason: string
+  if (factors.isPrivate) {
+    reason = "Private repositories are never open source."
+  } else if (isOpenSource) {
+    reason = `Scored ${points} points, above the ${weights.threshold} point threshold.`
+  } else {
+    reason = `Scored ${points} points, which does not exceed the ${weights.threshold} point threshold.`
+    if (!countsAsOpenSource(category)) {
+      reason += factors.license
+        ? ` The licence ${factors.license} is not a recognised open source licence, so it earned no points.`
+        : ` Adding an open source licence would earn ${weights.licensePoints} points.`
+    }
+  }
+
+  return { isOpenSource, points, threshold: weights.threshold, license: { spdxId: factors.license, category }, factors: results, reason }
+}
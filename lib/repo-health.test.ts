@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest"
+import {
+  calculateBusFactor,
+  calculateRepoHealth,
+  healthInputsFromRepoData,
+  medianFirstResponseDays,
+  type RepoHealthInputs,
+} from "@/lib/repo-health"
+import { findScoringProfile } from "@/lib/scoring-profiles"
+
+const weights = findScoringProfile("placement-default")!.repoHealth
+const NOW = Date.parse("2024-06-01T00:00:00Z")
+
+const HEALTHY: RepoHealthInputs = {
+  openIssues: 0,
+  closedIssues: 10,
+  avgResolutionTime: 0.5,
+  totalPRs: 10,
+  mergedPRs: 10,
+  openPRs: 2,
+  stalePRs: 0,
+  medianFirstResponseDays: 0,
+  busFactor: 4,
+  releasesLastYear: 4,
+  communityFiles: { license: true, contributing: true, codeOfConduct: true },
+}
+
+describe("medianFirstResponseDays", () => {
+  it("takes the earlier of the first response and closing", () => {
+    expect(
+      medianFirstResponseDays([
+        { createdAt: "2024-05-01T00:00:00Z", closedAt: "2024-05-02T00:00:00Z", firstResponseAt: "2024-05-04T00:00:00Z" },
+        { createdAt: "2024-05-01T00:00:00Z", closedAt: null, firstResponseAt: "2024-05-03T00:00:00Z" },
+        { createdAt: "2024-05-01T00:00:00Z", closedAt: null, firstResponseAt: "2024-05-07T00:00:00Z" },
+      ]),
+    ).toBe(2)
+  })
+
+  it("counts items still waiting up to now and averages the middle pair", () => {
+    expect(
+      medianFirstResponseDays(
+        [
+          { createdAt: "2024-05-31T00:00:00Z", closedAt: null, firstResponseAt: null },
+          { createdAt: "2024-05-01T00:00:00Z", closedAt: null, firstResponseAt: "2024-05-04T00:00:00Z" },
+        ],
+        NOW,
+      ),
+    ).toBe(2)
+  })
+
+  it("is null without samples", () => {
+    expect(medianFirstResponseDays([])).toBeNull()
+  })
+})
+
+describe("calculateBusFactor", () => {
+  it("counts the fewest contributors behind half of the commits", () => {
+    expect(calculateBusFactor([100])).toBe(1)
+    expect(calculateBusFactor([10, 40, 30, 20])).toBe(2)
+    expect(calculateBusFactor([25, 25, 25, 25])).toBe(2)
+    expect(calculateBusFactor([10, 10, 10, 10, 10])).toBe(3)
+  })
+
+  it("is null without commits", () => {
+    expect(calculateBusFactor([])).toBeNull()
+    expect(calculateBusFactor([0, 0])).toBeNull()
+  })
+})
+
+describe("healthInputsFromRepoData", () => {
+  const data = {
+    contributors: [{ contributions: 30 }, { contributions: 20 }, { contributions: 10 }],
+    issues: {
+      all: [],
+      open: [{ created_at: "2024-05-20T00:00:00Z" }, { created_at: "2023-01-01T00:00:00Z" }],
+      closed: [
+        { created_at: "2024-05-01T00:00:00Z", closed_at: "2024-05-03T00:00:00Z" },
+        { created_at: "2023-01-01T00:00:00Z", closed_at: "2023-01-11T00:00:00Z" },
+      ],
+      avgResolutionTime: 6,
+    },
+    pullRequests: {
+      all: [
+        { created_at: "2024-05-10T00:00:00Z", merged_at: "2024-05-11T00:00:00Z" },
+        { created_at: "2024-05-25T00:00:00Z", updated_at: "2024-05-25T00:00:00Z" },
+        { created_at: "2023-02-01T00:00:00Z", updated_at: "2023-03-01T00:00:00Z" },
+      ],
+      open: [
+        { created_at: "2024-05-25T00:00:00Z", updated_at: "2024-05-25T00:00:00Z" },
+        { created_at: "2023-02-01T00:00:00Z", updated_at: "2023-03-01T00:00:00Z" },
+      ],
+      closed: [],
+      merged: [{ created_at: "2024-05-10T00:00:00Z", merged_at: "2024-05-11T00:00:00Z" }],
+      avgMergeTime: 1,
+    },
+  }
+
+  it("reads every fetched issue and pull request without a range", () => {
+    expect(healthInputsFromRepoData(data, undefined, NOW)).toEqual({
+      openIssues: 2,
+      closedIssues: 2,
+      avgResolutionTime: 6,
+      totalPRs: 3,
+      mergedPRs: 1,
+      openPRs: 2,
+      stalePRs: 1,
+      medianFirstResponseDays: null,
+      busFactor: 1,
+      releasesLastYear: null,
+      communityFiles: null,
+    })
+  })
+
+  it("limits throughput to items created in the range but judges open PRs as they are now", () => {
+    const range = { since: new Date("2024-01-01T00:00:00Z"), until: null }
+    expect(healthInputsFromRepoData(data, range, NOW)).toMatchObject({
+      openIssues: 1,
+      closedIssues: 1,
+      avgResolutionTime: 2,
+      totalPRs: 2,
+      mergedPRs: 1,
+      openPRs: 2,
+      stalePRs: 1,
+    })
+  })
+})
+
+describe("calculateRepoHealth", () => {
+  it("gives a well-run repository full marks", () => {
+    const health = calculateRepoHealth(HEALTHY, weights)
+    expect(health.score).toBe(100)
+    expect(health.components.every((component) => component.available)).toBe(true)
+  })
+
+  it("gives the benefit of the doubt to repositories without issues", () => {
+    const health = calculateRepoHealth({ ...HEALTHY, openIssues: 0, closedIssues: 0, avgResolutionTime: 0 }, weights)
+    const resolution = health.components.find((component) => component.key === "resolutionRatio")!
+    expect(resolution).toMatchObject({ inputLabel: "No issues", points: weights.noIssuesPoints })
+  })
+
+  it("scales time-based components down to nothing at their window", () => {
+    const slow = calculateRepoHealth(
+      { ...HEALTHY, avgResolutionTime: weights.resolutionTimeWindowDays, medianFirstResponseDays: weights.firstResponseWindowDays / 2 },
+      weights,
+    )
+    const points = Object.fromEntries(slow.components.map((component) => [component.key, component.points]))
+    expect(points.resolutionTime).toBe(0)
+    expect(points.firstResponse).toBe(weights.firstResponseMax / 2)
+  })
+
+  it("leaves signals that could not be fetched out and rescales the rest to 100", () => {
+    const health = calculateRepoHealth(
+      { ...HEALTHY, medianFirstResponseDays: null, busFactor: null, releasesLastYear: null, communityFiles: null },
+      weights,
+    )
+    expect(health.components.filter((component) => !component.available).map((component) => component.key)).toEqual([
+      "firstResponse",
+      "busFactor",
+      "releaseCadence",
+      "communityFiles",
+    ])
+    expect(health.score).toBe(100)
+  })
+
+  it("credits each community file separately", () => {
+    const health = calculateRepoHealth(
+      { ...HEALTHY, communityFiles: { license: true, contributing: false, codeOfConduct: false } },
+      weights,
+    )
+    const files = health.components.find((component) => component.key === "communityFiles")!
+    expect(files).toMatchObject({ inputLabel: "LICENSE", points: Math.round((weights.communityFilesMax / 3) * 10) / 10 })
+  })
+})
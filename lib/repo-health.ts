@@ -0,0 +1,273 @@
+import { isInRange, type DateRange } from "@/lib/evaluation-window"
+import type { RepoData } from "@/lib/github-api"
+import type { RepoHealthWeights } from "@/lib/scoring-profiles"
+
+// Repository health, shared by the contributor score (server) and the repository overview (browser).
+// Besides issue and pull request throughput it measures CHAOSS community health metrics: time to first
+// response, bus factor, release cadence, stale pull requests and the presence of community files.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const STALE_PR_DAYS = 30 // open pull requests without activity for this long are stale
+
+export interface CommunityFiles {
+  license: boolean
+  contributing: boolean
+  codeOfConduct: boolean
+}
+
+export interface RepoHealthInputs {
+  openIssues: number
+  closedIssues: number
+  avgResolutionTime: number // in days
+  totalPRs: number
+  mergedPRs: number
+  openPRs: number
+  stalePRs: number // open PRs not updated in STALE_PR_DAYS
+  medianFirstResponseDays: number | null // recent issues and PRs; null when they could not be sampled
+  busFactor: number | null // fewest contributors behind half of the commits; null without a contributor list
+  releasesLastYear: number | null // null when releases could not be fetched
+  communityFiles: CommunityFiles | null
+}
+
+export type RepoHealthSignals = Pick<RepoHealthInputs, "medianFirstResponseDays" | "releasesLastYear" | "communityFiles">
+
+export type RepoHealthComponentKey =
+  | "resolutionRatio"
+  | "resolutionTime"
+  | "mergeRatio"
+  | "firstResponse"
+  | "busFactor"
+  | "releaseCadence"
+  | "stalePRs"
+  | "communityFiles"
+
+// One part of the health score; components without data are left out and the rest scaled to 100
+export interface RepoHealthComponent {
+  key: RepoHealthComponentKey
+  label: string
+  inputLabel: string
+  available: boolean
+  points: number
+  maxPoints: number
+  reason: string
+}
+
+export interface RepoHealthScore {
+  score: number // 0-100
+  components: RepoHealthComponent[]
+}
+
+// An issue or pull request, with the first comment or review by someone other than its author
+export interface ResponseSample {
+  createdAt: string
+  closedAt: string | null
+  firstResponseAt: string | null
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Closing an item counts as a response; items still waiting count the time they have waited so far
+export function medianFirstResponseDays(samples: ResponseSample[], now = Date.now()): number | null {
+  return median(
+    samples.map((sample) => {
+      const responses = [sample.firstResponseAt, sample.closedAt]
+        .filter((date): date is string => !!date)
+        .map((date) => new Date(date).getTime())
+      const respondedAt = responses.length > 0 ? Math.min(...responses) : now
+      return Math.max(0, respondedAt - new Date(sample.createdAt).getTime()) / DAY_MS
+    }),
+  )
+}
+
+export function calculateBusFactor(contributions: number[]): number | null {
+  const total = contributions.reduce((sum, count) => sum + count, 0)
+  if (total === 0) return null
+
+  let covered = 0
+  const sorted = [...contributions].sort((a, b) => b - a)
+  for (let index = 0; index < sorted.length; index++) {
+    covered += sorted[index]
+    if (covered * 2 >= total) return index + 1
+  }
+  return sorted.length
+}
+
+// Inputs that can be read from the fetched lists alone; the signals needing extra requests are null.
+// Issue and pull request throughput covers the items created in `range`, as the GraphQL search
+// qualifiers do; open and stale PRs and the bus factor describe the repository as it is now.
+export function healthInputsFromRepoData(
+  data: Pick<RepoData, "contributors" | "issues" | "pullRequests">,
+  range: DateRange = { since: null, until: null },
+  now = Date.now(),
+): RepoHealthInputs {
+  const staleBefore = now - STALE_PR_DAYS * DAY_MS
+  const created = (item: any) => isInRange(item.created_at, range)
+  const closedIssues = data.issues.closed.filter(created)
+  const resolutionDays = closedIssues.map(
+    (issue) => (new Date(issue.closed_at).getTime() - new Date(issue.created_at).getTime()) / DAY_MS,
+  )
+  return {
+    openIssues: data.issues.open.filter(created).length,
+    closedIssues: closedIssues.length,
+    avgResolutionTime:
+      resolutionDays.length > 0 ? resolutionDays.reduce((sum, days) => sum + days, 0) / resolutionDays.length : 0,
+    totalPRs: data.pullRequests.all.filter(created).length,
+    mergedPRs: data.pullRequests.merged.filter(created).length,
+    openPRs: data.pullRequests.open.length,
+    stalePRs: data.pullRequests.open.filter((pr) => new Date(pr.updated_at).getTime() < staleBefore).length,
+    medianFirstResponseDays: null,
+    busFactor: calculateBusFactor(data.contributors.map((contributor) => contributor.contributions ?? 0)),
+    releasesLastYear: null,
+    communityFiles: null,
+  }
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 10) / 10
+}
+
+// Lower is better: full points at 0 days, none at `windowDays` or more
+function timeScore(days: number, windowDays: number): number {
+  return Math.max(0, windowDays - Math.min(days, windowDays)) / windowDays
+}
+
+function unavailable(key: RepoHealthComponentKey, label: string, maxPoints: number, reason: string): RepoHealthComponent {
+  return { key, label, inputLabel: "Not available", available: false, points: 0, maxPoints, reason }
+}
+
+export function calculateRepoHealth(data: RepoHealthInputs, weights: RepoHealthWeights): RepoHealthScore {
+  const components: RepoHealthComponent[] = []
+  const totalIssues = data.openIssues + data.closedIssues
+
+  // No issues could be good or bad, give benefit of doubt
+  components.push({
+    key: "resolutionRatio",
+    label: "Issue Resolution",
+    inputLabel: totalIssues > 0 ? `${data.closedIssues} of ${totalIssues} issues closed` : "No issues",
+    available: true,
+    points: roundPoints(
+      totalIssues > 0 ? (data.closedIssues / totalIssues) * weights.resolutionRatioMax : weights.noIssuesPoints,
+    ),
+    maxPoints: weights.resolutionRatioMax,
+    reason:
+      totalIssues > 0
+        ? `Share of closed issues times ${weights.resolutionRatioMax}.`
+        : `${weights.noIssuesPoints} points when a repository has no issues.`,
+  })
+
+  components.push({
+    key: "resolutionTime",
+    label: "Issue Resolution Time",
+    inputLabel: data.avgResolutionTime > 0 ? `${data.avgResolutionTime.toFixed(1)} days avg` : "No closed issues",
+    available: true,
+    points: roundPoints(
+      data.avgResolutionTime > 0
+        ? timeScore(data.avgResolutionTime, weights.resolutionTimeWindowDays) * weights.resolutionTimeMax
+        : 0,
+    ),
+    maxPoints: weights.resolutionTimeMax,
+    reason: `Full points for same-day fixes, none at ${weights.resolutionTimeWindowDays} days or more.`,
+  })
+
+  components.push({
+    key: "mergeRatio",
+    label: "PR Merge Rate",
+    inputLabel: data.totalPRs > 0 ? `${data.mergedPRs} of ${data.totalPRs} PRs merged` : "No pull requests",
+    available: true,
+    points: roundPoints(data.totalPRs > 0 ? (data.mergedPRs / data.totalPRs) * weights.mergeRatioMax : 0),
+    maxPoints: weights.mergeRatioMax,
+    reason: `Share of merged pull requests times ${weights.mergeRatioMax}.`,
+  })
+
+  components.push(
+    data.medianFirstResponseDays !== null
+      ? {
+          key: "firstResponse",
+          label: "Time to First Response",
+          inputLabel: `${data.medianFirstResponseDays.toFixed(1)} days median`,
+          available: true,
+          points: roundPoints(
+            timeScore(data.medianFirstResponseDays, weights.firstResponseWindowDays) * weights.firstResponseMax,
+          ),
+          maxPoints: weights.firstResponseMax,
+          reason: `Median time until someone other than the author replies to a recent issue or PR. No points at ${weights.firstResponseWindowDays} days or more.`,
+        }
+      : unavailable("firstResponse", "Time to First Response", weights.firstResponseMax, "Recent issues and PRs could not be sampled."),
+  )
+
+  components.push(
+    data.busFactor !== null
+      ? {
+          key: "busFactor",
+          label: "Bus Factor",
+          inputLabel: `${data.busFactor} contributor${data.busFactor === 1 ? "" : "s"}`,
+          available: true,
+          points: roundPoints((Math.min(data.busFactor, weights.busFactorTarget) / weights.busFactorTarget) * weights.busFactorMax),
+          maxPoints: weights.busFactorMax,
+          reason: `Fewest contributors who made half of the commits. Full points at ${weights.busFactorTarget} or more.`,
+        }
+      : unavailable("busFactor", "Bus Factor", weights.busFactorMax, "The contributor list could not be fetched."),
+  )
+
+  components.push(
+    data.releasesLastYear !== null
+      ? {
+          key: "releaseCadence",
+          label: "Release Cadence",
+          inputLabel: `${data.releasesLastYear} release${data.releasesLastYear === 1 ? "" : "s"} in the last year`,
+          available: true,
+          points: roundPoints(
+            (Math.min(data.releasesLastYear, weights.releasesPerYearTarget) / weights.releasesPerYearTarget) *
+              weights.releaseCadenceMax,
+          ),
+          maxPoints: weights.releaseCadenceMax,
+          reason: `Full points for ${weights.releasesPerYearTarget} or more releases a year.`,
+        }
+      : unavailable("releaseCadence", "Release Cadence", weights.releaseCadenceMax, "Releases could not be fetched."),
+  )
+
+  components.push({
+    key: "stalePRs",
+    label: "Stale PRs",
+    inputLabel: data.openPRs > 0 ? `${data.stalePRs} of ${data.openPRs} open PRs stale` : "No open pull requests",
+    available: true,
+    points: roundPoints(data.openPRs > 0 ? (1 - data.stalePRs / data.openPRs) * weights.stalePRMax : weights.stalePRMax),
+    maxPoints: weights.stalePRMax,
+    reason: `Share of open pull requests updated in the last ${STALE_PR_DAYS} days.`,
+  })
+
+  if (data.communityFiles) {
+    const files = data.communityFiles
+    const present = [
+      files.license && "LICENSE",
+      files.contributing && "CONTRIBUTING",
+      files.codeOfConduct && "CODE_OF_CONDUCT",
+    ].filter((file): file is string => !!file)
+    components.push({
+      key: "communityFiles",
+      label: "Community Files",
+      inputLabel: present.length > 0 ? present.join(", ") : "None",
+      available: true,
+      points: roundPoints((present.length / 3) * weights.communityFilesMax),
+      maxPoints: weights.communityFilesMax,
+      reason: "An equal share for each of LICENSE, CONTRIBUTING and CODE_OF_CONDUCT.",
+    })
+  } else {
+    components.push(
+      unavailable("communityFiles", "Community Files", weights.communityFilesMax, "The community profile could not be fetched."),
+    )
+  }
+
+  const available = components.filter((component) => component.available)
+  const maxPoints = available.reduce((sum, component) => sum + component.maxPoints, 0)
+  const points = available.reduce((sum, component) => sum + component.points, 0)
+  const score = maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0
+
+  return { score: Math.max(0, Math.min(100, score)), components }
+}
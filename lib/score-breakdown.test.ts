@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_EVALUATION_WINDOW } from "@/lib/evaluation-window"
+import type { ContributorScoreData } from "@/lib/github-api"
+import { buildScoreBreakdown, contributorScoreFromBreakdown } from "@/lib/score-breakdown"
+import { SCORING_PROFILES, findScoringProfile } from "@/lib/scoring-profiles"
+
+type Stats = ContributorScoreData["contributionStats"]
+
+const placement = findScoringProfile("placement-default")!.contributor
+const research = findScoringProfile("research-internships")!.contributor
+
+const NOTHING: Stats = {
+  totalCommits: 0,
+  totalPRs: 0,
+  mergedPRs: 0,
+  issuesCreated: 0,
+  issuesClosed: 0,
+  isOwner: false,
+  isMaintainer: false,
+  commitsRank: 0,
+  contributorCount: 0,
+  recentActivity: 0,
+}
+
+const EVERYTHING: Stats = {
+  totalCommits: 500,
+  totalPRs: 50,
+  mergedPRs: 50,
+  issuesCreated: 50,
+  issuesClosed: 50,
+  isOwner: true,
+  isMaintainer: true,
+  commitsRank: 1,
+  contributorCount: 12,
+  recentActivity: 100,
+}
+
+function points(stats: Partial<Stats>, weights = placement) {
+  const components = buildScoreBreakdown({ ...NOTHING, ...stats }, weights, DEFAULT_EVALUATION_WINDOW)
+  return Object.fromEntries(components.map((component) => [component.key, component.points]))
+}
+
+describe("buildScoreBreakdown", () => {
+  it("gives nothing without activity", () => {
+    const components = buildScoreBreakdown(NOTHING, placement, DEFAULT_EVALUATION_WINDOW)
+    expect(components.every((component) => component.points === 0)).toBe(true)
+    expect(contributorScoreFromBreakdown(components)).toBe(0)
+  })
+
+  it("spreads the rank points over the ranked places", () => {
+    // 40 points over 10 places: 4 points per place below #1
+    expect(points({ commitsRank: 3, contributorCount: 20, totalCommits: 30 }).rank).toBe(32)
+    expect(points({ commitsRank: 3, contributorCount: 4, totalCommits: 30 }).rank).toBe(20)
+  })
+
+  it("gives a point per commit, up to a cap, below the ranked places", () => {
+    expect(points({ commitsRank: 11, contributorCount: 20, totalCommits: 4 }).rank).toBe(4)
+    expect(points({ commitsRank: 11, contributorCount: 20, totalCommits: 40 }).rank).toBe(placement.unrankedCommitMax)
+  })
+
+  it("scales merged pull request points by the merge rate", () => {
+    expect(points({ totalPRs: 10, mergedPRs: 5 }).pullRequests).toBe(5)
+    expect(points({ totalPRs: 30, mergedPRs: 30 }).pullRequests).toBe(placement.pullRequestMax)
+  })
+
+  it("gives owners more than maintainers", () => {
+    expect(points({ isOwner: true, isMaintainer: true }).maintainer).toBe(placement.ownerPoints)
+    expect(points({ isMaintainer: true }).maintainer).toBe(placement.maintainerPoints)
+  })
+
+  it("applies the recent share and caps the issue components", () => {
+    expect(points({ recentActivity: 37.5, issuesCreated: 4, issuesClosed: 20 })).toMatchObject({
+      recentActivity: 7.5,
+      issues: 4,
+      issuesClosed: placement.issuesClosedMax,
+    })
+  })
+
+  it.each(SCORING_PROFILES.map((profile) => [profile.id, profile.contributor] as const))(
+    "%s earns every component's maximum for maxed-out activity",
+    (_id, weights) => {
+      const components = buildScoreBreakdown(EVERYTHING, weights, DEFAULT_EVALUATION_WINDOW)
+      components.forEach((component) => expect(component.points).toBe(component.maxPoints))
+      expect(components.reduce((sum, component) => sum + component.maxPoints, 0)).toBe(
+        weights.rankMax +
+          weights.pullRequestMax +
+          Math.max(weights.ownerPoints, weights.maintainerPoints) +
+          weights.recentActivityMax +
+          weights.issueMax +
+          weights.issuesClosedMax,
+      )
+      expect(contributorScoreFromBreakdown(components)).toBe(100)
+    },
+  )
+
+  it("adds the profile-weighted points up to the contributor score", () => {
+    const stats: Stats = {
+      ...NOTHING,
+      commitsRank: 1,
+      contributorCount: 5,
+      totalCommits: 80,
+      totalPRs: 4,
+      mergedPRs: 4,
+      recentActivity: 50,
+      issuesCreated: 4,
+      issuesClosed: 3,
+    }
+
+    expect(points(stats, research)).toEqual({
+      rank: 30,
+      pullRequests: 12,
+      maintainer: 0,
+      recentActivity: 7.5,
+      issues: 6,
+      issuesClosed: 6,
+    })
+    // 61.5 points, rounded
+    expect(contributorScoreFromBreakdown(buildScoreBreakdown(stats, research, DEFAULT_EVALUATION_WINDOW))).toBe(62)
+  })
+})
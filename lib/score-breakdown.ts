@@ -0,0 +1,141 @@
+import { DECAY_FUNCTIONS, type EvaluationWindow } from "@/lib/evaluation-window"
+import type { ContributorScoreData } from "@/lib/github-api"
+import type { ContributorWeights } from "@/lib/scoring-profiles"
+
+// The contributor score of one user in one repository, split into six components weighted by the
+// scoring profile so every point can be explained.
+
+export type ScoreComponentKey = "rank" | "pullRequests" | "maintainer" | "recentActivity" | "issues" | "issuesClosed"
+
+// One part of the contributor score, with what it was based on and why it earned its points
+export interface ScoreComponent {
+  key: ScoreComponentKey
+  label: string
+  input: number | boolean // raw value the points were calculated from
+  inputLabel: string
+  points: number
+  maxPoints: number
+  reason: string
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 10) / 10
+}
+
+// Split the contributor score into its six components, weighted by the scoring profile.
+// The points add up to the score before it is capped at 100.
+export function buildScoreBreakdown(
+  stats: ContributorScoreData["contributionStats"],
+  weights: ContributorWeights,
+  evaluationWindow: EvaluationWindow,
+): ScoreComponent[] {
+  const { commitsRank, contributorCount, totalCommits, totalPRs, mergedPRs, recentActivity, issuesCreated, issuesClosed } = stats
+
+  // 1. Commit volume and rank
+  let rankPoints = 0
+  let rankReason = "No commits on the default branch."
+  if (commitsRank === 1) {
+    rankPoints = weights.rankMax
+    rankReason = `Top committer in the repository, which earns the full ${weights.rankMax} points.`
+  } else if (commitsRank > 1 && commitsRank <= contributorCount) {
+    // Top contributor gets the full points, scales down
+    const step = weights.rankMax / Math.min(contributorCount, weights.rankPlaces)
+    rankPoints = Math.max(0, weights.rankMax - (commitsRank - 1) * step)
+    rankReason = `Ranked #${commitsRank} by commits. Each place below #1 costs ${roundPoints(step)} points.`
+  }
+  // Give points for any commits (even if not ranked)
+  if (totalCommits > 0 && rankPoints === 0) {
+    rankPoints = Math.min(weights.unrankedCommitMax, totalCommits)
+    rankReason = `Too far down the contributor list to earn rank points, so each of the ${totalCommits} commits earns 1 point, up to ${weights.unrankedCommitMax}.`
+  }
+
+  // 2. PR activity
+  const mergeRate = totalPRs > 0 ? mergedPRs / totalPRs : 0
+  const prPoints = Math.min(weights.pullRequestMax, mergedPRs * weights.pointsPerMergedPR) * mergeRate
+  const prReason = totalPRs > 0
+    ? `${weights.pointsPerMergedPR} points per merged pull request, up to ${weights.pullRequestMax}, multiplied by the ${Math.round(mergeRate * 100)}% merge rate.`
+    : "No pull requests opened in this repository."
+
+  // 3. Maintainer status
+  const maintainerMax = Math.max(weights.ownerPoints, weights.maintainerPoints)
+  const maintainerPoints = stats.isOwner ? weights.ownerPoints : stats.isMaintainer ? weights.maintainerPoints : 0
+  const maintainerReason = stats.isOwner
+    ? "Owns the repository."
+    : stats.isMaintainer
+      ? `Has push access as a maintainer, which earns ${weights.maintainerPoints} of ${maintainerMax} points.`
+      : "Neither the owner nor a maintainer with push access."
+
+  return [
+    {
+      key: "rank",
+      label: "Commit Rank",
+      input: commitsRank,
+      inputLabel: commitsRank > 0 ? `#${commitsRank} of ${contributorCount}, ${totalCommits} commits` : "No commits",
+      points: roundPoints(rankPoints),
+      maxPoints: weights.rankMax,
+      reason: rankReason,
+    },
+    {
+      key: "pullRequests",
+      label: "Pull Requests",
+      input: mergedPRs,
+      inputLabel: `${mergedPRs} of ${totalPRs} merged`,
+      points: roundPoints(prPoints),
+      maxPoints: weights.pullRequestMax,
+      reason: prReason,
+    },
+    {
+      key: "maintainer",
+      label: "Maintainer Status",
+      input: stats.isOwner || stats.isMaintainer,
+      inputLabel: stats.isOwner ? "Owner" : stats.isMaintainer ? "Maintainer" : "Contributor",
+      points: maintainerPoints,
+      maxPoints: maintainerMax,
+      reason: maintainerReason,
+    },
+    {
+      // 4. Recent activity
+      key: "recentActivity",
+      label: "Recent Activity",
+      input: recentActivity,
+      inputLabel: evaluationWindow.decay === "step"
+        ? `${Math.round(recentActivity)}% of commits in the last 3 months`
+        : `${Math.round(recentActivity)}% decay-weighted commits`,
+      points: roundPoints((recentActivity / 100) * weights.recentActivityMax),
+      maxPoints: weights.recentActivityMax,
+      reason: evaluationWindow.decay === "step"
+        ? `The share of commits made in the last 3 months of the evaluation window, applied to ${weights.recentActivityMax} points.`
+        : `${DECAY_FUNCTIONS[evaluationWindow.decay].description} The mean weight of all commits is applied to ${weights.recentActivityMax} points.`,
+    },
+    {
+      // 5. Issue creation
+      key: "issues",
+      label: "Issues Opened",
+      input: issuesCreated,
+      inputLabel: `${issuesCreated} issues`,
+      points: roundPoints(Math.min(weights.issueMax, issuesCreated * weights.pointsPerIssue)),
+      maxPoints: weights.issueMax,
+      reason: issuesCreated > 0
+        ? `${weights.pointsPerIssue} point${weights.pointsPerIssue === 1 ? "" : "s"} per issue opened, up to ${weights.issueMax}.`
+        : "No issues opened in this repository.",
+    },
+    {
+      // 6. Issues closed, directly or through merged PRs
+      key: "issuesClosed",
+      label: "Issues Closed",
+      input: issuesClosed,
+      inputLabel: `${issuesClosed} issues`,
+      points: roundPoints(Math.min(weights.issuesClosedMax, issuesClosed * weights.pointsPerIssueClosed)),
+      maxPoints: weights.issuesClosedMax,
+      reason: issuesClosed > 0
+        ? `${weights.pointsPerIssueClosed} point${weights.pointsPerIssueClosed === 1 ? "" : "s"} per issue closed by the user or by a pull request they authored, up to ${weights.issuesClosedMax}.`
+        : "No issues closed in this repository.",
+    },
+  ]
+}
+
+// The components' points out of 100; profiles may offer more, so a strong contributor is capped
+export function contributorScoreFromBreakdown(components: ScoreComponent[]): number {
+  const pointsEarned = components.reduce((sum, component) => sum + component.points, 0)
+  return Math.max(0, Math.min(100, Math.round(pointsEarned)))
+}
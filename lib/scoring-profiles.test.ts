@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  DEFAULT_SCORING_PROFILE_ID,
+  SCORING_PROFILES,
+  defaultScoringProfile,
+  findScoringProfile,
+  parseScoringProfile,
+  toProfileRef,
+} from "@/lib/scoring-profiles"
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("SCORING_PROFILES", () => {
+  it("uses unique ids", () => {
+    const ids = SCORING_PROFILES.map((profile) => profile.id)
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+
+  it.each(SCORING_PROFILES.map((profile) => [profile.id, profile] as const))(
+    "%s splits the impact score into shares adding up to 1",
+    (_id, profile) => {
+      const total = Object.values(profile.impact).reduce((sum, share) => sum + share, 0)
+      expect(total).toBeCloseTo(1)
+    },
+  )
+
+  it.each(SCORING_PROFILES.map((profile) => [profile.id, profile] as const))(
+    "%s keeps repository health out of 100 points",
+    (_id, { repoHealth }) => {
+      const total =
+        repoHealth.resolutionRatioMax +
+        repoHealth.resolutionTimeMax +
+        repoHealth.mergeRatioMax +
+        repoHealth.firstResponseMax +
+        repoHealth.busFactorMax +
+        repoHealth.releaseCadenceMax +
+        repoHealth.stalePRMax +
+        repoHealth.communityFilesMax
+      expect(total).toBe(100)
+      expect(repoHealth.noIssuesPoints).toBeLessThanOrEqual(repoHealth.resolutionRatioMax)
+    },
+  )
+
+  it("caps the integrity penalty below the whole score", () => {
+    SCORING_PROFILES.forEach(({ integrity }) => {
+      expect(integrity.maxPenalty).toBeGreaterThanOrEqual(0)
+      expect(integrity.maxPenalty).toBeLessThan(1)
+    })
+  })
+})
+
+describe("findScoringProfile", () => {
+  it("looks profiles up by id", () => {
+    expect(findScoringProfile("strict-oss")?.name).toBe("Strict OSS")
+    expect(findScoringProfile("unknown")).toBeUndefined()
+    expect(findScoringProfile(null)).toBeUndefined()
+  })
+})
+
+describe("defaultScoringProfile", () => {
+  it("uses SCORING_PROFILE when it names a profile", () => {
+    vi.stubEnv("SCORING_PROFILE", "research-internships")
+    expect(defaultScoringProfile().id).toBe("research-internships")
+  })
+
+  it("falls back to the placement default", () => {
+    vi.stubEnv("SCORING_PROFILE", "no-such-profile")
+    expect(defaultScoringProfile().id).toBe(DEFAULT_SCORING_PROFILE_ID)
+  })
+})
+
+describe("parseScoringProfile", () => {
+  it("reads ?profile= and falls back to the default when it is absent", () => {
+    expect(parseScoringProfile(new URLSearchParams("profile=strict-oss"))?.id).toBe("strict-oss")
+    expect(parseScoringProfile(new URLSearchParams())?.id).toBe(defaultScoringProfile().id)
+  })
+
+  it("returns null for an unknown profile", () => {
+    expect(parseScoringProfile(new URLSearchParams("profile=unknown"))).toBeNull()
+  })
+})
+
+describe("toProfileRef", () => {
+  it("keeps only what a result records", () => {
+    const profile = findScoringProfile("strict-oss")!
+    expect(toProfileRef(profile)).toEqual({ id: "strict-oss", name: "Strict OSS", version: profile.version })
+  })
+})
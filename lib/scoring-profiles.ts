@@ -0,0 +1,217 @@
+// Named sets of scoring weights. Every score records the profile id and version that produced it,
+// so bump `version` whenever a profile's weights change; results from different years then stay comparable.
+
+export interface ContributorWeights {
+  rankMax: number // points for the top committer
+  rankPlaces: number // the rank points are spread over at most this many places
+  unrankedCommitMax: number // 1 point per commit for committers outside the ranked places
+  pullRequestMax: number
+  pointsPerMergedPR: number // scaled by the merge rate
+  ownerPoints: number
+  maintainerPoints: number
+  recentActivityMax: number // applied to the share of commits made in the last 3 months
+  issueMax: number
+  pointsPerIssue: number
+  issuesClosedMax: number // triage: issues closed directly or by the user's merged PRs
+  pointsPerIssueClosed: number
+}
+
+export interface RepoHealthWeights {
+  resolutionRatioMax: number // closed issues / all issues
+  noIssuesPoints: number // given instead when a repository has no issues
+  resolutionTimeMax: number
+  resolutionTimeWindowDays: number // resolving in this many days or more earns nothing
+  mergeRatioMax: number // merged PRs / all PRs
+  firstResponseMax: number
+  firstResponseWindowDays: number // a median first response of this many days or more earns nothing
+  busFactorMax: number
+  busFactorTarget: number // full points at this bus factor
+  releaseCadenceMax: number
+  releasesPerYearTarget: number
+  stalePRMax: number // applied to the share of open PRs that are not stale
+  communityFilesMax: number // split between LICENSE, CONTRIBUTING and CODE_OF_CONDUCT
+}
+
+// Points per unit of a repository signal, up to `cap` units
+export interface FactorWeight {
+  weight: number
+  cap: number
+}
+
+export interface OpenSourceWeights {
+  threshold: number // a public repository is open source when its points exceed this
+  forks: FactorWeight
+  stars: FactorWeight
+  contributors: FactorWeight
+  licensePoints: number // only for permissive and copyleft licences (see lib/open-source-classifier.ts)
+  issues: FactorWeight
+  recentCommits: FactorWeight
+  sizeMb: FactorWeight
+}
+
+// Contributor Impact Score: each dimension's share of the 0-100 score (the shares add up to 1)
+export interface ImpactWeights {
+  commits: number
+  prAcceptance: number
+  issueResolution: number
+  influence: number
+  diversity: number
+}
+
+// Integrity flags (see lib/integrity.ts) can take a share off a student's total score
+export interface IntegrityWeights {
+  penaltyPerFlag: number // high severity flags count twice
+  maxPenalty: number
+}
+
+export interface ScoringProfile {
+  id: string
+  name: string
+  description: string
+  version: number
+  contributor: ContributorWeights
+  repoHealth: RepoHealthWeights
+  openSource: OpenSourceWeights
+  impact: ImpactWeights
+  integrity: IntegrityWeights
+}
+
+// Recorded with every result
+export interface ScoringProfileRef {
+  id: string
+  name: string
+  version: number
+}
+
+const PLACEMENT_DEFAULT: ScoringProfile = {
+  id: "placement-default",
+  name: "Placement default",
+  description: "Balanced weights for campus placement, rewarding ownership, commits and merged pull requests.",
+  version: 6,
+  contributor: {
+    rankMax: 40,
+    rankPlaces: 10,
+    unrankedCommitMax: 10,
+    pullRequestMax: 20,
+    pointsPerMergedPR: 2,
+    ownerPoints: 20,
+    maintainerPoints: 15,
+    recentActivityMax: 20,
+    issueMax: 10,
+    pointsPerIssue: 1,
+    issuesClosedMax: 10,
+    pointsPerIssueClosed: 2,
+  },
+  repoHealth: {
+    resolutionRatioMax: 20,
+    noIssuesPoints: 15,
+    resolutionTimeMax: 15,
+    resolutionTimeWindowDays: 30,
+    mergeRatioMax: 15,
+    firstResponseMax: 15,
+    firstResponseWindowDays: 14,
+    busFactorMax: 10,
+    busFactorTarget: 4,
+    releaseCadenceMax: 10,
+    releasesPerYearTarget: 4,
+    stalePRMax: 5,
+    communityFilesMax: 10,
+  },
+  openSource: {
+    threshold: 35,
+    forks: { weight: 0.5, cap: 50 },
+    stars: { weight: 0.3, cap: 100 },
+    contributors: { weight: 5, cap: 10 },
+    licensePoints: 20,
+    issues: { weight: 0.4, cap: 50 },
+    recentCommits: { weight: 0.2, cap: 100 },
+    sizeMb: { weight: 1, cap: 10 },
+  },
+  impact: {
+    commits: 0.25,
+    prAcceptance: 0.2,
+    issueResolution: 0.15,
+    influence: 0.25,
+    diversity: 0.15,
+  },
+  // Flags are reported for review but do not change the score
+  integrity: { penaltyPerFlag: 0, maxPenalty: 0 },
+}
+
+export const SCORING_PROFILES: ScoringProfile[] = [
+  PLACEMENT_DEFAULT,
+  {
+    id: "research-internships",
+    name: "Research internships",
+    description: "Favours reviewed collaboration: merged pull requests and well-filed issues over owning repositories.",
+    version: 6,
+    contributor: {
+      ...PLACEMENT_DEFAULT.contributor,
+      rankMax: 30,
+      pullRequestMax: 30,
+      pointsPerMergedPR: 3,
+      ownerPoints: 10,
+      maintainerPoints: 10,
+      recentActivityMax: 15,
+      issueMax: 15,
+      pointsPerIssue: 1.5,
+      issuesClosedMax: 15,
+    },
+    repoHealth: PLACEMENT_DEFAULT.repoHealth,
+    openSource: PLACEMENT_DEFAULT.openSource,
+    impact: {
+      commits: 0.15,
+      prAcceptance: 0.3,
+      issueResolution: 0.2,
+      influence: 0.15,
+      diversity: 0.2,
+    },
+    integrity: PLACEMENT_DEFAULT.integrity,
+  },
+  {
+    id: "strict-oss",
+    name: "Strict OSS",
+    description: "Only counts established community projects: a higher open source cutoff and less weight on ownership.",
+    version: 6,
+    contributor: {
+      ...PLACEMENT_DEFAULT.contributor,
+      ownerPoints: 10,
+      maintainerPoints: 10,
+    },
+    repoHealth: PLACEMENT_DEFAULT.repoHealth,
+    openSource: {
+      ...PLACEMENT_DEFAULT.openSource,
+      threshold: 60,
+      licensePoints: 25,
+    },
+    impact: {
+      commits: 0.2,
+      prAcceptance: 0.2,
+      issueResolution: 0.15,
+      influence: 0.3,
+      diversity: 0.15,
+    },
+    integrity: { penaltyPerFlag: 0.1, maxPenalty: 0.3 },
+  },
+]
+
+export const DEFAULT_SCORING_PROFILE_ID = PLACEMENT_DEFAULT.id
+
+export function findScoringProfile(id: string | null | undefined): ScoringProfile | undefined {
+  return SCORING_PROFILES.find((profile) => profile.id === id)
+}
+
+// Server default, configurable with SCORING_PROFILE
+export function defaultScoringProfile(): ScoringProfile {
+  return findScoringProfile(process.env.SCORING_PROFILE) ?? PLACEMENT_DEFAULT
+}
+
+// The profile named by a request's ?profile= parameter, the default when absent, or null when unknown
+export function parseScoringProfile(params: URLSearchParams): ScoringProfile | null {
+  const id = params.get("profile")
+  return id ? (findScoringProfile(id) ?? null) : defaultScoringProfile()
+}
+
+export function toProfileRef(profile: ScoringProfile): ScoringProfileRef {
+  return { id: profile.id, name: profile.name, version: profile.version }
+}
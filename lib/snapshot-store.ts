@@ -0,0 +1,144 @@
+import { randomUUID } from "crypto"
+import type { ContributorImpactScore } from "@/lib/contributor-impact"
+import type { ContributorScoreData, OpenSourceValueData, RepoData } from "@/lib/github-api"
+import { readJsonFile, writeJsonFile } from "@/lib/json-file-store"
+import type { ScoringProfileRef } from "@/lib/scoring-profiles"
+
+// Timestamped snapshots of analysis results, so past evaluations can be
+// reloaded and audited without calling GitHub again.
+
+export interface SnapshotPayloads {
+  repo: RepoData
+  contributorScore: ContributorScoreData
+  openSourceValue: OpenSourceValueData
+  contributorImpact: ContributorImpactScore
+}
+
+export type SnapshotKind = keyof SnapshotPayloads
+
+export const SNAPSHOT_KINDS: SnapshotKind[] = ["repo", "contributorScore", "openSourceValue", "contributorImpact"]
+
+export interface SnapshotMeta {
+  id: string
+  kind: SnapshotKind
+  createdAt: string
+  username?: string
+  repository?: string // owner/repo
+  score?: number
+  scoringProfile?: ScoringProfileRef // profile that produced the score
+  jobId?: string // batch job that produced the snapshot, if any
+}
+
+export interface Snapshot<K extends SnapshotKind = SnapshotKind> extends SnapshotMeta {
+  kind: K
+  data: SnapshotPayloads[K]
+}
+
+export interface SnapshotFilter {
+  kind?: SnapshotKind
+  username?: string
+  repository?: string
+  limit?: number
+}
+
+// Storage-agnostic interface; the file-backed implementation below can be
+// swapped for a database without touching callers
+export interface SnapshotRepository {
+  save<K extends SnapshotKind>(
+    kind: K,
+    data: SnapshotPayloads[K],
+    options?: { jobId?: string },
+  ): Promise<Snapshot<K>>
+  list(filter?: SnapshotFilter): Promise<SnapshotMeta[]>
+  get(id: string): Promise<Snapshot | null>
+}
+
+// Who and what a snapshot is about, derived from its payload
+function describeSnapshot<K extends SnapshotKind>(
+  kind: K,
+  data: SnapshotPayloads[K],
+): Pick<SnapshotMeta, "username" | "repository" | "score" | "scoringProfile"> {
+  switch (kind) {
+    case "repo": {
+      const repoData = data as RepoData
+      return { repository: repoData.repo.full_name }
+    }
+    case "contributorScore": {
+      const scoreData = data as ContributorScoreData
+      return {
+        username: scoreData.username,
+        repository: scoreData.repositoryName,
+        score: scoreData.totalScore,
+        scoringProfile: scoreData.scoringProfile,
+      }
+    }
+    case "contributorImpact": {
+      const impactData = data as ContributorImpactScore
+      return { username: impactData.username, score: impactData.score, scoringProfile: impactData.scoringProfile }
+    }
+    default: {
+      const valueData = data as OpenSourceValueData
+      return { username: valueData.username, score: valueData.totalScore, scoringProfile: valueData.scoringProfile }
+    }
+  }
+}
+
+const INDEX_FILE = "snapshots/index"
+
+// Metadata for every snapshot lives in one index file; payloads are stored one file per snapshot
+function createFileSnapshotRepository(): SnapshotRepository {
+  let index: Promise<SnapshotMeta[]> | null = null
+  const loadIndex = () => (index ??= readJsonFile<SnapshotMeta[]>(INDEX_FILE, []))
+
+  return {
+    async save(kind, data, options = {}) {
+      const snapshot = {
+        id: randomUUID(),
+        kind,
+        createdAt: new Date().toISOString(),
+        ...describeSnapshot(kind, data),
+        jobId: options.jobId,
+        data,
+      }
+
+      await writeJsonFile(`snapshots/${snapshot.id}`, snapshot)
+
+      const entries = await loadIndex()
+      const { data: _data, ...meta } = snapshot
+      entries.push(meta)
+      await writeJsonFile(INDEX_FILE, entries)
+
+      return snapshot
+    },
+
+    async list(filter = {}) {
+      const entries = await loadIndex()
+      const matches = (value: string | undefined, expected: string | undefined) =>
+        !expected || value?.toLowerCase() === expected.toLowerCase()
+
+      const results = entries
+        .filter(
+          (entry) =>
+            (!filter.kind || entry.kind === filter.kind) &&
+            matches(entry.username, filter.username) &&
+            matches(entry.repository, filter.repository),
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+      return filter.limit ? results.slice(0, filter.limit) : results
+    },
+
+    async get(id) {
+      // Only ids from the index are read, so arbitrary paths never reach the file system
+      const entries = await loadIndex()
+      if (!entries.some((entry) => entry.id === id)) return null
+      return readJsonFile<Snapshot | null>(`snapshots/${id}`, null)
+    },
+  }
+}
+
+const globalForSnapshots = globalThis as typeof globalThis & { __snapshotRepository?: SnapshotRepository }
+
+export function getSnapshotRepository(): SnapshotRepository {
+  return (globalForSnapshots.__snapshotRepository ??= createFileSnapshotRepository())
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import type { ColumnMapping } from "@/lib/column-mapping"
+import { getFileType, isSupportedFile, toStudentRecords, type ParsedSheet } from "@/lib/student-import"
+
+describe("isSupportedFile", () => {
+  it("accepts CSV and Excel files regardless of case", () => {
+    expect(isSupportedFile("students.csv")).toBe(true)
+    expect(isSupportedFile("Students.XLSX")).toBe(true)
+    expect(isSupportedFile("old.xls")).toBe(true)
+  })
+
+  it("rejects other files", () => {
+    expect(isSupportedFile("students.pdf")).toBe(false)
+    expect(isSupportedFile("students")).toBe(false)
+  })
+
+  it("reads the extension after the last dot", () => {
+    expect(getFileType("cohort.2024.csv")).toBe("csv")
+  })
+})
+
+describe("toStudentRecords", () => {
+  const sheet: ParsedSheet = {
+    headers: ["Name", "GitHub", "Roll No"],
+    rows: [
+      ["Ada", "ada-l", "0042"],
+      ["", "", ""],
+      ["Grace", "", "0043"],
+    ],
+  }
+  const mapping: ColumnMapping = { githubUsername: 1, name: 0, studentId: 2 }
+
+  it("numbers rows as they appear in the sheet, after the header", () => {
+    expect(toStudentRecords(sheet, mapping).map((record) => record.rowNumber)).toEqual([2, 3, 4])
+  })
+
+  it("keeps text cells as they are, including leading zeros", () => {
+    expect(toStudentRecords(sheet, mapping)[0]).toMatchObject({ githubUsername: "ada-l", name: "Ada", studentId: "0042" })
+  })
+
+  it("keeps empty rows and leaves unmapped or blank fields undefined", () => {
+    const [, empty, missingUsername] = toStudentRecords(sheet, mapping)
+    expect(empty).toMatchObject({ githubUsername: "", name: undefined, email: undefined })
+    expect(missingUsername.githubUsername).toBe("")
+  })
+})
@@ -0,0 +1,107 @@
+import * as XLSX from "xlsx"
+import type { ColumnMapping } from "@/lib/column-mapping"
+
+export const SUPPORTED_FILE_TYPES = ["csv", "xlsx", "xls"]
+
+// A single student parsed from an uploaded sheet
+export interface StudentRecord {
+  rowNumber: number // 1-based row in the source sheet (header is row 1)
+  githubUsername: string
+  name?: string
+  email?: string
+  studentId?: string
+  department?: string
+  batch?: string
+  graduationYear?: string
+}
+
+// Raw contents of the first worksheet, every cell as a trimmed string
+export interface ParsedSheet {
+  headers: string[]
+  rows: string[][]
+}
+
+export function getFileType(fileName: string): string | undefined {
+  return fileName.split(".").pop()?.toLowerCase()
+}
+
+export function isSupportedFile(fileName: string): boolean {
+  const fileType = getFileType(fileName)
+  return !!fileType && SUPPORTED_FILE_TYPES.includes(fileType)
+}
+
+// Read a file into memory, reporting read progress (0-100)
+function readFile(file: File, onProgress?: (percent: number) => void): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(Math.round((event.loaded / event.total) * 100))
+      }
+    }
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    reader.readAsArrayBuffer(file)
+  })
+}
+
+// Parse a CSV, XLSX or XLS file into headers and rows
+export async function parseStudentFile(file: File, onProgress?: (percent: number) => void): Promise<ParsedSheet> {
+  if (!isSupportedFile(file.name)) {
+    throw new Error("Unsupported file format. Please upload a CSV or Excel file")
+  }
+
+  const buffer = await readFile(file, onProgress)
+
+  // `raw` keeps CSV cells as text so student IDs like 0042 keep their leading zeros
+  const workbook = XLSX.read(buffer, { type: "array", raw: getFileType(file.name) === "csv" })
+  const firstSheetName = workbook.SheetNames[0]
+  if (!firstSheetName) {
+    throw new Error("The uploaded file does not contain any sheets")
+  }
+
+  const cells = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[firstSheetName], {
+    header: 1,
+    raw: false,
+    defval: "",
+    blankrows: true,
+  })
+
+  // Keep blank rows in the middle so row numbers match the sheet, but drop trailing ones
+  while (cells.length > 0 && cells[cells.length - 1].every((cell) => String(cell ?? "").trim() === "")) {
+    cells.pop()
+  }
+
+  if (cells.length === 0) {
+    throw new Error("The uploaded file is empty")
+  }
+
+  const [headerRow, ...dataRows] = cells.map((row) => row.map((cell) => String(cell ?? "").trim()))
+  const width = Math.max(headerRow.length, ...dataRows.map((row) => row.length))
+
+  // Pad every row to the same width so column indexes line up
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill("")]
+
+  return {
+    headers: pad(headerRow),
+    rows: dataRows.map(pad),
+  }
+}
+
+// Turn parsed rows into student records using the confirmed column mapping.
+// Every row is kept, including empty ones, so validation can report on them.
+export function toStudentRecords(sheet: ParsedSheet, mapping: ColumnMapping): StudentRecord[] {
+  const cell = (row: string[], index: number | undefined) =>
+    index !== undefined && row[index] ? row[index] : undefined
+
+  return sheet.rows.map((row, index) => ({
+    rowNumber: index + 2,
+    githubUsername: cell(row, mapping.githubUsername) ?? "",
+    name: cell(row, mapping.name),
+    email: cell(row, mapping.email),
+    studentId: cell(row, mapping.studentId),
+    department: cell(row, mapping.department),
+    batch: cell(row, mapping.batch),
+    graduationYear: cell(row, mapping.graduationYear),
+  }))
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest"
+import type { StudentRecord } from "@/lib/student-import"
+import {
+  acceptedStudents,
+  isValidGithubUsername,
+  isValidRepositoryName,
+  normalizeGithubUsername,
+  usernamesToVerify,
+  validateStudents,
+} from "@/lib/student-validation"
+
+function student(rowNumber: number, githubUsername: string, extra: Partial<StudentRecord> = {}): StudentRecord {
+  return { rowNumber, githubUsername, ...extra }
+}
+
+function codes(report: ReturnType<typeof validateStudents>, row: number) {
+  return report.rows[row].issues.map((issue) => issue.code)
+}
+
+describe("isValidGithubUsername", () => {
+  it("accepts logins of alphanumerics and single inner hyphens", () => {
+    expect(isValidGithubUsername("octocat")).toBe(true)
+    expect(isValidGithubUsername("mona-lisa-42")).toBe(true)
+    expect(isValidGithubUsername("a".repeat(39))).toBe(true)
+  })
+
+  it("rejects leading, trailing and doubled hyphens, other characters and overlong logins", () => {
+    expect(isValidGithubUsername("-octocat")).toBe(false)
+    expect(isValidGithubUsername("octocat-")).toBe(false)
+    expect(isValidGithubUsername("octo--cat")).toBe(false)
+    expect(isValidGithubUsername("octo cat")).toBe(false)
+    expect(isValidGithubUsername("octo_cat")).toBe(false)
+    expect(isValidGithubUsername("a".repeat(40))).toBe(false)
+    expect(isValidGithubUsername("")).toBe(false)
+  })
+})
+
+describe("isValidRepositoryName", () => {
+  it("accepts the characters GitHub allows in repository names", () => {
+    expect(isValidRepositoryName("hello-world")).toBe(true)
+    expect(isValidRepositoryName("octo_cat.github.io")).toBe(true)
+    expect(isValidRepositoryName(".github")).toBe(true)
+  })
+
+  it("rejects paths, dot names, spaces and overlong names", () => {
+    expect(isValidRepositoryName("octocat/hello-world")).toBe(false)
+    expect(isValidRepositoryName("..")).toBe(false)
+    expect(isValidRepositoryName("hello world")).toBe(false)
+    expect(isValidRepositoryName("a".repeat(101))).toBe(false)
+    expect(isValidRepositoryName("")).toBe(false)
+  })
+})
+
+describe("normalizeGithubUsername", () => {
+  it("reduces profile URLs and mentions to the login", () => {
+    expect(normalizeGithubUsername("https://github.com/octocat/")).toEqual({ username: "octocat", changed: true })
+    expect(normalizeGithubUsername("www.github.com/octocat?tab=repositories")).toEqual({
+      username: "octocat",
+      changed: true,
+    })
+    expect(normalizeGithubUsername("@octocat")).toEqual({ username: "octocat", changed: true })
+  })
+
+  it("only reports a change for surrounding whitespace when the login is already bare", () => {
+    expect(normalizeGithubUsername("octocat")).toEqual({ username: "octocat", changed: false })
+    expect(normalizeGithubUsername(" octocat ")).toEqual({ username: "octocat", changed: true })
+  })
+})
+
+describe("validateStudents", () => {
+  it("flags empty rows, missing and malformed usernames", () => {
+    const report = validateStudents([
+      student(2, ""),
+      student(3, "", { name: "Ada" }),
+      student(4, "not a login"),
+    ])
+
+    expect(report.rows.map((row) => row.status)).toEqual(["empty", "error", "error"])
+    expect(codes(report, 1)).toEqual(["missing-username"])
+    expect(codes(report, 2)).toEqual(["malformed-username"])
+    expect(report.counts).toEqual({ valid: 0, warning: 0, error: 2, empty: 1 })
+  })
+
+  it("normalizes URLs with a warning and keeps the original value", () => {
+    const report = validateStudents([student(2, "https://github.com/octocat")])
+
+    expect(report.rows[0].status).toBe("warning")
+    expect(report.rows[0].record.githubUsername).toBe("octocat")
+    expect(report.rows[0].originalUsername).toBe("https://github.com/octocat")
+    expect(codes(report, 0)).toEqual(["normalized-url"])
+  })
+
+  it("flags case-insensitive duplicate usernames and repeated student IDs against their first row", () => {
+    const report = validateStudents([
+      student(2, "octocat", { studentId: "S1" }),
+      student(3, "OctoCat"),
+      student(4, "hubot", { studentId: "S1" }),
+    ])
+
+    expect(report.rows[0].status).toBe("valid")
+    expect(report.rows[1].issues).toEqual([expect.objectContaining({ code: "duplicate-username", message: "Duplicate of row 2" })])
+    expect(codes(report, 2)).toEqual(["duplicate-student-id"])
+  })
+
+  it("applies GitHub lookups once they are available", () => {
+    const report = validateStudents([student(2, "ghost"), student(3, "Flaky"), student(4, "octocat")], {
+      ghost: false,
+      flaky: null,
+      octocat: true,
+    })
+
+    expect(report.rows.map((row) => row.status)).toEqual(["error", "warning", "valid"])
+    expect(codes(report, 0)).toEqual(["user-not-found"])
+    expect(codes(report, 1)).toEqual(["user-unverified"])
+  })
+})
+
+describe("usernamesToVerify", () => {
+  it("lists each well-formed login not looked up yet once, in lower case", () => {
+    const report = validateStudents([
+      student(2, "Octocat"),
+      student(3, "octocat"),
+      student(4, "hubot"),
+      student(5, "bad login"),
+      student(6, ""),
+    ])
+
+    expect(usernamesToVerify(report, { hubot: true })).toEqual(["octocat"])
+  })
+})
+
+describe("acceptedStudents", () => {
+  it("keeps valid and warning rows with their normalized usernames", () => {
+    const report = validateStudents([
+      student(2, "@octocat"),
+      student(3, "hubot"),
+      student(4, "bad login"),
+      student(5, ""),
+    ])
+
+    expect(acceptedStudents(report).map((record) => record.githubUsername)).toEqual(["octocat", "hubot"])
+  })
+})
@@ -0,0 +1,187 @@
+import type { StudentRecord } from "@/lib/student-import"
+
+export type IssueSeverity = "error" | "warning"
+
+export type IssueCode =
+  | "empty-row"
+  | "missing-username"
+  | "malformed-username"
+  | "normalized-url"
+  | "duplicate-username"
+  | "duplicate-student-id"
+  | "user-not-found"
+  | "user-unverified"
+
+export interface ValidationIssue {
+  code: IssueCode
+  severity: IssueSeverity
+  message: string
+}
+
+export type RowStatus = "valid" | "warning" | "error" | "empty"
+
+export interface ValidatedRow {
+  record: StudentRecord // with the username normalized to a GitHub login
+  originalUsername: string
+  issues: ValidationIssue[]
+  status: RowStatus
+}
+
+export interface ValidationReport {
+  rows: ValidatedRow[]
+  counts: Record<RowStatus, number>
+}
+
+// Result of looking a login up on GitHub: true/false, or null when the lookup itself failed
+export type UserExistence = Record<string, boolean | null>
+
+// GitHub logins: 1-39 alphanumerics or single hyphens, not starting or ending with a hyphen
+const GITHUB_USERNAME_PATTERN = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i
+
+// Repository names: up to 100 alphanumerics, hyphens, underscores and dots, other than "." and ".."
+const REPOSITORY_NAME_PATTERN = /^(?!\.\.?$)[\w.-]{1,100}$/
+
+const PROFILE_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.)?github\.com\/([^/?#\s]+)/i
+
+export function isValidGithubUsername(username: string): boolean {
+  return GITHUB_USERNAME_PATTERN.test(username)
+}
+
+export function isValidRepositoryName(name: string): boolean {
+  return REPOSITORY_NAME_PATTERN.test(name)
+}
+
+// Reduce profile URLs and "@login" mentions to a bare login
+export function normalizeGithubUsername(value: string): { username: string; changed: boolean } {
+  const trimmed = value.trim()
+
+  const urlMatch = trimmed.match(PROFILE_URL_PATTERN)
+  if (urlMatch) {
+    return { username: urlMatch[1], changed: true }
+  }
+
+  if (trimmed.startsWith("@")) {
+    return { username: trimmed.slice(1), changed: true }
+  }
+
+  return { username: trimmed, changed: trimmed !== value }
+}
+
+function isEmptyRecord(record: StudentRecord): boolean {
+  return [
+    record.githubUsername,
+    record.name,
+    record.email,
+    record.studentId,
+    record.department,
+    record.batch,
+    record.graduationYear,
+  ].every((value) => !value || value.trim() === "")
+}
+
+function rowStatus(issues: ValidationIssue[]): RowStatus {
+  if (issues.some((issue) => issue.severity === "error")) return "error"
+  if (issues.length > 0) return "warning"
+  return "valid"
+}
+
+// Check every uploaded row. Pass `existence` once GitHub lookups have completed
+// to also flag logins that do not exist.
+export function validateStudents(records: StudentRecord[], existence: UserExistence = {}): ValidationReport {
+  const seenUsernames = new Map<string, number>()
+  const seenStudentIds = new Map<string, number>()
+
+  const rows = records.map((record): ValidatedRow => {
+    if (isEmptyRecord(record)) {
+      return {
+        record,
+        originalUsername: record.githubUsername,
+        issues: [{ code: "empty-row", severity: "warning", message: "Empty row, it will be skipped" }],
+        status: "empty",
+      }
+    }
+
+    const issues: ValidationIssue[] = []
+    const { username, changed } = normalizeGithubUsername(record.githubUsername)
+    const normalizedRecord = { ...record, githubUsername: username }
+
+    if (!username) {
+      issues.push({ code: "missing-username", severity: "error", message: "GitHub username is missing" })
+    } else if (!isValidGithubUsername(username)) {
+      issues.push({
+        code: "malformed-username",
+        severity: "error",
+        message: `"${username}" is not a valid GitHub username`,
+      })
+    } else {
+      if (changed) {
+        issues.push({
+          code: "normalized-url",
+          severity: "warning",
+          message: `"${record.githubUsername}" was normalized to "${username}"`,
+        })
+      }
+
+      const key = username.toLowerCase()
+      const firstRow = seenUsernames.get(key)
+      if (firstRow !== undefined) {
+        issues.push({
+          code: "duplicate-username",
+          severity: "error",
+          message: `Duplicate of row ${firstRow}`,
+        })
+      } else {
+        seenUsernames.set(key, record.rowNumber)
+      }
+
+      if (existence[key] === false) {
+        issues.push({ code: "user-not-found", severity: "error", message: `GitHub user "${username}" does not exist` })
+      } else if (existence[key] === null) {
+        issues.push({
+          code: "user-unverified",
+          severity: "warning",
+          message: "Could not verify this user on GitHub",
+        })
+      }
+    }
+
+    if (record.studentId) {
+      const firstRow = seenStudentIds.get(record.studentId)
+      if (firstRow !== undefined) {
+        issues.push({
+          code: "duplicate-student-id",
+          severity: "error",
+          message: `Student ID ${record.studentId} is also used on row ${firstRow}`,
+        })
+      } else {
+        seenStudentIds.set(record.studentId, record.rowNumber)
+      }
+    }
+
+    return { record: normalizedRecord, originalUsername: record.githubUsername, issues, status: rowStatus(issues) }
+  })
+
+  const counts: Record<RowStatus, number> = { valid: 0, warning: 0, error: 0, empty: 0 }
+  rows.forEach((row) => counts[row.status]++)
+
+  return { rows, counts }
+}
+
+// Well-formed logins from the report that still need a GitHub existence lookup
+export function usernamesToVerify(report: ValidationReport, existence: UserExistence): string[] {
+  const usernames = new Set<string>()
+  report.rows.forEach(({ record, status }) => {
+    const key = record.githubUsername.toLowerCase()
+    if (status !== "empty" && isValidGithubUsername(record.githubUsername) && !(key in existence)) {
+      usernames.add(key)
+    }
+  })
+  return [...usernames]
+}
+
+// Students that can be analyzed: rows without errors (and never empty rows)
+export function acceptedStudents(report: ValidationReport): StudentRecord[] {
+  return report.rows
+    .filter((row) => row.status === "valid" || row.status === "warning")
+    .map((row) => row.record)
+}
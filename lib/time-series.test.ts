@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest"
+import { MAX_BUCKETS, buildTimeSeries, endOfDayIn, isValidTimeZone, startOfDayIn } from "@/lib/time-series"
+
+interface Issue {
+  created_at: string
+  closed_at: string | null
+}
+
+const issues: Issue[] = [
+  { created_at: "2024-01-05T10:00:00Z", closed_at: "2024-02-01T10:00:00Z" },
+  { created_at: "2024-01-20T10:00:00Z", closed_at: null },
+  { created_at: "2024-03-10T10:00:00Z", closed_at: "2024-03-11T10:00:00Z" },
+]
+
+const series = {
+  opened: (issue: Issue) => issue.created_at,
+  closed: (issue: Issue) => issue.closed_at,
+}
+
+const since = new Date("2024-01-01T00:00:00Z")
+const until = new Date("2024-03-31T23:59:59Z")
+
+describe("buildTimeSeries", () => {
+  it("counts each series per bucket and keeps empty buckets", () => {
+    expect(buildTimeSeries(issues, series, { granularity: "month", since, until })).toEqual([
+      { key: "2024-01", label: "Jan 2024", opened: 2, closed: 0 },
+      { key: "2024-02", label: "Feb 2024", opened: 0, closed: 1 },
+      { key: "2024-03", label: "Mar 2024", opened: 1, closed: 1 },
+    ])
+  })
+
+  it("keys weeks by ISO week, starting on Monday", () => {
+    const points = buildTimeSeries(issues, series, {
+      granularity: "week",
+      since: new Date("2024-12-30T00:00:00Z"),
+      until: new Date("2025-01-12T00:00:00Z"),
+    })
+    expect(points.map((point) => [point.key, point.label])).toEqual([
+      ["2025-W01", "Week of Dec 30, 2024"],
+      ["2025-W02", "Week of Jan 6, 2025"],
+    ])
+  })
+
+  it("groups quarters", () => {
+    const points = buildTimeSeries(issues, series, { granularity: "quarter", since, until: new Date("2024-04-01T00:00:00Z") })
+    expect(points).toEqual([
+      { key: "2024-Q1", label: "Q1 2024", opened: 3, closed: 2 },
+      { key: "2024-Q2", label: "Q2 2024", opened: 0, closed: 0 },
+    ])
+  })
+
+  it("leaves out events outside the range", () => {
+    const points = buildTimeSeries(issues, series, {
+      granularity: "month",
+      since: new Date("2024-01-10T00:00:00Z"),
+      until: new Date("2024-03-10T00:00:00Z"),
+    })
+    expect(points.map((point) => [point.opened, point.closed])).toEqual([
+      [1, 0],
+      [0, 1],
+      [0, 0],
+    ])
+  })
+
+  it("buckets by the calendar day in the chosen time zone", () => {
+    const late = [{ created_at: "2024-01-31T20:00:00Z", closed_at: null }]
+    const options = { granularity: "month" as const, since, until }
+
+    expect(buildTimeSeries(late, series, options)[0].opened).toBe(1)
+    expect(buildTimeSeries(late, series, { ...options, timeZone: "Asia/Kolkata" })[1].opened).toBe(1)
+  })
+
+  it("falls back to UTC for an unknown time zone", () => {
+    const options = { granularity: "month" as const, since, until }
+    expect(buildTimeSeries(issues, series, { ...options, timeZone: "Mars/Olympus_Mons" })).toEqual(
+      buildTimeSeries(issues, series, options),
+    )
+  })
+
+  it("keeps running totals", () => {
+    const points = buildTimeSeries(issues, series, { granularity: "month", since, until, mode: "cumulative" })
+    expect(points.map((point) => point.opened)).toEqual([2, 2, 3])
+  })
+
+  it("averages over the last buckets, and over fewer near the start", () => {
+    const points = buildTimeSeries(issues, series, { granularity: "month", since, until, mode: "rolling", rollingWindow: 2 })
+    expect(points.map((point) => point.opened)).toEqual([2, 1, 0.5])
+  })
+
+  it("keeps the most recent buckets and carries the dropped ones into running totals", () => {
+    const options = {
+      granularity: "day" as const,
+      since: new Date("2023-01-01T00:00:00Z"),
+      until: new Date("2024-03-31T00:00:00Z"),
+    }
+
+    const counts = buildTimeSeries(issues, series, options)
+    expect(counts).toHaveLength(MAX_BUCKETS)
+    expect(counts[0].key).toBe("2023-02-26")
+    expect(counts.at(-1)!.key).toBe("2024-03-31")
+
+    const early = [{ created_at: "2023-01-15T10:00:00Z", closed_at: null }, ...issues]
+    const totals = buildTimeSeries(early, series, { ...options, mode: "cumulative" })
+    expect(totals[0].opened).toBe(1)
+    expect(totals.at(-1)!.opened).toBe(4)
+  })
+})
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names the runtime knows", () => {
+    expect(isValidTimeZone("UTC")).toBe(true)
+    expect(isValidTimeZone("Europe/London")).toBe(true)
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false)
+  })
+})
+
+describe("startOfDayIn and endOfDayIn", () => {
+  it("bound a day in the given time zone", () => {
+    expect(startOfDayIn("2024-03-01")).toEqual(new Date("2024-03-01T00:00:00.000Z"))
+    expect(startOfDayIn("2024-03-01", "Asia/Kolkata")).toEqual(new Date("2024-02-29T18:30:00.000Z"))
+    expect(endOfDayIn("2024-03-01", "America/New_York")).toEqual(new Date("2024-03-02T04:59:59.999Z"))
+  })
+
+  it("follow daylight saving changes", () => {
+    // London moves to BST at 01:00 UTC on 31 March 2024
+    expect(startOfDayIn("2024-03-31", "Europe/London")).toEqual(new Date("2024-03-31T00:00:00.000Z"))
+    expect(startOfDayIn("2024-04-01", "Europe/London")).toEqual(new Date("2024-03-31T23:00:00.000Z"))
+    expect(endOfDayIn("2024-03-30", "Europe/London")).toEqual(new Date("2024-03-30T23:59:59.999Z"))
+  })
+})
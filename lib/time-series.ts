@@ -0,0 +1,248 @@
+// Buckets dated events (issues opened, PRs merged, ...) into a time series for the charts. Buckets are
+// calendar days, ISO weeks, months or quarters in an explicit time zone, and are keyed by stable ISO
+// strings ("2024-05-03", "2024-W18", "2024-05", "2024-Q2") that do not depend on the viewer's locale.
+
+export type Granularity = "day" | "week" | "month" | "quarter"
+
+// "count" is the number of events per bucket, "cumulative" the running total since the range start and
+// "rolling" the average over the last `rollingWindow` buckets
+export type SeriesMode = "count" | "cumulative" | "rolling"
+
+export const GRANULARITIES: Record<Granularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+  quarter: "Quarterly",
+}
+
+export const SERIES_MODES: Record<SeriesMode, string> = {
+  count: "Count",
+  cumulative: "Cumulative",
+  rolling: "Rolling average",
+}
+
+export interface TimeSeriesOptions {
+  granularity: Granularity
+  since: Date
+  until: Date
+  timeZone?: string // IANA name; defaults to UTC, as does a name the runtime does not know
+  mode?: SeriesMode
+  rollingWindow?: number // buckets averaged in "rolling" mode; defaults to 3
+}
+
+// One bucket: its key and label, plus a value per series
+export type TimeSeriesPoint<K extends string> = { key: string; label: string } & Record<K, number>
+
+// Reads the date an item counts towards a series, or null when it does not count (e.g. an open issue's closed_at)
+export type DateAccessor<T> = (item: T) => string | null | undefined
+
+// Keeps daily series over long ranges readable; longer ranges keep their most recent buckets
+export const MAX_BUCKETS = 400
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "numeric", day: "numeric" })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// How far `timeZone` is ahead of UTC at `date`, from its "GMT+05:30" style name
+function utcOffsetMs(date: Date, timeZone: string): number {
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+    .formatToParts(date)
+    .find((part) => part.type === "timeZoneName")?.value
+  const match = name?.match(/^GMT([+-])(\d{2}):(\d{2})$/)
+  if (!match) return 0
+  const minutes = Number(match[2]) * 60 + Number(match[3])
+  return (match[1] === "-" ? -minutes : minutes) * 60 * 1000
+}
+
+// The instant a YYYY-MM-DD day starts in `timeZone`. The offset is read again at the result so days
+// starting next to a daylight saving change land on the right side of it
+export function startOfDayIn(day: string, timeZone = "UTC"): Date {
+  const midnight = Date.parse(`${day}T00:00:00Z`)
+  const guess = midnight - utcOffsetMs(new Date(midnight), timeZone)
+  return new Date(midnight - utcOffsetMs(new Date(guess), timeZone))
+}
+
+// The last millisecond of a YYYY-MM-DD day in `timeZone`
+export function endOfDayIn(day: string, timeZone = "UTC"): Date {
+  const next = new Date(Date.parse(`${day}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10)
+  return new Date(startOfDayIn(next, timeZone).getTime() - 1)
+}
+
+// The calendar date `date` falls on in `timeZone`, as midnight UTC so the rest is plain date arithmetic
+function calendarDate(date: Date, timeZone: string): Date {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  )
+  return new Date(Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day)))
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0")
+}
+
+// ISO 8601 week: weeks start on Monday and belong to the year of their Thursday
+function isoWeek(day: Date): { year: number; week: number } {
+  const thursday = new Date(day)
+  thursday.setUTCDate(day.getUTCDate() + 3 - ((day.getUTCDay() + 6) % 7))
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1)
+  return { year: thursday.getUTCFullYear(), week: Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1 }
+}
+
+function bucketKey(day: Date, granularity: Granularity): string {
+  const year = day.getUTCFullYear()
+  const month = day.getUTCMonth()
+  switch (granularity) {
+    case "day":
+      return `${year}-${pad(month + 1)}-${pad(day.getUTCDate())}`
+    case "week": {
+      const week = isoWeek(day)
+      return `${week.year}-W${pad(week.week)}`
+    }
+    case "month":
+      return `${year}-${pad(month + 1)}`
+    case "quarter":
+      return `${year}-Q${Math.floor(month / 3) + 1}`
+  }
+}
+
+function bucketLabel(day: Date, granularity: Granularity): string {
+  const year = day.getUTCFullYear()
+  switch (granularity) {
+    case "day":
+      return `${MONTH_NAMES[day.getUTCMonth()]} ${day.getUTCDate()}, ${year}`
+    case "week":
+      return `Week of ${MONTH_NAMES[day.getUTCMonth()]} ${day.getUTCDate()}, ${year}`
+    case "month":
+      return `${MONTH_NAMES[day.getUTCMonth()]} ${year}`
+    case "quarter":
+      return `Q${Math.floor(day.getUTCMonth() / 3) + 1} ${year}`
+  }
+}
+
+// First day of the bucket containing `day`
+function bucketStart(day: Date, granularity: Granularity): Date {
+  const start = new Date(day)
+  switch (granularity) {
+    case "week":
+      start.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+      break
+    case "month":
+      start.setUTCDate(1)
+      break
+    case "quarter":
+      start.setUTCMonth(day.getUTCMonth() - (day.getUTCMonth() % 3), 1)
+      break
+  }
+  return start
+}
+
+function nextBucket(start: Date, granularity: Granularity): Date {
+  const next = new Date(start)
+  switch (granularity) {
+    case "day":
+      next.setUTCDate(start.getUTCDate() + 1)
+      break
+    case "week":
+      next.setUTCDate(start.getUTCDate() + 7)
+      break
+    case "month":
+      next.setUTCMonth(start.getUTCMonth() + 1)
+      break
+    case "quarter":
+      next.setUTCMonth(start.getUTCMonth() + 3)
+      break
+  }
+  return next
+}
+
+function roundValue(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// One series per accessor, over every bucket from `since` to `until` (both inclusive) even when empty
+export function buildTimeSeries<T, K extends string>(
+  items: T[],
+  series: Record<K, DateAccessor<T>>,
+  options: TimeSeriesOptions,
+): TimeSeriesPoint<K>[] {
+  const { granularity, mode = "count", rollingWindow = 3 } = options
+  const timeZone = options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : "UTC"
+  const names = Object.keys(series) as K[]
+
+  const starts: Date[] = []
+  const last = bucketStart(calendarDate(options.until, timeZone), granularity)
+  for (
+    let start = bucketStart(calendarDate(options.since, timeZone), granularity);
+    start <= last;
+    start = nextBucket(start, granularity)
+  ) {
+    starts.push(start)
+  }
+  const buckets = starts.slice(-MAX_BUCKETS)
+
+  const index = new Map(buckets.map((start, position) => [bucketKey(start, granularity), position]))
+  const counts = names.map(() => new Array<number>(buckets.length).fill(0))
+  // Events in the range that fell in buckets dropped for MAX_BUCKETS, so running totals still count them
+  const earlier = names.map(() => 0)
+
+  // One lookup per event, rather than comparing every event with every bucket. Every bucket from `since`
+  // to `until` was generated, so an event in the range without one belongs to a dropped bucket
+  const since = options.since.getTime()
+  const until = options.until.getTime()
+  items.forEach((item) => {
+    names.forEach((name, seriesIndex) => {
+      const value = series[name](item)
+      if (!value) return
+      const date = new Date(value)
+      if (date.getTime() < since || date.getTime() > until) return
+      const position = index.get(bucketKey(calendarDate(date, timeZone), granularity))
+      if (position !== undefined) counts[seriesIndex][position]++
+      else earlier[seriesIndex]++
+    })
+  })
+
+  const values = counts.map((bucketCounts, seriesIndex) => {
+    if (mode === "cumulative") {
+      let total = earlier[seriesIndex]
+      return bucketCounts.map((count) => (total += count))
+    }
+    if (mode === "rolling") {
+      // Buckets near the start average over the ones available so far
+      return bucketCounts.map((_, position) => {
+        const recent = bucketCounts.slice(Math.max(0, position - rollingWindow + 1), position + 1)
+        return roundValue(recent.reduce((sum, count) => sum + count, 0) / recent.length)
+      })
+    }
+    return bucketCounts
+  })
+
+  return buckets.map(
+    (start, position) =>
+      ({
+        key: bucketKey(start, granularity),
+        label: bucketLabel(start, granularity),
+        ...Object.fromEntries(names.map((name, seriesIndex) => [name, values[seriesIndex][position]])),
+      }) as TimeSeriesPoint<K>,
+  )
+}